@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import { 
   FileText, 
@@ -13,164 +13,893 @@ import {
   Stethoscope,
   Phone,
   Check,
-  Trash2
+  X,
+  ArchiveRestore,
+  BarChart3,
+  Upload,
+  Lock,
+  DatabaseBackup,
+  Settings,
+  ScanLine,
+  Smartphone,
+  WifiOff,
+  Copy,
+  Users,
+  FileDown
 } from 'lucide-react';
 
 import { ImageUpload } from './components/ImageUpload';
 import { AudioRecorder } from './components/AudioRecorder';
 import { Button } from './components/Button';
-import { extractPatientDataFromImage, processInterventionAudio } from './services/geminiService';
-import { PatientRecord, BodyRegion, SurgicalIntervention } from './types';
+import { UndoToast } from './components/UndoToast';
+import { UpdateToast } from './components/UpdateToast';
+import { TrashBin } from './components/TrashBin';
+import { RecordsTable } from './components/RecordsTable';
+import { StatsDashboard } from './components/StatsDashboard';
+import { ExportDialog } from './components/ExportDialog';
+import { ImportDialog } from './components/ImportDialog';
+import { LockScreen } from './components/LockScreen';
+import { SecurityDialog } from './components/SecurityDialog';
+import { BackupDialog } from './components/BackupDialog';
+import { SettingsDialog } from './components/SettingsDialog';
+import { FieldEvidence } from './components/FieldEvidence';
+import { BarcodeScanner } from './components/BarcodeScanner';
+import { InterventionDetails } from './components/InterventionDetails';
+import { DictationPlayer } from './components/DictationPlayer';
+import { DraftRecoveryPrompt } from './components/DraftRecoveryPrompt';
+import { DuplicateCompare } from './components/DuplicateCompare';
+import { DuplicateFinder } from './components/DuplicateFinder';
+import { PatientsView } from './components/PatientsView';
+import { ReportDialog } from './components/ReportDialog';
+import { CaptureJobStatus, PendingDrafts } from './components/PendingDrafts';
+import { createExtractionProvider } from './services/providerFactory';
+import { FORMAT_LABELS, ScanResult, reconcileReview, scanConflicts } from './services/barcodeScan';
+import { purgeDictations, referencedDictations } from './services/dictationStore';
+import { DuplicateMatch, findDuplicatesOf } from './services/duplicateDetection';
+import { linkPatients, loadPatientLinks, updatePatient } from './services/patientRepository';
+import { LogbookOptions, downloadCaseSheet, downloadLogbook } from './services/pdfReports';
+import { ValidatedField, localToday, normalizePatientFields, parsePhones, validatePatientFields } from './services/validation';
+import {
+  CaptureKind,
+  DraftContent,
+  JobOutcome,
+  PendingDraft,
+  cancelCaptures,
+  createJob,
+  deleteDraft,
+  enqueueCapture,
+  extractedRecordFields,
+  getActiveDraftId,
+  hasDraftContent,
+  isJobStalled,
+  listDrafts,
+  nextAttemptDelay,
+  resumeCaptureJobs,
+  retryDraftJobs,
+  runDueJob,
+  saveFormDraft,
+  setActiveDraftId,
+  updateDraftContent
+} from './services/captureQueue';
+import {
+  CONFIDENCE_THRESHOLDS,
+  ExtractionReview,
+  ReviewedField,
+  buildReview,
+  confirmField,
+  pendingFields
+} from './services/extractionReview';
+import {
+  createRecord,
+  deleteRecord,
+  expiredRecords,
+  importRecords,
+  purgeExpiredRecords,
+  queryRecords,
+  restoreRecord,
+  trashRecord,
+  updateRecord
+} from './services/recordRepository';
+import { AppSettings, loadSettings, normalizeSettings, saveSettings } from './services/settingsService';
+import { activeFlags, getFlag, setFlag } from './services/taxonomy';
+import { CsvExportOptions, exportRecordsToCsv } from './services/csvExport';
+import { BackupSettings } from './services/backupFormat';
+import { downloadEncryptedBackup } from './services/encryptedBackup';
+import { ImportMode } from './services/recordImport';
+import { listenForInstallPrompt, registerServiceWorker } from './services/pwa';
+import { changePassphrase, createVault, isVaultInitialized, isVaultUnlocked, lockVault, unlockVault } from './services/vault';
+import { MediaFile, Patient, PatientRecord, SurgicalIntervention } from './types';
+
+type AppView = 'capture' | 'patients' | 'stats';
+
+// Pause in typing after which the form is written to its draft
+const AUTOSAVE_DELAY_MS = 1000;
+
+// Active colours of the built-in flag toggles; user flags share one
+const FLAG_TOGGLE_CLASSES: Record<string, string> = {
+  isArthroscopic: 'bg-indigo-600 border-indigo-700',
+  isLCA: 'bg-orange-500 border-orange-600',
+  isKneeRelated: 'bg-blue-600 border-blue-700',
+};
+const CUSTOM_TOGGLE_CLASS = 'bg-purple-600 border-purple-700';
+
+const VIEWS: { id: AppView; label: string; icon: React.ReactNode }[] = [
+  { id: 'capture', label: 'Registro', icon: <Stethoscope size={16} /> },
+  { id: 'patients', label: 'Pacientes', icon: <Users size={16} /> },
+  { id: 'stats', label: 'Estadísticas', icon: <BarChart3 size={16} /> },
+];
 
 function App() {
+  const [view, setView] = useState<AppView>('capture');
   // Initialize with current date as per requirements
   const [currentRecord, setCurrentRecord] = useState<Partial<PatientRecord>>({
-    date: new Date().toISOString().split('T')[0]
+    date: localToday()
   });
-  const [imageBase64, setImageBase64] = useState<string | null>(null);
+  const [pages, setPages] = useState<MediaFile[]>([]);
+  const [review, setReview] = useState<ExtractionReview>({});
+  // Last wristband or label code scanned for the patient in the form
+  const [scan, setScan] = useState<ScanResult | null>(null);
+  const scanRef = useRef(scan);
+  scanRef.current = scan;
+  const [showScanner, setShowScanner] = useState(false);
   const [savedRecords, setSavedRecords] = useState<PatientRecord[]>([]);
-  const [loading, setLoading] = useState<{ image: boolean; audio: boolean }>({ image: false, audio: false });
+  const [trashedRecords, setTrashedRecords] = useState<PatientRecord[]>([]);
+  const [patients, setPatients] = useState<Patient[]>([]);
+  // Patient whose timeline is open in the patients view
+  const [selectedPatientId, setSelectedPatientId] = useState<string | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
+  // Last record sent to the trash, offered for undo in the toast
+  const [lastTrashed, setLastTrashed] = useState<PatientRecord | null>(null);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const provider = useMemo(
+    () => createExtractionProvider(settings.provider, settings.taxonomy),
+    [settings.provider, settings.taxonomy]
+  );
+  const flags = activeFlags(settings.taxonomy);
+  const unconfirmed = pendingFields(review);
+  const conflicts = scanConflicts(scan, review);
+  const fieldErrors = validatePatientFields(currentRecord, settings);
+  const parsedPhones = parsePhones(currentRecord.phoneNumber, settings.defaultCountryCode).phones;
+  const [showExport, setShowExport] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showSecurity, setShowSecurity] = useState(false);
+  const [showBackup, setShowBackup] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  // PDF report being set up: the logbook, or the sheet of `record`
+  const [report, setReport] = useState<{ record?: PatientRecord } | null>(null);
+  // Saved records that look like the one being saved, waiting for the user's decision
+  const [duplicateCheck, setDuplicateCheck] = useState<{ candidate: PatientRecord; matches: DuplicateMatch[]; index: number } | null>(null);
+  const [vaultState, setVaultState] = useState<'loading' | 'setup' | 'locked' | 'unlocked'>('loading');
+  // Saved record currently loaded into the capture form, if any
+  const [editingRecord, setEditingRecord] = useState<PatientRecord | null>(null);
+  // Captures are queued under the id of the form's draft and processed in the background
+  const [draftId, setDraftId] = useState<string>(() => uuidv4());
+  const draftIdRef = useRef(draftId);
+  draftIdRef.current = draftId;
+  const [drafts, setDrafts] = useState<PendingDraft[]>([]);
+  // Pending run of the capture queue, awaited before the vault key is rotated
+  const queueRun = useRef<Promise<void> | null>(null);
+  // The ref stops writers at once; the state re-arms the autosave when the rotation ends
+  const rotatingKey = useRef(false);
+  const [isRotatingKey, setIsRotatingKey] = useState(false);
+  // Draft that was on screen when the app was last closed, offered back once the vault is open
+  const [recoveryId, setRecoveryId] = useState<string | null>(getActiveDraftId);
+  const autosaveTimer = useRef<number | undefined>(undefined);
+  const autosaving = useRef<Promise<void>>(Promise.resolve());
+  const flushAutosave = useRef<(() => void) | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  // Set when the browser offers installation / when a new build is waiting to activate
+  const [installApp, setInstallApp] = useState<(() => Promise<boolean>) | null>(null);
+  const [activateUpdate, setActivateUpdate] = useState<(() => void) | null>(null);
+  const currentDraft = drafts.find(d => d.id === draftId);
+  const otherDrafts = drafts.filter(d => d.id !== draftId);
+  const recoveryDraft = recoveryId !== draftId ? drafts.find(d => d.id === recoveryId) : undefined;
+  const imageJob = currentDraft?.jobs.find(j => j.kind === 'image');
+  const audioJob = currentDraft?.jobs.find(j => j.kind === 'audio');
   const [error, setError] = useState<string | null>(null);
   const [isSuccess, setIsSuccess] = useState(false);
 
-  // Load records from local storage on mount
+  // The table mirrors the local database; every write goes through the repository first.
+  const refreshRecords = useCallback(async () => {
+    try {
+      const { records, trashed, patients } = await loadPatientLinks();
+      setSavedRecords(records);
+      setTrashedRecords(trashed);
+      setPatients(patients);
+    } catch (e) {
+      console.error("Failed to load local database", e);
+      setError("No se pudo abrir la base de datos local.");
+    }
+  }, []);
+
+  // After records are saved, imported or restored, new and changed cases are grouped under their patient
+  const linkAndRefreshRecords = useCallback(async () => {
+    try {
+      await linkPatients();
+    } catch (e) {
+      console.error("Failed to link patients", e);
+    }
+    await refreshRecords();
+  }, [refreshRecords]);
+
+  useEffect(() => {
+    isVaultInitialized()
+      .then(initialized => setVaultState(initialized ? 'locked' : 'setup'))
+      .catch(e => {
+        console.error("Failed to open local database", e);
+        setVaultState('setup');
+        setError("No se pudo abrir la base de datos local.");
+      });
+  }, []);
+
+  const refreshDrafts = useCallback(async () => {
+    try {
+      setDrafts(await listDrafts());
+    } catch (e) {
+      console.error("Failed to load pending drafts", e);
+    }
+  }, []);
+
+  // Runs after the trash purge, so audio of purged records goes too
+  const purgeDictationAudio = useCallback(async (retentionDays: number) => {
+    try {
+      const [live, trashed, pending] = await Promise.all([queryRecords(), queryRecords({ deleted: true }), listDrafts()]);
+      await purgeDictations(retentionDays, referencedDictations([...live, ...trashed, ...pending.map(d => d.record)]));
+    } catch (e) {
+      console.error("Failed to purge dictations", e);
+    }
+  }, []);
+
+  // Purge expired trash and dictations on every unlock, then load the table and the capture queue.
+  // Linking here groups records saved before patients existed and drops patients of purged records.
+  useEffect(() => {
+    if (vaultState !== 'unlocked') return;
+    const { trashRetentionDays, dictationRetentionDays } = loadSettings();
+    purgeExpiredRecords(trashRetentionDays)
+      .catch(e => console.error("Failed to purge expired records", e))
+      .finally(linkAndRefreshRecords)
+      .then(() => purgeDictationAudio(dictationRetentionDays));
+    refreshDrafts();
+  }, [vaultState, linkAndRefreshRecords, refreshDrafts, purgeDictationAudio]);
+
+  useEffect(() => registerServiceWorker(activate => setActivateUpdate(() => activate)), []);
+
+  useEffect(() => listenForInstallPrompt(
+    install => setInstallApp(() => install),
+    () => setInstallApp(null)
+  ), []);
+
+  useEffect(() => {
+    const updateOnline = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    return () => {
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
+  }, []);
+
+  // Failures while the network was unreachable do not count once it is back, or after a restart
   useEffect(() => {
-    const saved = localStorage.getItem('surgilog_db');
-    if (saved) {
+    if (vaultState !== 'unlocked' || !isOnline || rotatingKey.current) return;
+    resumeCaptureJobs()
+      .catch(e => console.error("Failed to resume queued captures", e))
+      .then(refreshDrafts);
+  }, [vaultState, isOnline, refreshDrafts]);
+
+  // Results for the draft on screen also go into the form; other drafts are only updated in storage
+  const applyOutcome = useCallback(({ draftId: id, job, result, stale }: JobOutcome) => {
+    // A stale result belongs to a capture that was replaced or cancelled; the form already moved on
+    if (stale || id !== draftIdRef.current) return;
+    if (result?.kind === 'image') {
+      // Scanned codes are exact, so they keep precedence over the AI reading
+      setReview(reconcileReview(buildReview(result.data), scanRef.current));
+      setCurrentRecord(prev => ({ ...prev, ...extractedRecordFields(result.data), ...scanRef.current?.fields }));
+    } else if (result?.kind === 'audio') {
+      setCurrentRecord(prev => ({ ...prev, intervention: result.data, dictation: result.dictation }));
+    } else if (isJobStalled(job)) {
+      setError(job.kind === 'image'
+        ? "No se pudieron extraer los datos de la imagen. Puede reintentar más tarde o ingresar los datos manualmente."
+        : "Error al procesar el audio. Puede reintentar más tarde o grabar nuevamente.");
+    }
+  }, []);
+
+  const runQueue = useCallback(async () => {
+    if (queueRun.current || rotatingKey.current || !isVaultUnlocked() || !navigator.onLine) return;
+    const run = (async () => {
       try {
-        setSavedRecords(JSON.parse(saved));
+        let outcome: JobOutcome | null;
+        while (!rotatingKey.current && (outcome = await runDueJob(provider)) !== null) {
+          applyOutcome(outcome);
+          await refreshDrafts();
+        }
       } catch (e) {
-        console.error("Failed to load local database", e);
+        console.error("Capture queue failed", e);
       }
-    }
+    })();
+    queueRun.current = run;
+    await run;
+    queueRun.current = null;
+    await refreshDrafts();
+  }, [provider, applyOutcome, refreshDrafts]);
+
+  // Wake the queue when a job is due; failed jobs come back after their backoff delay
+  useEffect(() => {
+    if (vaultState !== 'unlocked' || !isOnline) return;
+    const delay = nextAttemptDelay(drafts);
+    if (delay === null) return;
+    const timer = window.setTimeout(runQueue, delay);
+    return () => window.clearTimeout(timer);
+  }, [drafts, isOnline, vaultState, runQueue]);
+
+  // Decrypted records are dropped from memory; the half-filled capture form is kept behind the lock screen
+  const handleLock = useCallback(() => {
+    lockVault();
+    setSavedRecords([]);
+    setTrashedRecords([]);
+    setPatients([]);
+    setSelectedPatientId(null);
+    setDrafts([]);
+    setLastTrashed(null);
+    setShowExport(false);
+    setShowImport(false);
+    setShowSecurity(false);
+    setShowBackup(false);
+    setShowSettings(false);
+    setShowDuplicates(false);
+    setReport(null);
+    setDuplicateCheck(null);
+    setVaultState('locked');
   }, []);
 
-  // Save records to local storage whenever they change
+  // Auto-lock after a period without user interaction
   useEffect(() => {
-    localStorage.setItem('surgilog_db', JSON.stringify(savedRecords));
-  }, [savedRecords]);
+    if (vaultState !== 'unlocked' || settings.autoLockMinutes === 0) return;
+    let timer = window.setTimeout(handleLock, settings.autoLockMinutes * 60_000);
+    const resetTimer = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(handleLock, settings.autoLockMinutes * 60_000);
+    };
+    const events = ['pointerdown', 'keydown', 'scroll', 'touchstart'];
+    events.forEach(name => window.addEventListener(name, resetTimer, { passive: true }));
+    return () => {
+      window.clearTimeout(timer);
+      events.forEach(name => window.removeEventListener(name, resetTimer));
+    };
+  }, [vaultState, settings.autoLockMinutes, handleLock]);
 
-  const handleImageSelected = async (base64: string, mimeType: string) => {
-    setImageBase64(base64);
-    setLoading(prev => ({ ...prev, image: true }));
+  const handleUnlock = async (passphrase: string) => {
+    if (vaultState === 'setup') {
+      await createVault(passphrase);
+    } else if (!(await unlockVault(passphrase))) {
+      return false;
+    }
     setError(null);
+    setVaultState('unlocked');
+    return true;
+  };
+
+  // Background writers are stopped during the rotation: a draft sealed with the old key and
+  // written after the switch could no longer be opened
+  const handleChangePassphrase = async (current: string, next: string) => {
+    flushAutosave.current?.();
+    rotatingKey.current = true;
+    setIsRotatingKey(true);
     try {
-      const data = await extractPatientDataFromImage(base64, mimeType);
-      setCurrentRecord(prev => ({
-        ...prev,
-        patientName: data.patientName,
-        clinicalHistoryId: data.clinicalHistoryId,
-        phoneNumber: data.phoneNumber,
-        // We keep the current date (today) as default, but if you want to use the document date, 
-        // you could uncomment the next line. Requirement states "Date must be current moment".
-        // date: data.date || prev.date 
-      }));
-    } catch (err) {
-      setError("No se pudieron extraer los datos de la imagen. Por favor intente nuevamente o ingrese los datos manualmente.");
+      await Promise.all([autosaving.current, queueRun.current]);
+      const changed = await changePassphrase(current, next);
+      if (changed) await refreshRecords();
+      return changed;
     } finally {
-      setLoading(prev => ({ ...prev, image: false }));
+      rotatingKey.current = false;
+      setIsRotatingKey(false);
+      await refreshDrafts();
     }
   };
 
-  const handleAudioReady = async (base64: string, mimeType: string) => {
-    setLoading(prev => ({ ...prev, audio: true }));
+  const formContent = (): DraftContent => ({
+    record: currentRecord,
+    review,
+    pages,
+    scan,
+    editingRecordId: editingRecord?.id,
+  });
+
+  // Autosave: the form is written to its draft shortly after every change, and at once when the
+  // page is hidden, which is the last chance before the phone kills a background tab
+  useEffect(() => {
+    if (vaultState !== 'unlocked' || isSuccess || isRotatingKey) return;
+    const content = formContent();
+    if (!hasDraftContent(content, editingRecord)) return;
+    const id = draftId;
+    const save = () => {
+      window.clearTimeout(autosaveTimer.current);
+      flushAutosave.current = null;
+      // Sealed with the old key, it could land after the rotation; the effect saves again once it ends
+      if (rotatingKey.current) return;
+      autosaving.current = saveFormDraft(id, content)
+        .then(() => setActiveDraftId(id))
+        .catch(e => console.error("Failed to autosave draft", e))
+        .then(refreshDrafts);
+    };
+    flushAutosave.current = save;
+    autosaveTimer.current = window.setTimeout(save, AUTOSAVE_DELAY_MS);
+    return () => {
+      window.clearTimeout(autosaveTimer.current);
+      flushAutosave.current = null;
+    };
+    // formContent only reads the state listed here
+  }, [currentRecord, review, pages, scan, editingRecord, draftId, vaultState, isSuccess, isRotatingKey, refreshDrafts]);
+
+  useEffect(() => {
+    const flush = () => {
+      if (document.visibilityState === 'hidden') flushAutosave.current?.();
+    };
+    document.addEventListener('visibilitychange', flush);
+    return () => document.removeEventListener('visibilitychange', flush);
+  }, []);
+
+  // Captures are stored before they are sent, so nothing is lost without connection
+  const queueCapture = async (kind: CaptureKind, files: MediaFile[], content: DraftContent) => {
     setError(null);
     try {
-      const interventionData = await processInterventionAudio(base64, mimeType);
-      setCurrentRecord(prev => ({
-        ...prev,
-        intervention: interventionData
-      }));
-    } catch (err) {
-      setError("Error al procesar el audio. Por favor intente hablar más claro o verifique su conexión.");
-    } finally {
-      setLoading(prev => ({ ...prev, audio: false }));
+      await enqueueCapture(draftId, content, createJob(kind, files));
+    } catch (e) {
+      console.error("Failed to queue capture", e);
+      setError("No se pudo guardar la captura en el dispositivo. Por favor intente nuevamente.");
     }
+    await refreshDrafts();
   };
 
-  const toggleBooleanIntervention = (field: 'isArthroscopic' | 'isLCA' | 'isKneeRelated') => {
+  // Every change to the page set re-extracts from all pages together
+  const extractPages = (next: MediaFile[]) => {
+    setPages(next);
+    return queueCapture('image', next, { ...formContent(), pages: next });
+  };
+
+  const handlePagesAdded = (added: MediaFile[]) => extractPages([...pages, ...added]);
+
+  const handleReplacePage = (index: number, page: MediaFile) =>
+    extractPages(pages.map((p, i) => (i === index ? page : p)));
+
+  const handleRemovePage = (index: number) => {
+    const next = pages.filter((_, i) => i !== index);
+    return next.length > 0 ? extractPages(next) : handleClearImage();
+  };
+
+  const handleAudioReady = (base64: string, mimeType: string) =>
+    queueCapture('audio', [{ base64, mimeType }], formContent());
+
+  const handleClearImage = async () => {
+    setPages([]);
+    setReview({});
+    setScan(null);
+    setCurrentRecord(prev => ({ 
+      ...prev, 
+      patientName: '', 
+      clinicalHistoryId: '', 
+      phoneNumber: ''
+      // Date is kept as is
+    }));
+    try {
+      await cancelCaptures(draftId, 'image');
+    } catch (e) {
+      console.error("Failed to cancel queued image", e);
+    }
+    await refreshDrafts();
+  };
+
+  // Keeps the form in its draft before the form switches to another one; a blank form leaves nothing behind
+  const stashDraft = async () => {
+    window.clearTimeout(autosaveTimer.current);
+    await autosaving.current;
+    const content = formContent();
+    if (!currentDraft && !hasDraftContent(content, editingRecord)) return;
+    try {
+      await saveFormDraft(draftId, content);
+    } catch (e) {
+      console.error("Failed to save draft", e);
+    }
+    await refreshDrafts();
+  };
+
+  const handleInstall = async () => {
+    if (!installApp) return;
+    // The browser's prompt can only be shown once
+    setInstallApp(null);
+    await installApp();
+  };
+
+  const handleApplyUpdate = async () => {
+    if (!activateUpdate) return;
+    await stashDraft();
+    activateUpdate();
+  };
+
+  const handleOpenDraft = async (draft: PendingDraft) => {
+    await stashDraft();
+    setActiveDraftId(draft.id);
+    setDraftId(draft.id);
+    setCurrentRecord(draft.record);
+    setReview(draft.review);
+    setPages(draft.pages);
+    setScan(draft.scan ?? null);
+    setEditingRecord(savedRecords.find(r => r.id === draft.editingRecordId) ?? null);
+    setError(null);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleRecoverDraft = async (draft: PendingDraft) => {
+    setRecoveryId(null);
+    await handleOpenDraft(draft);
+  };
+
+  const handleRetryDraft = async (id: string) => {
+    try {
+      await retryDraftJobs(id);
+      setError(null);
+    } catch (e) {
+      console.error("Failed to retry draft", e);
+    }
+    await refreshDrafts();
+  };
+
+  const handleDiscardDraft = async (id: string) => {
+    if (!window.confirm("¿Descartar este borrador y sus capturas pendientes?")) return;
+    try {
+      await deleteDraft(id);
+    } catch (e) {
+      console.error("Failed to discard draft", e);
+      setError("No se pudo descartar el borrador.");
+    }
+    await refreshDrafts();
+  };
+
+  const handleScanDetected = async (result: ScanResult) => {
+    setShowScanner(false);
+    setError(null);
+    const record = { ...currentRecord, ...result.fields };
+    const reconciled = reconcileReview(review, result);
+    setScan(result);
+    setCurrentRecord(record);
+    setReview(reconciled);
+    // A queued extraction for this draft has to keep the scanned values too
+    if (!currentDraft) return;
+    try {
+      await updateDraftContent(draftId, { ...formContent(), record, review: reconciled, scan: result });
+    } catch (e) {
+      console.error("Failed to save scan to draft", e);
+    }
+  };
+
+  // Offered under a field when the scanned code and the AI reading disagree
+  const conflictFor = (field: ReviewedField) => {
+    if (!scan || !conflicts.includes(field)) return undefined;
+    const resolve = (value: string) => {
+      setCurrentRecord(prev => ({ ...prev, [field]: value }));
+      setReview(prev => confirmField(prev, field));
+    };
+    return {
+      scanned: scan.fields[field]!,
+      onUseScanned: () => resolve(scan.fields[field]!),
+      onUseExtracted: () => resolve(review[field]!.value),
+    };
+  };
+
+  // Typing over an extracted value counts as checking it
+  const editReviewedField = (field: ReviewedField, value: string) => {
+    setCurrentRecord(prev => ({ ...prev, [field]: value }));
+    setReview(prev => confirmField(prev, field));
+  };
+
+  const inputReviewClass = (field: ReviewedField) =>
+    fieldErrors[field as ValidatedField]
+      ? 'border-red-400 focus:border-red-500 focus:ring-red-500'
+      : review[field] && !review[field]!.confirmed
+      ? 'border-amber-400 bg-amber-50 focus:border-amber-500 focus:ring-amber-500'
+      : 'border-gray-300 focus:border-medical-500 focus:ring-medical-500';
+
+  const fieldError = (field: ValidatedField) =>
+    fieldErrors[field] && <p className="text-xs text-red-600 mt-1">{fieldErrors[field]}</p>;
+
+  const toggleInterventionFlag = (flagId: string) => {
     if (!currentRecord.intervention) return;
+    setCurrentRecord(prev => {
+      const current = prev.intervention!;
+      const toggled = setFlag(current, flagId, !getFlag(current, flagId));
+      // A graft only makes sense for an LCA reconstruction
+      return { ...prev, intervention: flagId === 'isLCA' && !toggled.isLCA ? { ...toggled, graftType: null } : toggled };
+    });
+  };
+
+  const updateIntervention = (patch: Partial<SurgicalIntervention>) => {
     setCurrentRecord(prev => ({
       ...prev,
-      intervention: {
-        ...prev.intervention!,
-        [field]: !prev.intervention![field]
-      }
+      intervention: prev.intervention ? { ...prev.intervention, ...patch } : null
     }));
   };
 
-  const handleSaveRecord = () => {
+  const handleSaveRecord = async () => {
     if (!currentRecord.patientName || !currentRecord.intervention) {
       setError("Faltan datos obligatorios (Nombre del Paciente o Intervención).");
       return;
     }
+    if (unconfirmed.length > 0) {
+      setError("Hay datos extraídos con baja confianza. Revíselos y confírmelos antes de guardar.");
+      return;
+    }
+    if (Object.keys(fieldErrors).length > 0) {
+      setError("Hay datos del paciente no válidos. Corríjalos antes de guardar.");
+      return;
+    }
 
-    const newRecord: PatientRecord = {
-      id: uuidv4(),
+    // Stored in canonical form: upper-case HC, E.164 phones, ISO date
+    const fields = normalizePatientFields({
       patientName: currentRecord.patientName || "Desconocido",
       clinicalHistoryId: currentRecord.clinicalHistoryId || "S/N",
       phoneNumber: currentRecord.phoneNumber || "",
-      date: currentRecord.date || new Date().toISOString().split('T')[0],
+      date: currentRecord.date || localToday(),
       intervention: currentRecord.intervention!,
-      createdAt: Date.now()
-    };
+      dictation: currentRecord.dictation,
+    }, settings);
+    // Keep the original id and creation time so the row stays the same record
+    const candidate: PatientRecord = editingRecord
+      ? { ...editingRecord, ...fields, updatedAt: Date.now() }
+      : { id: uuidv4(), ...fields, createdAt: Date.now() };
+
+    // A retried dictation or a colleague logging the same case: let the user decide first
+    const matches = findDuplicatesOf(candidate, savedRecords);
+    if (matches.length > 0) {
+      setDuplicateCheck({ candidate, matches, index: 0 });
+      return;
+    }
+    await persistRecord(() => (editingRecord ? updateRecord(candidate) : createRecord(candidate)));
+  };
 
-    setSavedRecords(prev => [newRecord, ...prev]);
+  // Writes the form's record, then clears the form; on failure the data stays in the form
+  const persistRecord = async (write: () => Promise<unknown>) => {
+    try {
+      await write();
+    } catch (e) {
+      console.error("Failed to save record", e);
+      setError("No se pudo guardar el registro en la base de datos local. Los datos siguen en el formulario.");
+      return;
+    }
+
+    // A pending autosave must not bring the draft back after it is removed
+    window.clearTimeout(autosaveTimer.current);
+    await autosaving.current;
+    try {
+      await deleteDraft(draftId);
+    } catch (e) {
+      console.error("Failed to remove saved draft", e);
+    }
+    await Promise.all([linkAndRefreshRecords(), refreshDrafts()]);
     setIsSuccess(true);
     
     // Delay new patient reset to show the success check animation
     setTimeout(() => {
-      handleNewPatient();
+      resetForm();
       setIsSuccess(false);
     }, 1500);
   };
 
-  const handleNewPatient = () => {
+  const handleKeepBothDuplicates = () => {
+    const { candidate } = duplicateCheck!;
+    setDuplicateCheck(null);
+    return persistRecord(() => (editingRecord ? updateRecord(candidate) : createRecord(candidate)));
+  };
+
+  // The form's record is folded into the saved one; a record being edited goes to the trash
+  const handleMergeOnSave = (merged: PatientRecord) => {
+    setDuplicateCheck(null);
+    return persistRecord(async () => {
+      await updateRecord(merged);
+      if (editingRecord && editingRecord.id !== merged.id) await trashRecord(editingRecord.id);
+    });
+  };
+
+  const handleMergeDuplicates = async (merged: PatientRecord, trashedId: string) => {
+    try {
+      await updateRecord(merged);
+      await trashRecord(trashedId);
+    } finally {
+      await linkAndRefreshRecords();
+    }
+  };
+
+  const handleNewPatient = async () => {
+    await stashDraft();
+    resetForm();
+  };
+
+  const resetForm = () => {
+    setActiveDraftId(null);
+    setDraftId(uuidv4());
     // Reset to default state with Today's date
     setCurrentRecord({
-      date: new Date().toISOString().split('T')[0]
+      date: localToday()
     });
-    setImageBase64(null);
+    setPages([]);
+    setReview({});
+    setScan(null);
+    setEditingRecord(null);
     setError(null);
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
-  const handleDeleteRecord = (id: string) => {
-    // Immediate deletion without confirmation as requested
-    setSavedRecords(prev => prev.filter(r => r.id !== id));
-    // Optional: Clear error/status message or show a small transient feedback if needed
-    setError(null); 
+  const handleEditRecord = async (record: PatientRecord) => {
+    await stashDraft();
+    setActiveDraftId(null);
+    setDraftId(uuidv4());
+    setEditingRecord(record);
+    setCurrentRecord({
+      patientName: record.patientName,
+      clinicalHistoryId: record.clinicalHistoryId,
+      phoneNumber: record.phoneNumber,
+      date: record.date,
+      intervention: record.intervention ? { ...record.intervention } : null,
+      dictation: record.dictation
+    });
+    setPages([]);
+    setReview({});
+    setScan(null);
+    setError(null);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleEditPatientCase = async (record: PatientRecord) => {
+    setView('capture');
+    await handleEditRecord(record);
+  };
+
+  const handleOpenPatient = (patientId: string) => {
+    setSelectedPatientId(patientId);
+    setView('patients');
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleSavePatient = async (patient: Patient): Promise<boolean> => {
+    const saved = await updatePatient(patient);
+    if (saved) await refreshRecords();
+    return saved;
+  };
+
+  const handleDeleteRecord = async (id: string) => {
+    // Soft delete: the record goes to the trash bin and can be undone from the toast
+    try {
+      const trashed = await trashRecord(id);
+      if (editingRecord?.id === id) resetForm();
+      setLastTrashed(trashed);
+      setError(null);
+    } catch (e) {
+      console.error("Failed to delete record", e);
+      setError("No se pudo eliminar el registro.");
+    }
+    await refreshRecords();
+  };
+
+  const handleRestoreRecord = async (id: string) => {
+    try {
+      await restoreRecord(id);
+      setError(null);
+    } catch (e) {
+      console.error("Failed to restore record", e);
+      setError("No se pudo restaurar el registro.");
+    }
+    setLastTrashed(prev => (prev?.id === id ? null : prev));
+    await refreshRecords();
+  };
+
+  const handlePurgeRecords = async (ids: string[]) => {
+    const message = ids.length === 1
+      ? "¿Eliminar definitivamente este registro? Esta acción no se puede deshacer."
+      : `¿Eliminar definitivamente ${ids.length} registros? Esta acción no se puede deshacer.`;
+    if (!window.confirm(message)) return;
+    try {
+      for (const id of ids) {
+        await deleteRecord(id);
+      }
+      setError(null);
+    } catch (e) {
+      console.error("Failed to purge records", e);
+      setError("No se pudieron eliminar definitivamente los registros.");
+    }
+    await refreshRecords();
+  };
+
+  const handleOpenBackup = () => {
+    setShowExport(false);
+    setShowBackup(true);
+  };
+
+  const handleCreateBackup = (password: string) =>
+    downloadEncryptedBackup([...savedRecords, ...trashedRecords], settings, password);
+
+  const handleRestoreBackup = async (records: PatientRecord[], mode: ImportMode, restored: BackupSettings | null) => {
+    await importRecords(records, mode);
+    if (restored) {
+      // The AI provider (endpoint, model, API key) belongs to this device; older backups may still carry one
+      const next = normalizeSettings({ ...restored, provider: settings.provider });
+      setSettings(next);
+      saveSettings(next);
+    }
+    setError(null);
+    await linkAndRefreshRecords();
   };
 
-  const handleExportCSV = () => {
-    if (savedRecords.length === 0) return;
+  // Errors propagate to the dialog, which keeps the file loaded so the user can retry
+  const handleImport = async (records: PatientRecord[], mode: ImportMode) => {
+    await importRecords(records, mode);
+    setShowImport(false);
+    setError(null);
+    await linkAndRefreshRecords();
+  };
 
-    const headers = ["ID", "Fecha", "HC", "Paciente", "Teléfono", "Intervención", "Región", "Artroscopia", "LCA", "Rodilla"];
-    const rows = savedRecords.map(r => [
-      r.id,
-      r.date,
-      r.clinicalHistoryId,
-      r.patientName,
-      `"${r.phoneNumber || ''}"`, // Wrap phone in quotes to prevent Excel formatting issues
-      `"${r.intervention?.description.replace(/"/g, '""') || ''}"`, // Escape quotes
-      r.intervention?.region || '',
-      r.intervention?.isArthroscopic ? 'Sí' : 'No',
-      r.intervention?.isLCA ? 'Sí' : 'No',
-      r.intervention?.isKneeRelated ? 'Sí' : 'No'
-    ]);
+  const updateSettings = (patch: Partial<AppSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveSettings(next);
+  };
 
-    const csvContent = "data:text/csv;charset=utf-8," 
-      + [headers.join(","), ...rows.map(e => e.join(","))].join("\n");
+  const handleSaveSettings = async (patch: Partial<AppSettings>) => {
+    const retentionChanged = patch.dictationRetentionDays !== undefined
+      && patch.dictationRetentionDays !== settings.dictationRetentionDays;
+    updateSettings(patch);
+    if (retentionChanged) await purgeDictationAudio(patch.dictationRetentionDays!);
+  };
 
-    const encodedUri = encodeURI(csvContent);
-    const link = document.createElement("a");
-    link.setAttribute("href", encodedUri);
-    link.setAttribute("download", `surgilog_export_${new Date().toISOString().split('T')[0]}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  // A shorter retention period deletes the older trashed records right away, so it is confirmed first
+  const handleRetentionChange = async (days: number) => {
+    const expiring = expiredRecords(trashedRecords, days).length;
+    if (expiring > 0 && !window.confirm(expiring === 1
+      ? `Con ${days} días de retención se eliminará definitivamente 1 registro de la papelera. ¿Continuar?`
+      : `Con ${days} días de retención se eliminarán definitivamente ${expiring} registros de la papelera. ¿Continuar?`
+    )) return;
+    updateSettings({ trashRetentionDays: days });
+    try {
+      await purgeExpiredRecords(days);
+    } catch (e) {
+      console.error("Failed to purge expired records", e);
+    }
+    await refreshRecords();
   };
 
+  const dismissUndo = useCallback(() => setLastTrashed(null), []);
+
+  const handleExportCSV = (options: CsvExportOptions) => {
+    updateSettings({ csvColumns: options.columns, csvDelimiter: options.delimiter });
+    const count = exportRecordsToCsv(savedRecords, options, settings.taxonomy);
+    setShowExport(false);
+    setError(count === 0 ? "No hay registros en el periodo seleccionado; se exportó solo la cabecera." : null);
+  };
+
+  const handleGenerateReport = (options: LogbookOptions) => {
+    updateSettings({ reportHeader: options.header });
+    try {
+      if (report?.record) downloadCaseSheet(report.record, settings.taxonomy, options);
+      else downloadLogbook(savedRecords, settings.taxonomy.regions, options);
+      setError(null);
+    } catch (e) {
+      console.error("Failed to generate PDF report", e);
+      setError("No se pudo generar el PDF.");
+    }
+    setReport(null);
+  };
+
+  if (vaultState === 'loading') {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center text-medical-600">
+        <Activity className="animate-spin" size={32} />
+      </div>
+    );
+  }
+
+  if (vaultState !== 'unlocked') {
+    return <LockScreen key={vaultState} mode={vaultState === 'setup' ? 'setup' : 'unlock'} onSubmit={handleUnlock} />;
+  }
+
   return (
     <div className="min-h-screen bg-slate-50 pb-20">
       {/* Header */}
@@ -185,11 +914,56 @@ function App() {
               <p className="text-xs text-gray-500">Asistente Quirúrgico Inteligente</p>
             </div>
           </div>
-          <div className="flex items-center gap-2 text-xs text-green-700 bg-green-50 px-3 py-1 rounded-full border border-green-200">
-            <ShieldCheck size={14} />
-            <span className="font-medium">Confidencialidad Activa</span>
+          <div className="flex items-center gap-2">
+            {!isOnline && (
+              <span
+                className="flex items-center gap-2 text-xs text-amber-700 bg-amber-50 px-3 py-1 rounded-full border border-amber-200"
+                title="Las capturas se guardan y se procesarán al recuperar la conexión"
+              >
+                <WifiOff size={14} />
+                <span className="font-medium">Sin conexión</span>
+              </span>
+            )}
+            {installApp && (
+              <Button variant="ghost" onClick={handleInstall} icon={<Smartphone size={16} />} className="text-xs px-3 py-1">
+                Instalar
+              </Button>
+            )}
+            <button
+              onClick={() => setShowSecurity(true)}
+              className="flex items-center gap-2 text-xs text-green-700 bg-green-50 px-3 py-1 rounded-full border border-green-200 hover:bg-green-100"
+              title="Datos cifrados en este dispositivo"
+            >
+              <ShieldCheck size={14} />
+              <span className="font-medium">Confidencialidad Activa</span>
+            </button>
+            <Button variant="ghost" onClick={() => setShowSettings(true)} className="p-2 h-auto" title="Ajustes">
+              <Settings size={18} />
+            </Button>
+            <Button variant="ghost" onClick={() => setShowBackup(true)} className="p-2 h-auto" title="Copia de seguridad">
+              <DatabaseBackup size={18} />
+            </Button>
+            <Button variant="ghost" onClick={handleLock} className="p-2 h-auto" title="Bloquear">
+              <Lock size={18} />
+            </Button>
           </div>
         </div>
+        <nav className="max-w-5xl mx-auto px-4 flex gap-1 text-sm">
+          {VIEWS.map(({ id, label, icon }) => (
+            <button
+              key={id}
+              onClick={() => setView(id)}
+              className={`flex items-center gap-2 px-4 py-2 border-b-2 font-medium transition-colors ${
+                view === id
+                  ? 'border-medical-600 text-medical-700'
+                  : 'border-transparent text-gray-500 hover:text-gray-800'
+              }`}
+            >
+              {icon}
+              {label}
+            </button>
+          ))}
+        </nav>
       </header>
 
       <main className="max-w-5xl mx-auto px-4 py-8 space-y-8">
@@ -205,283 +979,483 @@ function App() {
           </div>
         )}
 
-        {/* Input Section Grid */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          
-          {/* Left Column: Image & Patient Data */}
-          <div className="space-y-6">
-            <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
-              <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center gap-2">
-                <FileText className="text-medical-500" size={20} />
-                Datos del Paciente
-              </h2>
-              
-              <ImageUpload 
-                onImageSelected={handleImageSelected}
-                onClear={() => {
-                  setImageBase64(null);
-                  setCurrentRecord(prev => ({ 
-                    ...prev, 
-                    patientName: '', 
-                    clinicalHistoryId: '', 
-                    phoneNumber: ''
-                    // Date is kept as is
-                  }));
-                }}
-                previewUrl={imageBase64}
-                isProcessing={loading.image}
-              />
+        {view === 'stats' ? (
+          <StatsDashboard records={savedRecords} regions={settings.taxonomy.regions} />
+        ) : view === 'patients' ? (
+          <PatientsView
+            patients={patients}
+            records={savedRecords}
+            rules={settings}
+            selectedId={selectedPatientId}
+            onSelect={setSelectedPatientId}
+            onSavePatient={handleSavePatient}
+            onEditCase={handleEditPatientCase}
+          />
+        ) : (
+          <>
+            {/* Editing Banner */}
+            {editingRecord && (
+              <div className="bg-amber-50 border-l-4 border-amber-500 p-4 rounded-r-lg shadow-sm flex items-center justify-between gap-4">
+                <p className="text-sm text-amber-800">
+                  Editando el registro de <span className="font-semibold">{editingRecord.patientName}</span> ({editingRecord.date}).
+                  Los cambios se guardarán sobre el mismo registro.
+                </p>
+                <Button variant="ghost" onClick={handleNewPatient} icon={<X size={16} />} className="text-amber-800 hover:bg-amber-100">
+                  Cancelar
+                </Button>
+              </div>
+            )}
 
-              {loading.image && (
-                <div className="mt-4 p-4 bg-blue-50 text-blue-700 rounded-lg flex items-center justify-center gap-2 animate-pulse">
-                  <Activity className="animate-spin" size={20} />
-                  Analizando documento con IA...
-                </div>
-              )}
+            {otherDrafts.length > 0 && (
+              <PendingDrafts
+                drafts={otherDrafts}
+                isOnline={isOnline}
+                onOpen={handleOpenDraft}
+                onRetry={handleRetryDraft}
+                onDiscard={handleDiscardDraft}
+              />
+            )}
 
-              <div className="mt-6 space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
-                    <User size={14} /> Nombre del Paciente
-                  </label>
-                  <input 
-                    type="text" 
-                    value={currentRecord.patientName || ''}
-                    onChange={(e) => setCurrentRecord(prev => ({ ...prev, patientName: e.target.value }))}
-                    placeholder="Detectado automáticamente..."
-                    className="w-full rounded-lg border-gray-300 shadow-sm focus:border-medical-500 focus:ring-medical-500 px-4 py-2 border"
-                  />
-                </div>
+            {/* Input Section Grid */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            
+              {/* Left Column: Image & Patient Data */}
+              <div className="space-y-6">
+                <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+                  <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center gap-2">
+                    <FileText className="text-medical-500" size={20} />
+                    Datos del Paciente
+                  </h2>
                 
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
-                      <Hash size={14} /> Historia Clínica (HC)
-                    </label>
-                    <input 
-                      type="text" 
-                      value={currentRecord.clinicalHistoryId || ''}
-                      onChange={(e) => setCurrentRecord(prev => ({ ...prev, clinicalHistoryId: e.target.value }))}
-                      placeholder="Ej. 123456"
-                      className="w-full rounded-lg border-gray-300 shadow-sm focus:border-medical-500 focus:ring-medical-500 px-4 py-2 border"
-                    />
+                  <ImageUpload 
+                    pages={pages}
+                    onPagesAdded={handlePagesAdded}
+                    onRemovePage={handleRemovePage}
+                    onReplacePage={handleReplacePage}
+                    onClear={handleClearImage}
+                    isProcessing={Boolean(imageJob) && isOnline && !isJobStalled(imageJob!)}
+                  />
+
+                  {imageJob && (
+                    <div className="mt-4 p-4 bg-slate-50 rounded-lg text-sm flex items-center justify-between gap-2">
+                      <CaptureJobStatus job={imageJob} isOnline={isOnline} />
+                      {isJobStalled(imageJob) && (
+                        <Button variant="ghost" onClick={() => handleRetryDraft(draftId)} className="text-xs px-2 py-1">
+                          Reintentar
+                        </Button>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="mt-4 flex flex-wrap items-center gap-2">
+                    <Button variant="secondary" onClick={() => setShowScanner(true)} icon={<ScanLine size={16} />} className="text-sm">
+                      Escanear código
+                    </Button>
+                    {scan && (
+                      <span className="flex items-center gap-2 text-xs bg-emerald-50 text-emerald-800 border border-emerald-200 rounded-full px-3 py-1">
+                        {FORMAT_LABELS[scan.codes[0].format]}
+                        {scan.fields.clinicalHistoryId ? `: HC ${scan.fields.clinicalHistoryId}` : ' leído'}
+                        <button onClick={() => setScan(null)} className="text-emerald-600 hover:text-emerald-900" title="Olvidar código">
+                          <X size={12} />
+                        </button>
+                      </span>
+                    )}
                   </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
-                      <Phone size={14} /> Teléfono(s)
-                    </label>
-                    <input 
-                      type="tel" 
-                      value={currentRecord.phoneNumber || ''}
-                      onChange={(e) => setCurrentRecord(prev => ({ ...prev, phoneNumber: e.target.value }))}
-                      placeholder="Ej: 555-0101 / 555-0102"
-                      className="w-full rounded-lg border-gray-300 shadow-sm focus:border-medical-500 focus:ring-medical-500 px-4 py-2 border"
-                    />
-                    <p className="text-xs text-gray-400 mt-1">Si hay múltiples, sepárelos con /</p>
+
+                  <div className="mt-6 space-y-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
+                        <User size={14} /> Nombre del Paciente
+                      </label>
+                      <input 
+                        type="text" 
+                        value={currentRecord.patientName || ''}
+                        onChange={(e) => editReviewedField('patientName', e.target.value)}
+                        placeholder="Detectado automáticamente..."
+                        className={`w-full rounded-lg shadow-sm px-4 py-2 border ${inputReviewClass('patientName')}`}
+                      />
+                      <FieldEvidence
+                        review={review.patientName}
+                        threshold={CONFIDENCE_THRESHOLDS.patientName}
+                        onConfirm={() => setReview(prev => confirmField(prev, 'patientName'))}
+                        conflict={conflictFor('patientName')}
+                      />
+                    </div>
+                  
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
+                          <Hash size={14} /> Historia Clínica (HC)
+                        </label>
+                        <input 
+                          type="text" 
+                          value={currentRecord.clinicalHistoryId || ''}
+                          onChange={(e) => editReviewedField('clinicalHistoryId', e.target.value)}
+                          placeholder="Ej. 123456"
+                          className={`w-full rounded-lg shadow-sm px-4 py-2 border ${inputReviewClass('clinicalHistoryId')}`}
+                        />
+                        <FieldEvidence
+                          review={review.clinicalHistoryId}
+                          threshold={CONFIDENCE_THRESHOLDS.clinicalHistoryId}
+                          onConfirm={() => setReview(prev => confirmField(prev, 'clinicalHistoryId'))}
+                        conflict={conflictFor('clinicalHistoryId')}
+                        />
+                        {fieldError('clinicalHistoryId')}
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
+                          <Phone size={14} /> Teléfono(s)
+                        </label>
+                        <input 
+                          type="tel" 
+                          value={currentRecord.phoneNumber || ''}
+                          onChange={(e) => editReviewedField('phoneNumber', e.target.value)}
+                          placeholder="Ej: 600 111 222 / 91 555 01 01"
+                          className={`w-full rounded-lg shadow-sm px-4 py-2 border ${inputReviewClass('phoneNumber')}`}
+                        />
+                        <FieldEvidence
+                          review={review.phoneNumber}
+                          threshold={CONFIDENCE_THRESHOLDS.phoneNumber}
+                          onConfirm={() => setReview(prev => confirmField(prev, 'phoneNumber'))}
+                        conflict={conflictFor('phoneNumber')}
+                        />
+                        {fieldError('phoneNumber') || (
+                          parsedPhones.length > 0 ? (
+                            <p className="text-xs text-gray-500 mt-1">
+                              {parsedPhones.map(p => `${p.type}: ${p.number}`).join(' · ')}
+                            </p>
+                          ) : (
+                            <p className="text-xs text-gray-400 mt-1">Si hay múltiples, sepárelos con /</p>
+                          )
+                        )}
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
+                        <Calendar size={14} /> Fecha de Registro
+                      </label>
+                      <input 
+                        type="date" 
+                        value={currentRecord.date || ''}
+                        onChange={(e) => setCurrentRecord(prev => ({ ...prev, date: e.target.value }))}
+                        max={localToday()}
+                        className={`w-full rounded-lg shadow-sm px-4 py-2 border bg-gray-50 ${
+                          fieldErrors.date ? 'border-red-400 focus:border-red-500 focus:ring-red-500' : 'border-gray-300 focus:border-medical-500 focus:ring-medical-500'
+                        }`}
+                      />
+                      {fieldError('date') || <p className="text-xs text-gray-400 mt-1">Por defecto: Fecha actual.</p>}
+                    </div>
                   </div>
                 </div>
+              </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
-                    <Calendar size={14} /> Fecha de Registro
-                  </label>
-                  <input 
-                    type="date" 
-                    value={currentRecord.date || ''}
-                    onChange={(e) => setCurrentRecord(prev => ({ ...prev, date: e.target.value }))}
-                    className="w-full rounded-lg border-gray-300 shadow-sm focus:border-medical-500 focus:ring-medical-500 px-4 py-2 border bg-gray-50"
+              {/* Right Column: Audio & Intervention Data */}
+              <div className="space-y-6">
+                 <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 h-full flex flex-col">
+                  <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center gap-2">
+                    <Stethoscope className="text-medical-500" size={20} />
+                    Detalles de Intervención
+                  </h2>
+
+                  <AudioRecorder
+                    onAudioReady={handleAudioReady}
+                    isProcessing={Boolean(audioJob) && isOnline && !isJobStalled(audioJob!)}
                   />
-                  <p className="text-xs text-gray-400 mt-1">Por defecto: Fecha actual.</p>
-                </div>
+                
+                  {audioJob && (
+                    <div className="mt-4 p-4 bg-slate-50 rounded-lg text-sm flex items-center justify-between gap-2">
+                      <CaptureJobStatus job={audioJob} isOnline={isOnline} />
+                      {isJobStalled(audioJob) && (
+                        <Button variant="ghost" onClick={() => handleRetryDraft(draftId)} className="text-xs px-2 py-1">
+                          Reintentar
+                        </Button>
+                      )}
+                    </div>
+                  )}
+
+                  {currentRecord.intervention && (
+                    <div className="mt-6 flex-grow flex flex-col gap-4 animate-in fade-in slide-in-from-bottom-4 duration-500">
+                      <div className="bg-slate-50 p-4 rounded-xl border border-gray-200">
+                        <label className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Descripción Transcrita</label>
+                        <textarea 
+                          value={currentRecord.intervention.description}
+                          onChange={(e) => {
+                             const newVal = e.target.value;
+                             setCurrentRecord(prev => ({
+                               ...prev,
+                               intervention: prev.intervention ? { ...prev.intervention, description: newVal } : null
+                             }))
+                          }}
+                          className="w-full mt-2 bg-transparent border-none p-0 text-gray-800 focus:ring-0 resize-none h-24"
+                        />
+                      </div>
+
+                      {currentRecord.dictation && (
+                        <div className="bg-slate-50 p-4 rounded-xl border border-gray-200">
+                          <DictationPlayer dictation={currentRecord.dictation} />
+                        </div>
+                      )}
+
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="bg-slate-50 p-3 rounded-lg border border-gray-200">
+                          <label className="text-xs font-semibold text-gray-500 uppercase">Región</label>
+                          <select
+                            value={currentRecord.intervention.region}
+                            onChange={(e) => {
+                              const region = e.target.value;
+                              setCurrentRecord(prev => ({
+                                ...prev,
+                                intervention: prev.intervention ? { ...prev.intervention, region } : null
+                              }));
+                            }}
+                            className="w-full mt-1 bg-transparent border-none p-0 font-medium text-medical-700 focus:ring-0 cursor-pointer"
+                          >
+                            {[...new Set([...settings.taxonomy.regions, currentRecord.intervention.region])].map(region => (
+                              <option key={region} value={region}>{region}</option>
+                            ))}
+                          </select>
+                        </div>
+                      
+                        {flags.map(flag => {
+                          const active = getFlag(currentRecord.intervention, flag.id);
+                          return (
+                            <button
+                              key={flag.id}
+                              onClick={() => toggleInterventionFlag(flag.id)}
+                              title={flag.description}
+                              className={`p-3 rounded-lg border text-left transition-all duration-200 ${
+                                active
+                                  ? `${FLAG_TOGGLE_CLASSES[flag.id] ?? CUSTOM_TOGGLE_CLASS} text-white shadow-md transform scale-[1.02]`
+                                  : 'bg-slate-50 border-slate-200 text-slate-400 hover:bg-slate-100'
+                              }`}
+                            >
+                              <label className="text-xs font-semibold uppercase cursor-pointer">{flag.label}</label>
+                              <div className="font-bold mt-1">{active ? 'SÍ' : 'NO'}</div>
+                            </button>
+                          );
+                        })}
+                      </div>
+
+                      <InterventionDetails intervention={currentRecord.intervention} onChange={updateIntervention} />
+                    </div>
+                  )}
+                 </div>
               </div>
+
             </div>
-          </div>
 
-          {/* Right Column: Audio & Intervention Data */}
-          <div className="space-y-6">
-             <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 h-full flex flex-col">
-              <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center gap-2">
-                <Stethoscope className="text-medical-500" size={20} />
-                Detalles de Intervención
-              </h2>
-
-              <AudioRecorder onAudioReady={handleAudioReady} isProcessing={loading.audio} />
-              
-              {loading.audio && (
-                <div className="mt-4 p-4 bg-blue-50 text-blue-700 rounded-lg flex items-center justify-center gap-2 animate-pulse">
-                  <Activity className="animate-spin" size={20} />
-                  Transcribiendo y clasificando con IA...
+            {/* Action Bar */}
+            <div className="sticky bottom-4 z-40 bg-white/90 backdrop-blur shadow-lg rounded-2xl p-4 border border-gray-200 flex justify-between items-center gap-4">
+                <Button variant="secondary" onClick={handleNewPatient} icon={<RefreshCw size={18} />}>
+                  Nuevo Paciente
+                </Button>
+                <div className="flex-grow">
+                  {unconfirmed.length > 0 && (
+                    <p className="text-sm text-amber-700 text-right">
+                      {unconfirmed.length === 1 ? '1 dato pendiente' : `${unconfirmed.length} datos pendientes`} de confirmar
+                    </p>
+                  )}
                 </div>
-              )}
-
-              {currentRecord.intervention && (
-                <div className="mt-6 flex-grow flex flex-col gap-4 animate-in fade-in slide-in-from-bottom-4 duration-500">
-                  <div className="bg-slate-50 p-4 rounded-xl border border-gray-200">
-                    <label className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Descripción Transcrita</label>
-                    <textarea 
-                      value={currentRecord.intervention.description}
-                      onChange={(e) => {
-                         const newVal = e.target.value;
-                         setCurrentRecord(prev => ({
-                           ...prev,
-                           intervention: prev.intervention ? { ...prev.intervention, description: newVal } : null
-                         }))
-                      }}
-                      className="w-full mt-2 bg-transparent border-none p-0 text-gray-800 focus:ring-0 resize-none h-24"
-                    />
-                  </div>
+                <Button 
+                  variant="success" 
+                  onClick={handleSaveRecord} 
+                  disabled={!currentRecord.patientName || !currentRecord.intervention || unconfirmed.length > 0 || isSuccess}
+                  className={`w-full md:w-auto px-8 transition-all duration-300 ${isSuccess ? 'scale-105' : ''}`}
+                  icon={isSuccess ? <Check size={20} className="text-white" /> : <Save size={18} />}
+                >
+                  {isSuccess ? '¡Guardado!' : editingRecord ? 'Actualizar Registro' : 'Guardar Registro'}
+                </Button>
+            </div>
 
-                  <div className="grid grid-cols-2 gap-4">
-                    <div className="bg-slate-50 p-3 rounded-lg border border-gray-200">
-                      <label className="text-xs font-semibold text-gray-500 uppercase">Región</label>
-                      <div className="font-medium text-medical-700 mt-1">{currentRecord.intervention.region}</div>
-                    </div>
-                    
-                    {/* Artroscopia Toggle */}
-                    <button
-                      onClick={() => toggleBooleanIntervention('isArthroscopic')}
-                      className={`p-3 rounded-lg border text-left transition-all duration-200 ${
-                        currentRecord.intervention.isArthroscopic 
-                          ? 'bg-indigo-600 border-indigo-700 text-white shadow-md transform scale-[1.02]' 
-                          : 'bg-slate-50 border-slate-200 text-slate-400 hover:bg-slate-100'
-                      }`}
-                    >
-                      <label className="text-xs font-semibold uppercase cursor-pointer">Artroscopia</label>
-                      <div className="font-bold mt-1">{currentRecord.intervention.isArthroscopic ? 'SÍ' : 'NO'}</div>
-                    </button>
-
-                    {/* LCA Toggle */}
-                    <button
-                      onClick={() => toggleBooleanIntervention('isLCA')}
-                      className={`p-3 rounded-lg border text-left transition-all duration-200 ${
-                        currentRecord.intervention.isLCA 
-                          ? 'bg-orange-500 border-orange-600 text-white shadow-md transform scale-[1.02]' 
-                          : 'bg-slate-50 border-slate-200 text-slate-400 hover:bg-slate-100'
-                      }`}
-                    >
-                      <label className="text-xs font-semibold uppercase cursor-pointer">LCA / ACL</label>
-                      <div className="font-bold mt-1">{currentRecord.intervention.isLCA ? 'SÍ' : 'NO'}</div>
-                    </button>
-
-                    {/* Knee Toggle */}
-                    <button
-                      onClick={() => toggleBooleanIntervention('isKneeRelated')}
-                      className={`p-3 rounded-lg border text-left transition-all duration-200 ${
-                        currentRecord.intervention.isKneeRelated 
-                          ? 'bg-blue-600 border-blue-700 text-white shadow-md transform scale-[1.02]' 
-                          : 'bg-slate-50 border-slate-200 text-slate-400 hover:bg-slate-100'
-                      }`}
-                    >
-                      <label className="text-xs font-semibold uppercase cursor-pointer">Cirugía Rodilla</label>
-                      <div className="font-bold mt-1">{currentRecord.intervention.isKneeRelated ? 'SÍ' : 'NO'}</div>
-                    </button>
-                  </div>
+            {/* Database Table */}
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden">
+              <div className="px-6 py-5 border-b border-gray-200 flex justify-between items-center bg-gray-50">
+                <h3 className="font-bold text-gray-800 flex items-center gap-2">
+                  <Activity size={18} className="text-medical-600" />
+                  {showTrash ? 'Papelera' : 'Base de Datos Local'}
+                  <span className="bg-gray-200 text-gray-600 text-xs py-0.5 px-2 rounded-full">
+                    {showTrash ? trashedRecords.length : savedRecords.length}
+                  </span>
+                </h3>
+                <div className="flex gap-2">
+                  <Button
+                    variant="ghost"
+                    onClick={() => setShowTrash(prev => !prev)}
+                    icon={showTrash ? <Activity size={16} /> : <ArchiveRestore size={16} />}
+                  >
+                    {showTrash ? 'Registros' : `Papelera (${trashedRecords.length})`}
+                  </Button>
+                  {!showTrash && (
+                    <>
+                      <Button variant="ghost" onClick={() => setShowImport(true)} icon={<Upload size={16} />}>
+                        Importar
+                      </Button>
+                      <Button variant="ghost" onClick={() => setShowExport(true)} disabled={savedRecords.length === 0} icon={<Download size={16} />}>
+                        Exportar
+                      </Button>
+                      <Button variant="ghost" onClick={() => setReport({})} disabled={savedRecords.length === 0} icon={<FileDown size={16} />}>
+                        Libro PDF
+                      </Button>
+                      <Button variant="ghost" onClick={() => setShowDuplicates(true)} disabled={savedRecords.length < 2} icon={<Copy size={16} />}>
+                        Duplicados
+                      </Button>
+                    </>
+                  )}
                 </div>
+              </div>
+
+              {showTrash ? (
+                <TrashBin
+                  records={trashedRecords}
+                  retentionDays={settings.trashRetentionDays}
+                  onRetentionChange={handleRetentionChange}
+                  onRestore={handleRestoreRecord}
+                  onPurge={(id) => handlePurgeRecords([id])}
+                  onEmpty={() => handlePurgeRecords(trashedRecords.map(r => r.id))}
+                />
+              ) : (
+                <RecordsTable
+                  records={savedRecords}
+                  taxonomy={settings.taxonomy}
+                  editingId={editingRecord?.id}
+                  onEdit={handleEditRecord}
+                  onDelete={handleDeleteRecord}
+                  onOpenPatient={handleOpenPatient}
+                  onPrint={(record) => setReport({ record })}
+                />
               )}
-             </div>
-          </div>
+            </div>
+          </>
+        )}
 
-        </div>
+      </main>
 
-        {/* Action Bar */}
-        <div className="sticky bottom-4 z-40 bg-white/90 backdrop-blur shadow-lg rounded-2xl p-4 border border-gray-200 flex justify-between items-center gap-4">
-            <Button variant="secondary" onClick={handleNewPatient} icon={<RefreshCw size={18} />}>
-              Nuevo Paciente
-            </Button>
-            <div className="flex-grow"></div>
-            <Button 
-              variant="success" 
-              onClick={handleSaveRecord} 
-              disabled={!currentRecord.patientName || !currentRecord.intervention || isSuccess}
-              className={`w-full md:w-auto px-8 transition-all duration-300 ${isSuccess ? 'scale-105' : ''}`}
-              icon={isSuccess ? <Check size={20} className="text-white" /> : <Save size={18} />}
+      {showExport && (
+        <ExportDialog
+          taxonomy={settings.taxonomy}
+          initialColumns={settings.csvColumns}
+          initialDelimiter={settings.csvDelimiter}
+          onExport={handleExportCSV}
+          onOpenBackup={handleOpenBackup}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {report && (
+        <ReportDialog
+          records={savedRecords}
+          record={report.record}
+          initialHeader={settings.reportHeader}
+          onGenerate={handleGenerateReport}
+          onClose={() => setReport(null)}
+        />
+      )}
+
+      {showScanner && (
+        <BarcodeScanner pages={pages} onDetected={handleScanDetected} onClose={() => setShowScanner(false)} />
+      )}
+
+      {showSecurity && (
+        <SecurityDialog
+          autoLockMinutes={settings.autoLockMinutes}
+          onAutoLockChange={(minutes) => updateSettings({ autoLockMinutes: minutes })}
+          onChangePassphrase={handleChangePassphrase}
+          onClose={() => setShowSecurity(false)}
+        />
+      )}
+
+      {showSettings && (
+        <SettingsDialog
+          settings={settings}
+          onSave={handleSaveSettings}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {showBackup && (
+        <BackupDialog
+          records={[...savedRecords, ...trashedRecords]}
+          settings={settings}
+          onCreate={handleCreateBackup}
+          onRestore={handleRestoreBackup}
+          onClose={() => setShowBackup(false)}
+        />
+      )}
+
+      {showImport && (
+        <ImportDialog
+          existing={savedRecords}
+          taxonomy={settings.taxonomy}
+          rules={settings}
+          onImport={handleImport}
+          onClose={() => setShowImport(false)}
+        />
+      )}
+
+      {activateUpdate && !lastTrashed && (
+        <UpdateToast onUpdate={handleApplyUpdate} onDismiss={() => setActivateUpdate(null)} />
+      )}
+
+      {lastTrashed && (
+        <UndoToast
+          message={`Registro de ${lastTrashed.patientName} movido a la papelera.`}
+          onUndo={() => handleRestoreRecord(lastTrashed.id)}
+          onDismiss={dismissUndo}
+        />
+      )}
+
+      {duplicateCheck && (
+        <DuplicateCompare
+          key={`${duplicateCheck.candidate.id}|${duplicateCheck.matches[duplicateCheck.index].record.id}`}
+          kept={duplicateCheck.matches[duplicateCheck.index].record}
+          other={duplicateCheck.candidate}
+          keptLabel="Registro guardado"
+          otherLabel={editingRecord ? 'Registro editado' : 'Nuevo registro'}
+          reasons={duplicateCheck.matches[duplicateCheck.index].reasons}
+          keepBothLabel="Guardar ambos"
+          mergeNote={editingRecord
+            ? "Al fusionar se actualiza el registro guardado con los valores marcados y el registro editado pasa a la papelera."
+            : "Al fusionar se actualiza el registro guardado con los valores marcados y no se crea uno nuevo."}
+          onMerge={handleMergeOnSave}
+          onKeepBoth={handleKeepBothDuplicates}
+          onCancel={() => setDuplicateCheck(null)}
+        >
+          {duplicateCheck.matches.length > 1 && (
+            <select
+              value={duplicateCheck.index}
+              onChange={(e) => setDuplicateCheck(prev => prev && { ...prev, index: Number(e.target.value) })}
+              className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
             >
-              {isSuccess ? '¡Guardado!' : 'Guardar Registro'}
-            </Button>
-        </div>
+              {duplicateCheck.matches.map((match, i) => (
+                <option key={match.record.id} value={i}>
+                  Coincidencia {i + 1} de {duplicateCheck.matches.length}: {match.record.patientName} · HC {match.record.clinicalHistoryId}
+                </option>
+              ))}
+            </select>
+          )}
+        </DuplicateCompare>
+      )}
 
-        {/* Database Table */}
-        <div className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden">
-          <div className="px-6 py-5 border-b border-gray-200 flex justify-between items-center bg-gray-50">
-            <h3 className="font-bold text-gray-800 flex items-center gap-2">
-              <Activity size={18} className="text-medical-600" />
-              Base de Datos Local
-              <span className="bg-gray-200 text-gray-600 text-xs py-0.5 px-2 rounded-full">{savedRecords.length}</span>
-            </h3>
-            <Button variant="ghost" onClick={handleExportCSV} disabled={savedRecords.length === 0} icon={<Download size={16} />}>
-              Exportar CSV
-            </Button>
-          </div>
-          
-          <div className="overflow-x-auto">
-            <table className="w-full text-sm text-left text-gray-500">
-              <thead className="text-xs text-gray-700 uppercase bg-gray-50">
-                <tr>
-                  <th className="px-6 py-3">Fecha</th>
-                  <th className="px-6 py-3">Paciente</th>
-                  <th className="px-6 py-3">HC</th>
-                  <th className="px-6 py-3">Teléfono</th>
-                  <th className="px-6 py-3">Región</th>
-                  <th className="px-6 py-3">Detalles</th>
-                  <th className="px-6 py-3">Descripción</th>
-                  <th className="px-6 py-3 text-right">Acciones</th>
-                </tr>
-              </thead>
-              <tbody>
-                {savedRecords.length === 0 ? (
-                  <tr>
-                    <td colSpan={8} className="px-6 py-8 text-center text-gray-400">
-                      No hay registros guardados aún.
-                    </td>
-                  </tr>
-                ) : (
-                  savedRecords.map((record) => (
-                    <tr key={record.id} className="bg-white border-b hover:bg-gray-50">
-                      <td className="px-6 py-4 font-medium text-gray-900 whitespace-nowrap">{record.date}</td>
-                      <td className="px-6 py-4 text-gray-900 font-semibold">{record.patientName}</td>
-                      <td className="px-6 py-4">{record.clinicalHistoryId}</td>
-                      <td className="px-6 py-4 font-mono text-xs max-w-[150px] truncate" title={record.phoneNumber}>
-                        {record.phoneNumber || '-'}
-                      </td>
-                      <td className="px-6 py-4">
-                        <span className={`px-2 py-1 rounded-full text-xs font-semibold ${
-                          record.intervention?.region === BodyRegion.KNEE ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-800'
-                        }`}>
-                          {record.intervention?.region}
-                        </span>
-                      </td>
-                      <td className="px-6 py-4">
-                        <div className="flex gap-2">
-                           {record.intervention?.isArthroscopic && (
-                             <span className="text-xs bg-indigo-100 text-indigo-800 px-2 py-0.5 rounded">Art</span>
-                           )}
-                           {record.intervention?.isLCA && (
-                             <span className="text-xs bg-orange-100 text-orange-800 px-2 py-0.5 rounded">LCA</span>
-                           )}
-                        </div>
-                      </td>
-                      <td className="px-6 py-4 max-w-xs truncate" title={record.intervention?.description}>
-                        {record.intervention?.description}
-                      </td>
-                      <td className="px-6 py-4 text-right">
-                        <Button 
-                          variant="ghost" 
-                          onClick={() => handleDeleteRecord(record.id)}
-                          className="text-red-500 hover:text-red-700 hover:bg-red-50 p-2 h-auto"
-                          title="Eliminar registro"
-                        >
-                          <Trash2 size={18} />
-                        </Button>
-                      </td>
-                    </tr>
-                  ))
-                )}
-              </tbody>
-            </table>
-          </div>
-        </div>
+      {showDuplicates && (
+        <DuplicateFinder
+          records={savedRecords}
+          onMerge={handleMergeDuplicates}
+          onClose={() => setShowDuplicates(false)}
+        />
+      )}
 
-      </main>
+      {recoveryDraft && (
+        <DraftRecoveryPrompt
+          draft={recoveryDraft}
+          onRecover={() => handleRecoverDraft(recoveryDraft)}
+          onDiscard={() => {
+            setRecoveryId(null);
+            handleDiscardDraft(recoveryDraft.id);
+          }}
+          onDismiss={() => setRecoveryId(null)}
+        />
+      )}
     </div>
   );
 }
@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Mic, Square, Loader2, AlertCircle } from 'lucide-react';
+import { Mic, Square, Loader2, AlertCircle, Pause, Play, RotateCcw, Send } from 'lucide-react';
 import { Button } from './Button';
 
 interface AudioRecorderProps {
@@ -7,73 +7,275 @@ interface AudioRecorderProps {
   isProcessing: boolean;
 }
 
+type RecorderPhase = 'idle' | 'recording' | 'paused' | 'review';
+
+interface Recording {
+  blob: Blob;
+  url: string;
+  mimeType: string;
+}
+
+// Chunks are flushed every second so a dictation cut short by a lost microphone is not lost with it
+const TIMESLICE_MS = 1000;
+const WAVEFORM_COLOR = '#ef4444';
+const IDLE_COLOR = '#cbd5e1';
+
+const micErrorMessage = (err: unknown): string => {
+  const name = err instanceof DOMException ? err.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') return "No se pudo acceder al micrófono. Verifica los permisos.";
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return "No se encontró ningún micrófono en este dispositivo.";
+  if (name === 'NotReadableError') return "El micrófono está siendo usado por otra aplicación.";
+  return "No se pudo acceder al micrófono. Verifica los permisos.";
+};
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Dictation recorder with a live waveform, pause/resume and a playback step:
+ * nothing is sent for processing until the surgeon has listened and chosen to submit.
+ */
 export const AudioRecorder: React.FC<AudioRecorderProps> = ({ onAudioReady, isProcessing }) => {
-  const [isRecording, setIsRecording] = useState(false);
+  const [phase, setPhase] = useState<RecorderPhase>('idle');
   const [recordingTime, setRecordingTime] = useState(0);
+  const [level, setLevel] = useState(0);
+  const [recording, setRecording] = useState<Recording | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const analyserRef = useRef<AnalyserNode | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
   const chunksRef = useRef<Blob[]>([]);
   const timerRef = useRef<number | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const pausedRef = useRef(false);
+  const levelRef = useRef(0);
+
+  const stopTimer = () => {
+    if (timerRef.current) window.clearInterval(timerRef.current);
+    timerRef.current = null;
+  };
+
+  const startTimer = () => {
+    stopTimer();
+    timerRef.current = window.setInterval(() => setRecordingTime(prev => prev + 1), 1000);
+  };
+
+  // Releases the microphone and the audio graph; the recorded chunks are kept
+  const releaseInput = () => {
+    stopTimer();
+    if (frameRef.current) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    audioContextRef.current?.close().catch(() => {});
+    audioContextRef.current = null;
+    analyserRef.current = null;
+    levelRef.current = 0;
+    setLevel(0);
+  };
 
   useEffect(() => {
     return () => {
-      if (timerRef.current) window.clearInterval(timerRef.current);
+      const recorder = mediaRecorderRef.current;
+      if (recorder && recorder.state !== 'inactive') {
+        recorder.onstop = null;
+        recorder.stop();
+      }
+      releaseInput();
     };
   }, []);
 
+  useEffect(() => () => {
+    if (recording) URL.revokeObjectURL(recording.url);
+  }, [recording]);
+
+  const drawWaveform = () => {
+    const analyser = analyserRef.current;
+    if (!analyser) return;
+    frameRef.current = requestAnimationFrame(drawWaveform);
+    // The canvas mounts with the recording phase, a frame or two after capture starts
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const canvas = ctx.canvas;
+
+    const samples = new Uint8Array(analyser.fftSize);
+    analyser.getByteTimeDomainData(samples);
+
+    let sumSquares = 0;
+    for (const sample of samples) {
+      const centered = (sample - 128) / 128;
+      sumSquares += centered * centered;
+    }
+    // RMS of speech rarely exceeds ~0.3; scale so normal dictation fills most of the meter
+    const nextLevel = pausedRef.current ? 0 : Math.min(1, Math.sqrt(sumSquares / samples.length) * 3);
+    // Skip re-renders for changes the meter would not show
+    if (Math.abs(nextLevel - levelRef.current) > 0.02) {
+      levelRef.current = nextLevel;
+      setLevel(nextLevel);
+    }
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = pausedRef.current ? IDLE_COLOR : WAVEFORM_COLOR;
+    ctx.beginPath();
+    const step = canvas.width / samples.length;
+    samples.forEach((sample, i) => {
+      const y = pausedRef.current ? canvas.height / 2 : (sample / 255) * canvas.height;
+      if (i === 0) ctx.moveTo(0, y);
+      else ctx.lineTo(i * step, y);
+    });
+    ctx.stroke();
+  };
+
+  const finishRecording = (mimeType: string, interrupted: boolean) => {
+    releaseInput();
+    mediaRecorderRef.current = null;
+    if (chunksRef.current.length === 0) {
+      setPhase('idle');
+      if (interrupted) setError("Se perdió el acceso al micrófono antes de grabar audio. Inténtelo de nuevo.");
+      return;
+    }
+    const blob = new Blob(chunksRef.current, { type: mimeType });
+    setRecording({ blob, url: URL.createObjectURL(blob), mimeType });
+    setPhase('review');
+  };
+
   const startRecording = async () => {
+    let stream: MediaStream;
     try {
       setError(null);
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      // Determine supported mime type
-      const mimeType = MediaRecorder.isTypeSupported('audio/webm') ? 'audio/webm' : 'audio/mp4';
-      
-      const mediaRecorder = new MediaRecorder(stream, { mimeType });
-      mediaRecorderRef.current = mediaRecorder;
-      chunksRef.current = [];
-
-      mediaRecorder.ondataavailable = (e) => {
-        if (e.data.size > 0) {
-          chunksRef.current.push(e.data);
-        }
-      };
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      console.error(err);
+      setError(micErrorMessage(err));
+      return;
+    }
+
+    streamRef.current = stream;
+    // Creating or starting the recorder can throw (e.g. Safari with an unsupported type);
+    // the microphone and the audio graph must not stay open behind the error
+    const cannotRecord = (err: unknown) => {
+      console.error("MediaRecorder unavailable", err);
+      releaseInput();
+      mediaRecorderRef.current = null;
+      setError("Este navegador no permite grabar audio. Puede escribir la descripción de la intervención.");
+    };
+
+    // Preferred container where supported; otherwise the browser picks its own
+    const preferred = ['audio/webm', 'audio/mp4'].find(type => MediaRecorder.isTypeSupported(type));
+    let mediaRecorder: MediaRecorder;
+    try {
+      mediaRecorder = preferred ? new MediaRecorder(stream, { mimeType: preferred }) : new MediaRecorder(stream);
+    } catch (err) {
+      cannotRecord(err);
+      return;
+    }
+    // Codec parameters are dropped; the AI providers only accept the bare container type
+    const mimeType = (mediaRecorder.mimeType || preferred || 'audio/webm').split(';')[0];
+    mediaRecorderRef.current = mediaRecorder;
+    chunksRef.current = [];
+    pausedRef.current = false;
+    let interrupted = false;
+
+    mediaRecorder.ondataavailable = (e) => {
+      if (e.data.size > 0) {
+        chunksRef.current.push(e.data);
+      }
+    };
+    mediaRecorder.onstop = () => finishRecording(mimeType, interrupted);
+    mediaRecorder.onerror = (e) => {
+      console.error("MediaRecorder error", e);
+      interrupted = true;
+      setError("Se interrumpió la grabación. Se conservó lo grabado hasta ese momento.");
+      if (mediaRecorder.state !== 'inactive') mediaRecorder.stop();
+    };
 
-      mediaRecorder.onstop = () => {
-        const blob = new Blob(chunksRef.current, { type: mimeType });
-        const reader = new FileReader();
-        reader.onloadend = () => {
-          const base64String = reader.result as string;
-          const base64Data = base64String.split(',')[1];
-          onAudioReady(base64Data, mimeType);
-        };
-        reader.readAsDataURL(blob);
-        
-        // Stop all tracks to release microphone
-        stream.getTracks().forEach(track => track.stop());
+    // Permission revoked, device unplugged or taken by another app while dictating
+    stream.getAudioTracks().forEach(track => {
+      track.onended = () => {
+        if (mediaRecorder.state === 'inactive') return;
+        interrupted = true;
+        setError("Se perdió el acceso al micrófono. Se conservó lo grabado hasta ese momento.");
+        mediaRecorder.stop();
       };
+    });
 
-      mediaRecorder.start();
-      setIsRecording(true);
-      setRecordingTime(0);
-      
-      timerRef.current = window.setInterval(() => {
-        setRecordingTime(prev => prev + 1);
-      }, 1000);
+    try {
+      const audioContext = new AudioContext();
+      const analyser = audioContext.createAnalyser();
+      analyser.fftSize = 1024;
+      audioContext.createMediaStreamSource(stream).connect(analyser);
+      audioContextRef.current = audioContext;
+      analyserRef.current = analyser;
+    } catch (err) {
+      // The waveform is a nicety; recording works without it
+      console.error("Audio analyser unavailable", err);
+    }
 
+    try {
+      mediaRecorder.start(TIMESLICE_MS);
     } catch (err) {
-      console.error(err);
-      setError("No se pudo acceder al micrófono. Verifica los permisos.");
+      cannotRecord(err);
+      return;
     }
+    setRecording(null);
+    setRecordingTime(0);
+    setPhase('recording');
+    startTimer();
+    frameRef.current = requestAnimationFrame(drawWaveform);
+  };
+
+  const pauseRecording = () => {
+    const recorder = mediaRecorderRef.current;
+    if (recorder?.state !== 'recording') return;
+    recorder.pause();
+    pausedRef.current = true;
+    stopTimer();
+    setPhase('paused');
+  };
+
+  const resumeRecording = () => {
+    const recorder = mediaRecorderRef.current;
+    if (recorder?.state !== 'paused') return;
+    recorder.resume();
+    pausedRef.current = false;
+    startTimer();
+    setPhase('recording');
   };
 
   const stopRecording = () => {
-    if (mediaRecorderRef.current && isRecording) {
-      mediaRecorderRef.current.stop();
-      setIsRecording(false);
-      if (timerRef.current) {
-        window.clearInterval(timerRef.current);
-        timerRef.current = null;
-      }
+    const recorder = mediaRecorderRef.current;
+    if (recorder && recorder.state !== 'inactive') recorder.stop();
+  };
+
+  const discardRecording = () => {
+    setRecording(null);
+    setRecordingTime(0);
+    setError(null);
+    setPhase('idle');
+  };
+
+  const submitRecording = async () => {
+    if (!recording) return;
+    setIsSubmitting(true);
+    try {
+      onAudioReady(await blobToBase64(recording.blob), recording.mimeType);
+      setRecording(null);
+      setRecordingTime(0);
+      setPhase('idle');
+    } catch (err) {
+      console.error(err);
+      setError("No se pudo leer la grabación. Grábela de nuevo.");
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
@@ -83,10 +285,12 @@ export const AudioRecorder: React.FC<AudioRecorderProps> = ({ onAudioReady, isPr
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
+  const isCapturing = phase === 'recording' || phase === 'paused';
+
   return (
     <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm">
       <h3 className="text-lg font-semibold text-gray-900 mb-4">Dictado de Intervención</h3>
-      
+
       {error && (
         <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-lg flex items-center gap-2 text-sm">
           <AlertCircle size={16} />
@@ -95,47 +299,81 @@ export const AudioRecorder: React.FC<AudioRecorderProps> = ({ onAudioReady, isPr
       )}
 
       <div className="flex flex-col items-center gap-4">
-        <div className={`w-24 h-24 rounded-full flex items-center justify-center transition-all duration-300 ${isRecording ? 'bg-red-50 ring-4 ring-red-100' : 'bg-gray-50'}`}>
-          {isRecording ? (
-             <div className="flex gap-1 items-end h-8">
-               <span className="w-1.5 h-4 bg-red-500 rounded-full animate-[pulse_1s_ease-in-out_infinite]"></span>
-               <span className="w-1.5 h-8 bg-red-500 rounded-full animate-[pulse_1s_ease-in-out_0.2s_infinite]"></span>
-               <span className="w-1.5 h-5 bg-red-500 rounded-full animate-[pulse_1s_ease-in-out_0.4s_infinite]"></span>
-             </div>
-          ) : (
+        {isCapturing ? (
+          <div className="w-full space-y-2">
+            <canvas
+              ref={canvasRef}
+              width={480}
+              height={80}
+              className={`w-full h-20 rounded-lg ${phase === 'recording' ? 'bg-red-50' : 'bg-gray-50'}`}
+            />
+            <div className="h-1.5 w-full bg-gray-100 rounded-full overflow-hidden" title="Nivel de entrada">
+              <div className="h-full bg-red-500 transition-[width] duration-75" style={{ width: `${Math.round(level * 100)}%` }} />
+            </div>
+          </div>
+        ) : phase === 'review' && recording ? (
+          <audio src={recording.url} controls className="w-full" />
+        ) : (
+          <div className="w-24 h-24 rounded-full flex items-center justify-center bg-gray-50">
             <Mic size={32} className="text-gray-400" />
-          )}
-        </div>
+          </div>
+        )}
 
-        <div className="text-2xl font-mono font-medium text-gray-700">
+        <div className="text-2xl font-mono font-medium text-gray-700 flex items-center gap-2">
           {formatTime(recordingTime)}
+          {phase === 'paused' && <span className="text-xs font-sans font-semibold text-amber-600 uppercase">En pausa</span>}
         </div>
 
-        <div className="flex gap-3">
-          {!isRecording ? (
-            <Button 
-              onClick={startRecording} 
+        <div className="flex flex-wrap justify-center gap-3">
+          {phase === 'idle' && (
+            <Button
+              onClick={startRecording}
               disabled={isProcessing}
               variant={isProcessing ? "secondary" : "primary"}
               icon={isProcessing ? <Loader2 className="animate-spin" /> : <Mic />}
             >
               {isProcessing ? 'Procesando...' : 'Iniciar Dictado'}
             </Button>
-          ) : (
-            <Button 
-              onClick={stopRecording} 
-              variant="danger"
-              icon={<Square />}
-            >
-              Detener y Procesar
-            </Button>
+          )}
+          {isCapturing && (
+            <>
+              {phase === 'recording' ? (
+                <Button onClick={pauseRecording} variant="secondary" icon={<Pause />}>
+                  Pausar
+                </Button>
+              ) : (
+                <Button onClick={resumeRecording} variant="secondary" icon={<Play />}>
+                  Reanudar
+                </Button>
+              )}
+              <Button onClick={stopRecording} variant="danger" icon={<Square />}>
+                Detener
+              </Button>
+            </>
+          )}
+          {phase === 'review' && (
+            <>
+              <Button onClick={discardRecording} variant="secondary" icon={<RotateCcw />} disabled={isSubmitting}>
+                Grabar de nuevo
+              </Button>
+              <Button
+                onClick={submitRecording}
+                variant="primary"
+                disabled={isSubmitting || isProcessing}
+                icon={isSubmitting ? <Loader2 className="animate-spin" /> : <Send />}
+              >
+                Procesar dictado
+              </Button>
+            </>
           )}
         </div>
-        
+
         <p className="text-xs text-gray-500 text-center max-w-xs">
-          Describe la cirugía detalladamente. La IA clasificará automáticamente la región (ej. Rodilla, Hombro) y detectará si es Artroscopia o LCA.
+          {phase === 'review'
+            ? 'Escuche la grabación antes de enviarla. Si falta algo, grábela de nuevo.'
+            : 'Describe la cirugía detalladamente. La IA clasificará automáticamente la región (ej. Rodilla, Hombro) y detectará si es Artroscopia o LCA.'}
         </p>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,263 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AlertCircle, CheckCircle2, DatabaseBackup, Download, Loader2, Upload, X } from 'lucide-react';
+import { Button } from './Button';
+import { MIN_PASSPHRASE_LENGTH } from './LockScreen';
+import { PatientRecord } from '../types';
+import { AppSettings } from '../services/settingsService';
+import { BackupFile, BackupSettings } from '../services/backupFormat';
+import { ENCRYPTED_BACKUP_EXTENSION, EncryptedBackupFile, decryptBackup, parseEncryptedBackup } from '../services/encryptedBackup';
+import { planRestore } from '../services/backupRestore';
+import { ImportMode } from '../services/recordImport';
+
+interface BackupDialogProps {
+  /** Live and trashed records: a backup covers the whole database. */
+  records: PatientRecord[];
+  settings: AppSettings;
+  onCreate: (password: string) => Promise<void>;
+  onRestore: (records: PatientRecord[], mode: ImportMode, settings: BackupSettings | null) => Promise<void>;
+  onClose: () => void;
+}
+
+const SETTING_LABELS: Partial<Record<keyof BackupSettings, string>> = {
+  trashRetentionDays: 'Retención de la papelera',
+  dictationRetentionDays: 'Conservación de los dictados',
+  csvColumns: 'Columnas de exportación CSV',
+  csvDelimiter: 'Separador CSV',
+  autoLockMinutes: 'Bloqueo automático',
+  taxonomy: 'Regiones y características',
+  hcPatterns: 'Formatos de historia clínica',
+  defaultCountryCode: 'Prefijo telefónico por defecto',
+  reportHeader: 'Cabecera de los informes PDF',
+};
+
+const inputClass = "w-full rounded-lg border-gray-300 shadow-sm focus:border-medical-500 focus:ring-medical-500 px-4 py-2 border";
+
+export const BackupDialog: React.FC<BackupDialogProps> = ({ records, settings, onCreate, onRestore, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [tab, setTab] = useState<'create' | 'restore'>('create');
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [file, setFile] = useState<EncryptedBackupFile | null>(null);
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [restoreSettings, setRestoreSettings] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const plan = useMemo(
+    () => (backup ? planRestore(records, backup.records, mode) : null),
+    [backup, records, mode]
+  );
+
+  const changedSettings = useMemo(() => {
+    if (!backup?.settings) return [];
+    return (Object.keys(SETTING_LABELS) as (keyof BackupSettings)[])
+      .filter(key => key in backup.settings! && JSON.stringify(backup.settings![key]) !== JSON.stringify(settings[key]))
+      .map(key => SETTING_LABELS[key]!);
+  }, [backup, settings]);
+
+  const switchTab = (next: 'create' | 'restore') => {
+    setTab(next);
+    setPassword('');
+    setConfirmation('');
+    setError(null);
+    setNotice(null);
+  };
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsWorking(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error && e.message ? e.message : failure);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`La contraseña debe tener al menos ${MIN_PASSPHRASE_LENGTH} caracteres.`);
+      return;
+    }
+    if (password !== confirmation) {
+      setError("Las contraseñas no coinciden.");
+      return;
+    }
+    run(async () => {
+      await onCreate(password);
+      setPassword('');
+      setConfirmation('');
+      setNotice(`Copia de seguridad creada con ${records.length} registros.`);
+    }, "No se pudo crear la copia de seguridad.");
+  };
+
+  const handleFile = async (selected: File) => {
+    setError(null);
+    setBackup(null);
+    try {
+      setFile(parseEncryptedBackup(await selected.text()));
+    } catch (e) {
+      setFile(null);
+      setError(e instanceof Error ? e.message : "No se pudo leer el archivo.");
+    }
+  };
+
+  const handleDecrypt = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      setBackup(await decryptBackup(file!, password));
+      setPassword('');
+    }, "No se pudo descifrar la copia de seguridad.");
+  };
+
+  const handleRestore = () => {
+    if (!plan || !backup) return;
+    if (mode === 'replace' && plan.removed.length > 0 && !window.confirm(
+      `${plan.removed.length} registros que no están en la copia se moverán a la papelera. ¿Continuar?`
+    )) return;
+    run(async () => {
+      await onRestore(plan.toWrite, mode, restoreSettings && backup.settings ? backup.settings : null);
+      setNotice("Copia de seguridad restaurada.");
+      setBackup(null);
+      setFile(null);
+    }, "No se pudo restaurar la copia. No se ha modificado ningún registro.");
+  };
+
+  const tabClass = (id: 'create' | 'restore') =>
+    `flex-1 py-2 text-sm font-medium border-b-2 ${tab === id ? 'border-medical-600 text-medical-700' : 'border-transparent text-gray-500 hover:text-gray-800'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+            <DatabaseBackup className="text-medical-500" size={20} />
+            Copia de seguridad
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700" title="Cerrar">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex">
+          <button className={tabClass('create')} onClick={() => switchTab('create')}>Crear copia</button>
+          <button className={tabClass('restore')} onClick={() => switchTab('restore')}>Restaurar</button>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 text-red-700 rounded-lg flex items-center gap-2 text-sm">
+            <AlertCircle size={16} />
+            {error}
+          </div>
+        )}
+        {notice && (
+          <div className="p-3 bg-green-50 text-green-700 rounded-lg flex items-center gap-2 text-sm">
+            <CheckCircle2 size={16} />
+            {notice}
+          </div>
+        )}
+
+        {tab === 'create' && (
+          <form onSubmit={handleCreate} className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Se guardarán los {records.length} registros (incluida la papelera) y la configuración en un único archivo cifrado.
+              La contraseña puede ser distinta de la clave de desbloqueo.
+            </p>
+            <input type="password" autoComplete="new-password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="Contraseña de la copia" className={inputClass} />
+            <input type="password" autoComplete="new-password" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} placeholder="Repita la contraseña" className={inputClass} />
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={isWorking || !password}
+              icon={isWorking ? <Loader2 className="animate-spin" size={18} /> : <Download size={18} />}
+            >
+              Descargar copia cifrada
+            </Button>
+          </form>
+        )}
+
+        {tab === 'restore' && (
+          <div className="space-y-4">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={`${ENCRYPTED_BACKUP_EXTENSION},application/octet-stream,application/json`}
+              className="hidden"
+              onChange={(e) => {
+                if (e.target.files && e.target.files[0]) handleFile(e.target.files[0]);
+                e.target.value = '';
+              }}
+            />
+            <Button variant="secondary" className="w-full" onClick={() => fileInputRef.current?.click()} icon={<Upload size={18} />}>
+              {file ? `Copia del ${new Date(file.createdAt).toLocaleString('es')}` : 'Seleccionar archivo de copia'}
+            </Button>
+
+            {file && !backup && (
+              <form onSubmit={handleDecrypt} className="space-y-3">
+                <input type="password" autoComplete="off" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="Contraseña de la copia" className={inputClass} />
+                <Button type="submit" className="w-full" disabled={isWorking || !password} icon={isWorking ? <Loader2 className="animate-spin" size={18} /> : undefined}>
+                  Descifrar y revisar
+                </Button>
+              </form>
+            )}
+
+            {backup && plan && (
+              <div className="space-y-3 text-sm text-gray-700">
+                <div className="flex flex-col gap-2">
+                  <label className="flex items-center gap-2">
+                    <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                    Combinar (se conserva la versión más reciente de cada registro)
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                    Reemplazar con el contenido de la copia
+                  </label>
+                </div>
+
+                <ul className="bg-slate-50 rounded-lg p-3 space-y-1 border border-gray-200">
+                  <li><span className="font-semibold text-green-700">{plan.added.length}</span> registros nuevos</li>
+                  <li><span className="font-semibold text-medical-700">{plan.updated.length}</span> registros modificados</li>
+                  <li><span className="font-semibold text-gray-600">{plan.unchanged}</span> sin cambios</li>
+                  {mode === 'replace' && (
+                    <li><span className="font-semibold text-red-700">{plan.removed.length}</span> registros actuales irán a la papelera</li>
+                  )}
+                  {plan.invalid > 0 && (
+                    <li><span className="font-semibold text-amber-700">{plan.invalid}</span> entradas no válidas (se omiten)</li>
+                  )}
+                </ul>
+
+                {backup.settings && (
+                  <label className="flex items-start gap-2">
+                    <input type="checkbox" className="mt-1" checked={restoreSettings} onChange={(e) => setRestoreSettings(e.target.checked)} />
+                    <span>
+                      Restaurar también la configuración
+                      <span className="block text-xs text-gray-500">
+                        {changedSettings.length === 0 ? 'Sin diferencias con la actual.' : `Cambia: ${changedSettings.join(', ')}.`}
+                        {' '}Se mantiene el proveedor de IA configurado en este dispositivo.
+                      </span>
+                    </span>
+                  </label>
+                )}
+
+                <Button
+                  className="w-full"
+                  onClick={handleRestore}
+                  disabled={isWorking || (plan.toWrite.length === 0 && plan.removed.length === 0 && !(restoreSettings && changedSettings.length > 0))}
+                  icon={isWorking ? <Loader2 className="animate-spin" size={18} /> : <DatabaseBackup size={18} />}
+                >
+                  Restaurar
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React from 'react';
+import { CountBucket } from '../services/statistics';
+
+interface BarChartProps {
+  data: CountBucket[];
+  /** Tailwind fill class for the bars, e.g. "fill-medical-500". */
+  barClassName?: string;
+  height?: number;
+  /** Horizontal space per bar, widen it for long labels. */
+  slotWidth?: number;
+  emptyMessage?: string;
+}
+
+const LABEL_HEIGHT = 28;
+const VALUE_HEIGHT = 16;
+
+/**
+ * Minimal vertical bar chart drawn as inline SVG, so it renders offline with no chart library.
+ */
+export const BarChart: React.FC<BarChartProps> = ({
+  data,
+  barClassName = 'fill-medical-500',
+  height = 180,
+  slotWidth = 48,
+  emptyMessage = 'Sin datos para el periodo seleccionado.'
+}) => {
+  if (data.length === 0 || data.every(d => d.count === 0)) {
+    return <p className="text-sm text-gray-400 text-center py-8">{emptyMessage}</p>;
+  }
+
+  const max = Math.max(...data.map(d => d.count));
+  const slot = slotWidth;
+  const barWidth = 28;
+  const width = data.length * slot;
+  const plotHeight = height - LABEL_HEIGHT - VALUE_HEIGHT;
+
+  return (
+    <div className="overflow-x-auto">
+      <svg width={width} height={height} role="img" className="min-w-full">
+        {data.map((d, i) => {
+          const barHeight = max === 0 ? 0 : (d.count / max) * plotHeight;
+          const x = i * slot + (slot - barWidth) / 2;
+          const y = VALUE_HEIGHT + plotHeight - barHeight;
+          return (
+            <g key={d.key}>
+              <title>{`${d.label}: ${d.count}`}</title>
+              <rect x={x} y={y} width={barWidth} height={barHeight} rx={4} className={barClassName} />
+              <text x={x + barWidth / 2} y={y - 4} textAnchor="middle" className="fill-gray-700 text-[10px] font-semibold">
+                {d.count > 0 ? d.count : ''}
+              </text>
+              <text x={x + barWidth / 2} y={height - 10} textAnchor="middle" className="fill-gray-500 text-[10px]">
+                {d.label}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileSearch, Image as ImageIcon, Loader2, ScanLine, X } from 'lucide-react';
+import { Button } from './Button';
+import { MediaFile } from '../types';
+import { ScanResult, ScannedCode, buildScanResult, detectCodes, isScanningSupported } from '../services/barcodeScan';
+import { loadImage, mediaFileToBlob } from '../services/imagePreprocessing';
+
+interface BarcodeScannerProps {
+  /** Pages already attached to the capture, which can be searched for codes too. */
+  pages: MediaFile[];
+  onDetected: (result: ScanResult) => void;
+  onClose: () => void;
+}
+
+const SCAN_INTERVAL_MS = 300;
+
+/**
+ * Reads Code128, QR and DataMatrix codes from the camera, a picture or the attached pages.
+ * Decoding runs in the browser; nothing is sent anywhere.
+ */
+export const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ pages, onDetected, onClose }) => {
+  const [supported, setSupported] = useState<boolean | null>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const imagePages = pages.filter(page => page.mimeType.startsWith('image/'));
+
+  useEffect(() => {
+    isScanningSupported().then(setSupported);
+  }, []);
+
+  // Codes without any field we know are reported, so the user knows the camera did read something
+  const handleCodes = (codes: ScannedCode[]): boolean => {
+    if (codes.length === 0) return false;
+    const result = buildScanResult(codes);
+    if (Object.keys(result.fields).length === 0) {
+      setMessage(`Se leyó un código sin datos reconocibles: "${codes[0].rawValue}"`);
+      return false;
+    }
+    onDetected(result);
+    return true;
+  };
+
+  useEffect(() => {
+    if (!supported) return;
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let stopped = false;
+
+    const scanFrame = async () => {
+      const video = videoRef.current;
+      if (stopped || !video) return;
+      try {
+        if (video.readyState >= 2 && handleCodes(await detectCodes(video))) return;
+      } catch (e) {
+        console.error("Barcode detection failed", e);
+      }
+      if (!stopped) timer = window.setTimeout(scanFrame, SCAN_INTERVAL_MS);
+    };
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then(media => {
+        stream = media;
+        if (stopped) return;
+        if (videoRef.current) {
+          videoRef.current.srcObject = media;
+          videoRef.current.play().catch(() => {});
+        }
+        scanFrame();
+      })
+      .catch(e => {
+        console.error("Camera unavailable", e);
+        setCameraError("No se pudo acceder a la cámara. Puede leer el código desde una imagen.");
+      });
+
+    return () => {
+      stopped = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+    // handleCodes only closes over props that stay fixed while the dialog is open
+  }, [supported]);
+
+  // Reading the images happens inside the try, so a page that cannot be decoded ends the search with a message
+  const searchImages = async (readImages: () => Promise<Blob[]>) => {
+    setIsSearching(true);
+    setMessage(null);
+    try {
+      const codes: ScannedCode[] = [];
+      for (const blob of await readImages()) {
+        const image = await loadImage(blob);
+        try {
+          codes.push(...await detectCodes(image));
+        } finally {
+          image.close();
+        }
+      }
+      if (codes.length === 0) setMessage("No se encontró ningún código en la imagen.");
+      else handleCodes(codes);
+    } catch (e) {
+      console.error("Barcode detection failed", e);
+      setMessage("No se pudo analizar la imagen.");
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) searchImages(async () => [file]);
+    e.target.value = '';
+  };
+
+  const searchPages = () => searchImages(() => Promise.all(imagePages.map(mediaFileToBlob)));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md p-6 space-y-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+            <ScanLine size={20} className="text-medical-600" /> Escanear código
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700" title="Cerrar">
+            <X size={20} />
+          </button>
+        </div>
+
+        {supported === null && (
+          <div className="h-40 flex items-center justify-center text-medical-600">
+            <Loader2 className="animate-spin" size={28} />
+          </div>
+        )}
+
+        {supported === false && (
+          <p className="text-sm text-gray-600">
+            No se pudo cargar el lector de códigos de barras y QR en este navegador. Introduzca la HC manualmente.
+          </p>
+        )}
+
+        {supported && (
+          <>
+            <p className="text-sm text-gray-600">
+              Apunte a la pulsera o etiqueta del paciente. Se leen códigos de barras (Code128), QR y DataMatrix.
+            </p>
+            {cameraError ? (
+              <p className="text-sm text-amber-700 bg-amber-50 rounded-lg p-3">{cameraError}</p>
+            ) : (
+              <div className="relative rounded-xl overflow-hidden bg-black aspect-[4/3]">
+                <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+                <div className="absolute inset-x-8 top-1/2 h-0.5 bg-red-500/80 shadow-[0_0_8px_rgba(239,68,68,0.8)]" />
+              </div>
+            )}
+
+            {message && <p className="text-sm text-amber-700">{message}</p>}
+
+            <input ref={fileInputRef} type="file" accept="image/*" onChange={handleFile} className="hidden" />
+            <div className="flex gap-2">
+              <Button
+                variant="secondary"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isSearching}
+                className="flex-1 text-sm"
+                icon={<ImageIcon size={16} />}
+              >
+                Desde imagen
+              </Button>
+              {imagePages.length > 0 && (
+                <Button
+                  variant="secondary"
+                  onClick={searchPages}
+                  disabled={isSearching}
+                  className="flex-1 text-sm"
+                  icon={isSearching ? <Loader2 size={16} className="animate-spin" /> : <FileSearch size={16} />}
+                >
+                  En las páginas
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
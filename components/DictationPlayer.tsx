@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import { FileAudio, Loader2 } from 'lucide-react';
+import { DictationInfo } from '../types';
+import { loadDictationAudio } from '../services/dictationStore';
+
+interface DictationPlayerProps {
+  dictation: DictationInfo;
+}
+
+/**
+ * The original dictation of a record: the recording, if it is still kept, and the verbatim
+ * model transcript, which may differ from the edited description.
+ */
+export const DictationPlayer: React.FC<DictationPlayerProps> = ({ dictation }) => {
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'missing' | 'error'>('loading');
+
+  useEffect(() => {
+    let url: string | null = null;
+    let cancelled = false;
+    setStatus('loading');
+    setAudioUrl(null);
+    loadDictationAudio(dictation)
+      .then(blob => {
+        if (cancelled) return;
+        if (!blob) {
+          setStatus('missing');
+          return;
+        }
+        url = URL.createObjectURL(blob);
+        setAudioUrl(url);
+        setStatus('ready');
+      })
+      .catch(e => {
+        console.error("Failed to load dictation audio", e);
+        if (!cancelled) setStatus('error');
+      });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [dictation]);
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex items-center gap-2 text-xs font-semibold text-gray-500 uppercase tracking-wider">
+        <FileAudio size={14} /> Dictado original
+        <span className="font-normal normal-case tracking-normal text-gray-400">
+          {new Date(dictation.recordedAt).toLocaleString('es-ES')}
+        </span>
+      </div>
+      {status === 'loading' && <Loader2 size={16} className="animate-spin text-medical-600" />}
+      {status === 'ready' && audioUrl && <audio controls src={audioUrl} className="w-full" />}
+      {status === 'missing' && (
+        <p className="text-xs text-gray-500">
+          El audio ya no está en este dispositivo: se eliminó según el plazo de conservación o el registro procede de una copia de seguridad.
+        </p>
+      )}
+      {status === 'error' && <p className="text-xs text-red-600">No se pudo cargar el audio.</p>}
+      <div>
+        <label className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Transcripción literal</label>
+        <p className="mt-1 text-gray-700 whitespace-pre-wrap">
+          {dictation.transcript || <span className="text-gray-400">Sin transcripción.</span>}
+        </p>
+      </div>
+    </div>
+  );
+};
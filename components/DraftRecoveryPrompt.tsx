@@ -0,0 +1,44 @@
+import React from 'react';
+import { History, Trash2 } from 'lucide-react';
+import { Button } from './Button';
+import { PendingDraft } from '../services/captureQueue';
+
+interface DraftRecoveryPromptProps {
+  draft: PendingDraft;
+  onRecover: () => void;
+  onDiscard: () => void;
+  onDismiss: () => void;
+}
+
+/**
+ * Offered after a reload when the form on screen had not been saved yet.
+ * "Más tarde" leaves the draft in the list of drafts.
+ */
+export const DraftRecoveryPrompt: React.FC<DraftRecoveryPromptProps> = ({ draft, onRecover, onDiscard, onDismiss }) => (
+  <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onDismiss}>
+    <div className="bg-white rounded-2xl shadow-xl w-full max-w-md p-6 space-y-4" onClick={(e) => e.stopPropagation()}>
+      <h2 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+        <History size={20} className="text-medical-600" /> ¿Recuperar el borrador?
+      </h2>
+      <p className="text-sm text-gray-600">
+        Hay un registro sin terminar de <span className="font-semibold text-gray-800">
+          {draft.record.patientName || 'un paciente sin identificar'}
+        </span>
+        {draft.record.clinicalHistoryId && ` (HC ${draft.record.clinicalHistoryId})`}, guardado
+        el {new Date(draft.updatedAt).toLocaleString('es-ES')}.
+      </p>
+      <div className="flex flex-wrap justify-end gap-2">
+        <Button
+          variant="ghost"
+          onClick={onDiscard}
+          className="text-red-600 hover:bg-red-50 mr-auto"
+          icon={<Trash2 size={16} />}
+        >
+          Descartar
+        </Button>
+        <Button variant="secondary" onClick={onDismiss}>Más tarde</Button>
+        <Button onClick={onRecover}>Recuperar</Button>
+      </div>
+    </div>
+  </div>
+);
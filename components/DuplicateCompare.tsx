@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { Copy, GitMerge, X } from 'lucide-react';
+import { Button } from './Button';
+import { PatientRecord } from '../types';
+import { MERGE_FIELDS, MergeChoices, MergeField, defaultMergeChoices, mergeRecords } from '../services/duplicateDetection';
+
+interface DuplicateCompareProps {
+  /** Saved record whose id survives a merge. */
+  kept: PatientRecord;
+  other: PatientRecord;
+  keptLabel: string;
+  otherLabel: string;
+  reasons: string[];
+  /** Shown between the reasons and the comparison, e.g. to switch between several matches. */
+  children?: React.ReactNode;
+  keepBothLabel: string;
+  /** What happens to the other side on merge. */
+  mergeNote: string;
+  onMerge: (merged: PatientRecord) => void;
+  onKeepBoth: () => void;
+  onCancel: () => void;
+}
+
+const FIELD_LABELS: Record<MergeField, string> = {
+  patientName: 'Paciente',
+  clinicalHistoryId: 'HC',
+  phoneNumber: 'Teléfono',
+  date: 'Fecha',
+  intervention: 'Intervención',
+  dictation: 'Dictado',
+};
+
+const describe = (record: PatientRecord, field: MergeField): string => {
+  if (field === 'intervention') {
+    const intervention = record.intervention;
+    if (!intervention) return '';
+    const procedures = intervention.procedures.length > 0 ? ` (${intervention.procedures.length} proc.)` : '';
+    return `${intervention.region} · ${intervention.laterality} — ${intervention.description}${procedures}`;
+  }
+  if (field === 'dictation') {
+    return record.dictation ? `Grabado el ${new Date(record.dictation.recordedAt).toLocaleString('es-ES')}` : '';
+  }
+  return record[field] ?? '';
+};
+
+/**
+ * Two records side by side. Where they differ the user picks which value the merged record keeps.
+ * Choices start from the kept record, so callers remount it (by `key`) for a different pair.
+ */
+export const DuplicateCompare: React.FC<DuplicateCompareProps> = ({
+  kept, other, keptLabel, otherLabel, reasons, children, keepBothLabel, mergeNote, onMerge, onKeepBoth, onCancel
+}) => {
+  const [choices, setChoices] = useState<MergeChoices>(() => defaultMergeChoices(kept, other));
+
+  const cell = (field: MergeField, side: 'kept' | 'other', differs: boolean) => {
+    const value = describe(side === 'kept' ? kept : other, field);
+    const selected = choices[field] === side;
+    return (
+      <td className="px-3 py-2 align-top">
+        {differs ? (
+          <label className={`flex items-start gap-2 rounded-lg p-2 cursor-pointer border ${
+            selected ? 'border-medical-500 bg-medical-50' : 'border-transparent hover:bg-gray-50'
+          }`}>
+            <input
+              type="radio"
+              className="mt-1"
+              checked={selected}
+              onChange={() => setChoices(prev => ({ ...prev, [field]: side }))}
+            />
+            <span className={value ? 'text-gray-800' : 'text-gray-400'}>{value || 'Vacío'}</span>
+          </label>
+        ) : (
+          <span className={`block p-2 ${value ? 'text-gray-600' : 'text-gray-400'}`}>{value || 'Vacío'}</span>
+        )}
+      </td>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onCancel}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto p-6 space-y-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+            <Copy size={20} className="text-amber-600" /> Posible registro duplicado
+          </h2>
+          <button onClick={onCancel} className="text-gray-400 hover:text-gray-700" title="Cerrar">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {reasons.map(reason => (
+            <span key={reason} className="text-xs bg-amber-100 text-amber-800 px-2 py-0.5 rounded-full">{reason}</span>
+          ))}
+        </div>
+
+        {children}
+
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 w-28"></th>
+              <th className="px-3 py-2">{keptLabel}</th>
+              <th className="px-3 py-2">{otherLabel}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {MERGE_FIELDS.map(field => {
+              const differs = JSON.stringify(kept[field] || null) !== JSON.stringify(other[field] || null);
+              return (
+                <tr key={field} className="border-b border-gray-100">
+                  <th className="px-3 py-2 align-top text-xs font-semibold text-gray-500 uppercase">{FIELD_LABELS[field]}</th>
+                  {cell(field, 'kept', differs)}
+                  {cell(field, 'other', differs)}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        <p className="text-xs text-gray-500">{mergeNote}</p>
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button variant="secondary" onClick={onCancel}>Cancelar</Button>
+          <Button variant="secondary" onClick={onKeepBoth}>{keepBothLabel}</Button>
+          <Button onClick={() => onMerge(mergeRecords(kept, other, choices))} icon={<GitMerge size={16} />}>
+            Fusionar
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
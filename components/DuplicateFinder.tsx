@@ -0,0 +1,113 @@
+import React, { useMemo, useState } from 'react';
+import { CheckCircle2, Copy, X } from 'lucide-react';
+import { Button } from './Button';
+import { DuplicateCompare } from './DuplicateCompare';
+import { PatientRecord } from '../types';
+import { DuplicatePair, findDuplicatePairs, pairKey } from '../services/duplicateDetection';
+
+interface DuplicateFinderProps {
+  records: PatientRecord[];
+  /** Saves the merged record and moves `trashedId` to the trash. */
+  onMerge: (merged: PatientRecord, trashedId: string) => Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * Scans the whole database for likely duplicates and lets the user compare and merge each pair.
+ * Pairs marked as distinct cases are hidden until the dialog is opened again.
+ */
+export const DuplicateFinder: React.FC<DuplicateFinderProps> = ({ records, onMerge, onClose }) => {
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<DuplicatePair | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const pairs = useMemo(
+    () => findDuplicatePairs(records).filter(pair => !dismissed.has(pairKey(pair))),
+    [records, dismissed]
+  );
+
+  const dismiss = (pair: DuplicatePair) => {
+    setDismissed(prev => new Set(prev).add(pairKey(pair)));
+    setSelected(null);
+  };
+
+  const handleMerge = async (merged: PatientRecord) => {
+    const pair = selected!;
+    setSelected(null);
+    try {
+      await onMerge(merged, pair.other.id);
+      setError(null);
+    } catch (e) {
+      console.error("Failed to merge duplicates", e);
+      setError("No se pudieron fusionar los registros.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 space-y-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+            <Copy size={20} className="text-medical-500" /> Buscar duplicados
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700" title="Cerrar">
+            <X size={20} />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600">
+          Registros del mismo día con la misma HC o un nombre muy parecido, y sin regiones ni lados contradictorios.
+        </p>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {pairs.length === 0 ? (
+          <p className="py-8 text-center text-sm text-emerald-700 flex items-center justify-center gap-2">
+            <CheckCircle2 size={18} /> No se encontraron posibles duplicados.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100 border border-gray-200 rounded-xl">
+            {pairs.map(pair => (
+              <li key={pairKey(pair)} className="px-4 py-3 flex flex-wrap items-center gap-3 text-sm">
+                <div className="flex-grow min-w-[200px]">
+                  <div className="font-semibold text-gray-800">
+                    {pair.kept.patientName} <span className="text-gray-400 font-normal">/</span> {pair.other.patientName}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {pair.kept.date} · HC {pair.kept.clinicalHistoryId} / {pair.other.clinicalHistoryId}
+                  </div>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {pair.reasons.map(reason => (
+                      <span key={reason} className="text-xs bg-amber-100 text-amber-800 px-2 py-0.5 rounded-full">{reason}</span>
+                    ))}
+                  </div>
+                </div>
+                <Button variant="secondary" onClick={() => setSelected(pair)} className="text-xs px-3 py-1">
+                  Comparar
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {selected && (
+        <div onClick={(e) => e.stopPropagation()}>
+          <DuplicateCompare
+            key={pairKey(selected)}
+            kept={selected.kept}
+            other={selected.other}
+            keptLabel="Registro más antiguo"
+            otherLabel="Registro más reciente"
+            reasons={selected.reasons}
+            keepBothLabel="No son duplicados"
+            mergeNote="Al fusionar se conserva el registro más antiguo con los valores marcados; el más reciente pasa a la papelera."
+            onMerge={handleMerge}
+            onKeepBoth={() => dismiss(selected)}
+            onCancel={() => setSelected(null)}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
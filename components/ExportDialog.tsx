@@ -0,0 +1,107 @@
+import React, { useMemo, useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { Button } from './Button';
+import { CsvDelimiter, CsvExportOptions, getCsvColumns } from '../services/csvExport';
+import { Taxonomy } from '../services/taxonomy';
+
+interface ExportDialogProps {
+  taxonomy: Taxonomy;
+  initialColumns: string[];
+  initialDelimiter: CsvDelimiter;
+  onExport: (options: CsvExportOptions) => void;
+  onOpenBackup: () => void;
+  onClose: () => void;
+}
+
+const DELIMITERS: { value: CsvDelimiter; label: string }[] = [
+  { value: ';', label: 'Punto y coma (;) — Excel en español' },
+  { value: ',', label: 'Coma (,)' },
+  { value: '\t', label: 'Tabulador' },
+];
+
+const inputClass = "rounded-lg border border-gray-300 px-2 py-1.5 text-sm focus:border-medical-500 focus:ring-medical-500";
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ taxonomy, initialColumns, initialDelimiter, onExport, onOpenBackup, onClose }) => {
+  const available = useMemo(() => getCsvColumns(taxonomy), [taxonomy]);
+  const [columns, setColumns] = useState<string[]>(initialColumns);
+  const [delimiter, setDelimiter] = useState<CsvDelimiter>(initialDelimiter);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  // Keep the canonical column order regardless of click order
+  const toggleColumn = (id: string) => {
+    setColumns(prev => prev.includes(id)
+      ? prev.filter(c => c !== id)
+      : available.map(c => c.id).filter(c => c === id || prev.includes(c)));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-gray-800">Exportar CSV</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700" title="Cerrar">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div>
+          <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Columnas</div>
+          <div className="grid grid-cols-2 gap-2 text-sm text-gray-700">
+            {available.map(column => (
+              <label key={column.id} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={columns.includes(column.id)}
+                  onChange={() => toggleColumn(column.id)}
+                />
+                {column.header}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Separador</div>
+          <select value={delimiter} onChange={(e) => setDelimiter(e.target.value as CsvDelimiter)} className={`${inputClass} w-full`}>
+            {DELIMITERS.map(d => (
+              <option key={d.label} value={d.value}>{d.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Periodo (opcional)</div>
+          <div className="flex gap-3 text-sm text-gray-600">
+            <label className="flex items-center gap-1">
+              Desde
+              <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+            </label>
+            <label className="flex items-center gap-1">
+              Hasta
+              <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+            </label>
+          </div>
+        </div>
+
+        <p className="text-xs text-gray-500">
+          El CSV no está cifrado. Para trasladar todos los datos a otro dispositivo use una{' '}
+          <button onClick={onOpenBackup} className="text-medical-600 hover:underline font-medium">
+            copia de seguridad cifrada
+          </button>.
+        </p>
+
+        <div className="flex justify-end gap-3">
+          <Button variant="secondary" onClick={onClose}>Cancelar</Button>
+          <Button
+            onClick={() => onExport({ columns, delimiter, range: { from, to } })}
+            disabled={columns.length === 0}
+            icon={<Download size={16} />}
+          >
+            Descargar
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React from 'react';
+import { AlertTriangle, Check, Quote, ScanLine } from 'lucide-react';
+import { FieldReview } from '../services/extractionReview';
+
+interface ScanConflict {
+  scanned: string;
+  onUseScanned: () => void;
+  onUseExtracted: () => void;
+}
+
+interface FieldEvidenceProps {
+  review?: FieldReview;
+  threshold: number;
+  onConfirm: () => void;
+  /** Set when a scanned code disagrees with the AI reading. */
+  conflict?: ScanConflict;
+}
+
+/**
+ * Confidence and source snippet for one extracted field, with a confirm action
+ * while the value is still unchecked, or a choice when a scanned code disagrees.
+ */
+export const FieldEvidence: React.FC<FieldEvidenceProps> = ({ review, threshold, onConfirm, conflict }) => {
+  if (!review) return null;
+
+  const percent = Math.round(review.confidence * 100);
+  const low = review.confidence < threshold;
+
+  return (
+    <div className="mt-1 space-y-1">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span
+          className={`px-1.5 py-0.5 rounded-full font-semibold ${
+            low ? 'bg-amber-100 text-amber-800' : 'bg-emerald-100 text-emerald-700'
+          }`}
+          title="Confianza indicada por el modelo"
+        >
+          {percent}%
+        </span>
+        {review.page > 0 && (
+          <span className="px-1.5 py-0.5 rounded-full bg-gray-100 text-gray-600 font-medium" title="Página de la que se extrajo">
+            Pág. {review.page}
+          </span>
+        )}
+        {review.source && (
+          <span className="flex items-center gap-1 text-gray-500 min-w-0" title="Texto del documento">
+            <Quote size={12} className="shrink-0" />
+            <span className="font-mono truncate">{review.source}</span>
+          </span>
+        )}
+      </div>
+      {conflict ? (
+        <div className="rounded-lg bg-red-50 border border-red-200 p-2 text-xs text-red-800 space-y-1">
+          <p className="flex items-start gap-1">
+            <ScanLine size={12} className="shrink-0 mt-0.5" />
+            <span>
+              El código escaneado dice <span className="font-mono font-semibold">{conflict.scanned}</span> pero
+              la IA leyó <span className="font-mono font-semibold">{review.value}</span>.
+            </span>
+          </p>
+          <div className="flex gap-3 font-semibold">
+            <button type="button" onClick={conflict.onUseScanned} className="hover:underline">Usar código</button>
+            <button type="button" onClick={conflict.onUseExtracted} className="hover:underline">Usar lectura de la IA</button>
+          </div>
+        </div>
+      ) : !review.confirmed && (
+        <div className="flex items-center justify-between gap-2 text-xs text-amber-800">
+          <span className="flex items-center gap-1">
+            <AlertTriangle size={12} /> Revise este dato
+          </span>
+          <button
+            type="button"
+            onClick={onConfirm}
+            className="flex items-center gap-1 font-semibold text-amber-900 hover:underline"
+          >
+            <Check size={12} /> Confirmar
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,201 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Crop, Loader2, RotateCcw, RotateCw, X } from 'lucide-react';
+import { Button } from './Button';
+import { MediaFile } from '../types';
+import {
+  CropRect,
+  QuarterTurn,
+  drawRotated,
+  loadImage,
+  mediaFileToBlob,
+  preprocessImage
+} from '../services/imagePreprocessing';
+
+interface ImageEditorProps {
+  page: MediaFile;
+  /** File the page was made from, when still at hand; edits start from it instead of the compressed page. */
+  original?: Blob;
+  pageNumber: number;
+  onApply: (page: MediaFile) => void;
+  onClose: () => void;
+}
+
+// Preview resolution of the editing stage; the full image is only processed on apply
+const STAGE_MAX_SIDE = 1200;
+// Drags smaller than this fraction of the image are treated as a click that clears the crop
+const MIN_CROP = 0.03;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Manual crop and rotation of one page, with optional deskew and contrast boost.
+ * The page is replaced by the processed JPEG, which is what the preview and the AI see.
+ */
+export const ImageEditor: React.FC<ImageEditorProps> = ({ page, original, pageNumber, onApply, onClose }) => {
+  const [image, setImage] = useState<ImageBitmap | null>(null);
+  const [stageUrl, setStageUrl] = useState<string | null>(null);
+  const [rotation, setRotation] = useState<QuarterTurn>(0);
+  const [crop, setCrop] = useState<CropRect | null>(null);
+  const [deskew, setDeskew] = useState(false);
+  const [contrast, setContrast] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    let loaded: ImageBitmap | null = null;
+    let cancelled = false;
+    (original ? Promise.resolve(original) : mediaFileToBlob(page))
+      .then(loadImage)
+      .then(bitmap => {
+        loaded = bitmap;
+        if (cancelled) bitmap.close();
+        else setImage(bitmap);
+      })
+      .catch(e => {
+        console.error("Failed to decode image", e);
+        setError("No se pudo abrir la imagen.");
+      });
+    return () => {
+      cancelled = true;
+      loaded?.close();
+    };
+  }, [page, original]);
+
+  useEffect(() => {
+    if (!image) return;
+    setStageUrl(drawRotated(image, rotation, STAGE_MAX_SIDE).toDataURL('image/jpeg', 0.8));
+  }, [image, rotation]);
+
+  // Crop coordinates are relative to the rotated image, so turning clears them
+  const rotate = (delta: 90 | -90) => {
+    setRotation(prev => (((prev + delta + 360) % 360) as QuarterTurn));
+    setCrop(null);
+  };
+
+  const pointerPosition = (e: React.PointerEvent) => {
+    const rect = stageRef.current!.getBoundingClientRect();
+    return { x: clamp01((e.clientX - rect.left) / rect.width), y: clamp01((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = pointerPosition(e);
+    setCrop(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragStart.current) return;
+    const start = dragStart.current;
+    const current = pointerPosition(e);
+    setCrop({
+      x: Math.min(start.x, current.x),
+      y: Math.min(start.y, current.y),
+      width: Math.abs(current.x - start.x),
+      height: Math.abs(current.y - start.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+    setCrop(prev => (prev && (prev.width < MIN_CROP || prev.height < MIN_CROP) ? null : prev));
+  };
+
+  const handleApply = async () => {
+    if (!image) return;
+    setIsApplying(true);
+    setError(null);
+    try {
+      const result = await preprocessImage(image, { rotation, crop, deskew, contrast });
+      onApply(result.page);
+    } catch (e) {
+      console.error("Failed to process image", e);
+      setError("No se pudo procesar la imagen.");
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl p-6 space-y-4 max-h-[95vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-gray-800">Ajustar página {pageNumber}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700" title="Cerrar">
+            <X size={20} />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 flex items-center gap-2">
+          <Crop size={14} /> Arrastre sobre la imagen para recortar la etiqueta o el área con los datos.
+        </p>
+
+        <div className="flex justify-center bg-gray-100 rounded-xl p-2">
+          {stageUrl ? (
+            <div
+              ref={stageRef}
+              className="relative select-none touch-none cursor-crosshair"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+            >
+              <img src={stageUrl} alt={`Página ${pageNumber}`} className="max-h-[55vh] w-auto block" draggable={false} />
+              {crop && (
+                <div
+                  className="absolute border-2 border-medical-500 shadow-[0_0_0_9999px_rgba(0,0,0,0.45)] pointer-events-none"
+                  style={{
+                    left: `${crop.x * 100}%`,
+                    top: `${crop.y * 100}%`,
+                    width: `${crop.width * 100}%`,
+                    height: `${crop.height * 100}%`,
+                  }}
+                />
+              )}
+            </div>
+          ) : (
+            <div className="h-64 flex items-center justify-center text-medical-600">
+              {!error && <Loader2 className="animate-spin" size={28} />}
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <Button variant="secondary" onClick={() => rotate(-90)} icon={<RotateCcw size={16} />} disabled={!image}>
+            Girar izq.
+          </Button>
+          <Button variant="secondary" onClick={() => rotate(90)} icon={<RotateCw size={16} />} disabled={!image}>
+            Girar der.
+          </Button>
+          <label className="flex items-center gap-2 text-gray-700">
+            <input type="checkbox" checked={deskew} onChange={(e) => setDeskew(e.target.checked)} />
+            Enderezar texto
+          </label>
+          <label className="flex items-center gap-2 text-gray-700">
+            <input type="checkbox" checked={contrast} onChange={(e) => setContrast(e.target.checked)} />
+            Realzar contraste
+          </label>
+          {crop && (
+            <button type="button" onClick={() => setCrop(null)} className="text-medical-600 hover:underline">
+              Quitar recorte
+            </button>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={handleApply}
+            disabled={!image || isApplying}
+            icon={isApplying ? <Loader2 size={16} className="animate-spin" /> : undefined}
+          >
+            Aplicar
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
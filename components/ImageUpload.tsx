@@ -1,38 +1,97 @@
 import React, { useRef, useState } from 'react';
-import { Upload, Image as ImageIcon, X, Camera } from 'lucide-react';
+import { Upload, Image as ImageIcon, X, Camera, FileText, Plus, Crop, Loader2 } from 'lucide-react';
 import { Button } from './Button';
+import { ImageEditor } from './ImageEditor';
+import { MediaFile } from '../types';
+import { preprocessFile } from '../services/imagePreprocessing';
 
 interface ImageUploadProps {
-  onImageSelected: (base64: string, mimeType: string) => void;
+  pages: MediaFile[];
+  onPagesAdded: (pages: MediaFile[]) => void;
+  onRemovePage: (index: number) => void;
+  onReplacePage: (index: number, page: MediaFile) => void;
   onClear: () => void;
-  previewUrl: string | null;
   isProcessing: boolean;
 }
 
-export const ImageUpload: React.FC<ImageUploadProps> = ({ onImageSelected, onClear, previewUrl, isProcessing }) => {
-  const galleryInputRef = useRef<HTMLInputElement>(null);
-  const cameraInputRef = useRef<HTMLInputElement>(null);
-  const [dragActive, setDragActive] = useState(false);
+const ACCEPTED_TYPES = 'image/*,application/pdf';
 
-  const handleFile = (file: File) => {
-    if (!file.type.startsWith('image/')) {
-      alert('Por favor sube un archivo de imagen válido.');
-      return;
-    }
+const isAccepted = (file: File) => file.type.startsWith('image/') || file.type === 'application/pdf';
+
+const isPdf = (page: MediaFile) => page.mimeType === 'application/pdf';
 
+const readFile = (file: File): Promise<MediaFile> =>
+  new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onloadend = () => {
       const base64String = reader.result as string;
       // Remove data URL prefix for API
-      const base64Data = base64String.split(',')[1];
-      onImageSelected(base64Data, file.type);
+      resolve({ base64: base64String.split(',')[1], mimeType: file.type });
     };
+    reader.onerror = () => reject(reader.error);
     reader.readAsDataURL(file);
+  });
+
+// Photos are turned upright, downscaled and recompressed before they are stored or sent.
+// The photo itself is returned too, so later edits work on full resolution.
+const preparePage = async (file: File): Promise<{ page: MediaFile; original?: Blob }> => {
+  if (file.type === 'application/pdf') return { page: await readFile(file) };
+  try {
+    return { page: await preprocessFile(file), original: file };
+  } catch (e) {
+    // Formats the browser cannot draw (e.g. HEIC on some devices) are sent as they are
+    console.error("Image preprocessing failed, using the original", e);
+    return { page: await readFile(file) };
+  }
+};
+
+/**
+ * Photos and PDFs of one patient's paperwork. Several pages can be attached; they are
+ * extracted together and each field shows the page it came from.
+ * Thumbnails show the processed images, which are what the AI receives.
+ */
+export const ImageUpload: React.FC<ImageUploadProps> = ({ pages, onPagesAdded, onRemovePage, onReplacePage, onClear, isProcessing }) => {
+  const galleryInputRef = useRef<HTMLInputElement>(null);
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+  const [dragActive, setDragActive] = useState(false);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Photos the pages were made from, for this session only; pages restored from a draft have none
+  const originals = useRef(new WeakMap<MediaFile, Blob>());
+  const busy = isProcessing || isPreparing;
+
+  const handleFiles = async (fileList: FileList) => {
+    const files = Array.from(fileList);
+    if (files.some(file => !isAccepted(file))) {
+      alert('Por favor sube imágenes o documentos PDF.');
+      return;
+    }
+    if (files.length === 0) return;
+    setIsPreparing(true);
+    setError(null);
+    // One at a time: decoding several large photos at once can run a phone out of memory
+    const prepared: MediaFile[] = [];
+    try {
+      for (const file of files) {
+        const { page, original } = await preparePage(file);
+        if (original) originals.current.set(page, original);
+        prepared.push(page);
+      }
+    } catch (e) {
+      console.error("Failed to read file", e);
+      setError(files.length > 1
+        ? "No se pudieron leer todos los archivos. Se han añadido los que se leyeron correctamente."
+        : "No se pudo leer el archivo. Inténtelo de nuevo.");
+    } finally {
+      if (prepared.length > 0) onPagesAdded(prepared);
+      setIsPreparing(false);
+    }
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      handleFile(e.target.files[0]);
+    if (e.target.files) {
+      handleFiles(e.target.files);
     }
     // Reset input value to allow selecting the same file again if needed
     e.target.value = '';
@@ -52,50 +111,24 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({ onImageSelected, onCle
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFile(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files) {
+      handleFiles(e.dataTransfer.files);
     }
   };
 
-  if (previewUrl) {
-    return (
-      <div className="relative group rounded-xl overflow-hidden shadow-md border border-gray-200">
-        <img 
-          src={`data:image/jpeg;base64,${previewUrl}`} 
-          alt="Documento escaneado" 
-          className="w-full h-64 object-cover object-top"
-        />
-        <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
-           <Button variant="danger" onClick={onClear} icon={<X />}>
-             Eliminar Imagen
-           </Button>
-        </div>
-      </div>
-    );
-  }
-
-  return (
-    <div 
-      className={`relative border-2 border-dashed rounded-xl p-8 text-center transition-all duration-200 ${
-        dragActive 
-          ? 'border-medical-500 bg-medical-50 scale-[1.01]' 
-          : 'border-gray-300 hover:border-medical-400 hover:bg-gray-50'
-      }`}
-      onDragEnter={handleDrag}
-      onDragLeave={handleDrag}
-      onDragOver={handleDrag}
-      onDrop={handleDrop}
-    >
+  const inputs = (
+    <>
       {/* Input para Galería */}
       <input
         ref={galleryInputRef}
         type="file"
-        accept="image/*"
+        accept={ACCEPTED_TYPES}
+        multiple
         onChange={handleChange}
         className="hidden"
-        disabled={isProcessing}
+        disabled={busy}
       />
-      
+
       {/* Input para Cámara (usa capture="environment" para la cámara trasera) */}
       <input
         ref={cameraInputRef}
@@ -104,34 +137,143 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({ onImageSelected, onCle
         capture="environment"
         onChange={handleChange}
         className="hidden"
-        disabled={isProcessing}
+        disabled={busy}
       />
-      
+    </>
+  );
+
+  if (pages.length > 0) {
+    return (
+      <div className="space-y-3">
+        {inputs}
+        <div className="grid grid-cols-2 gap-3">
+          {pages.map((page, index) => (
+            <div key={index} className="relative group rounded-xl overflow-hidden shadow-md border border-gray-200 h-40 bg-gray-50">
+              {isPdf(page) ? (
+                <div className="h-full flex flex-col items-center justify-center gap-2 text-gray-500">
+                  <FileText size={36} />
+                  <span className="text-xs font-semibold">PDF</span>
+                </div>
+              ) : (
+                <img
+                  src={`data:${page.mimeType};base64,${page.base64}`}
+                  alt={`Página ${index + 1}`}
+                  className="w-full h-full object-cover object-top"
+                />
+              )}
+              <span className="absolute top-2 left-2 bg-gray-900/70 text-white text-xs font-semibold px-2 py-0.5 rounded-full">
+                Pág. {index + 1}
+              </span>
+              <div className="absolute top-2 right-2 flex gap-1 md:opacity-0 md:group-hover:opacity-100 transition-opacity">
+                {!isPdf(page) && (
+                  <button
+                    onClick={() => setEditingIndex(index)}
+                    disabled={busy}
+                    className="bg-white/90 text-medical-700 rounded-full p-1 shadow disabled:hidden"
+                    title="Recortar, girar o mejorar"
+                  >
+                    <Crop size={14} />
+                  </button>
+                )}
+                <button
+                  onClick={() => onRemovePage(index)}
+                  disabled={busy}
+                  className="bg-white/90 text-red-600 rounded-full p-1 shadow disabled:hidden"
+                  title="Quitar página"
+                >
+                  <X size={14} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+        {isPreparing && (
+          <p className="text-xs text-medical-700 flex items-center gap-1">
+            <Loader2 size={12} className="animate-spin" /> Preparando imagen...
+          </p>
+        )}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <div className="flex gap-2">
+          <Button
+            variant="secondary"
+            onClick={() => galleryInputRef.current?.click()}
+            disabled={busy}
+            className="flex-1 text-sm"
+            icon={<Plus size={16} />}
+          >
+            Añadir página
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={() => cameraInputRef.current?.click()}
+            disabled={busy}
+            className="flex-1 text-sm"
+            icon={<Camera size={16} />}
+          >
+            Fotografiar
+          </Button>
+          <Button variant="danger" onClick={onClear} className="text-sm" icon={<X size={16} />}>
+            Quitar todo
+          </Button>
+        </div>
+        {editingIndex !== null && pages[editingIndex] && (
+          <ImageEditor
+            page={pages[editingIndex]}
+            original={originals.current.get(pages[editingIndex])}
+            pageNumber={editingIndex + 1}
+            onApply={(edited) => {
+              // The edited page keeps its original, so a second edit starts from the photo again
+              const original = originals.current.get(pages[editingIndex]);
+              if (original) originals.current.set(edited, original);
+              onReplacePage(editingIndex, edited);
+              setEditingIndex(null);
+            }}
+            onClose={() => setEditingIndex(null)}
+          />
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`relative border-2 border-dashed rounded-xl p-8 text-center transition-all duration-200 ${
+        dragActive
+          ? 'border-medical-500 bg-medical-50 scale-[1.01]'
+          : 'border-gray-300 hover:border-medical-400 hover:bg-gray-50'
+      }`}
+      onDragEnter={handleDrag}
+      onDragLeave={handleDrag}
+      onDragOver={handleDrag}
+      onDrop={handleDrop}
+    >
+      {inputs}
+
       <div className="flex flex-col items-center gap-4">
         <div className="w-16 h-16 bg-medical-100 text-medical-600 rounded-full flex items-center justify-center">
           <Upload size={32} />
         </div>
         <div>
           <h3 className="text-lg font-semibold text-gray-900">Sube o Captura la Ficha</h3>
-          <p className="text-sm text-gray-500 mt-1">Selecciona de la galería o toma una foto instantánea</p>
+          <p className="text-sm text-gray-500 mt-1">Selecciona una o varias páginas (fotos o PDF) o toma una foto instantánea</p>
         </div>
-        
-        {isProcessing ? (
-          <Button disabled className="w-full">
-            Procesando...
+
+        {busy ? (
+          <Button disabled className="w-full" icon={isPreparing ? <Loader2 size={18} className="animate-spin" /> : undefined}>
+            {isPreparing ? 'Preparando imagen...' : 'Procesando...'}
           </Button>
         ) : (
           <div className="flex gap-3 w-full justify-center">
-            <Button 
-              onClick={() => galleryInputRef.current?.click()} 
+            <Button
+              onClick={() => galleryInputRef.current?.click()}
               variant="secondary"
               className="flex-1"
               icon={<ImageIcon size={18} />}
             >
               Galería
             </Button>
-            <Button 
-              onClick={() => cameraInputRef.current?.click()} 
+            <Button
+              onClick={() => cameraInputRef.current?.click()}
               variant="primary"
               className="flex-1"
               icon={<Camera size={18} />}
@@ -140,7 +282,8 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({ onImageSelected, onCle
             </Button>
           </div>
         )}
+        {error && <p className="text-sm text-red-600">{error}</p>}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
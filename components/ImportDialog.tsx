@@ -0,0 +1,277 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AlertCircle, CheckCircle2, Copy, FileUp, Upload, X } from 'lucide-react';
+import { Button } from './Button';
+import { PatientRecord } from '../types';
+import { parseCsv } from '../services/csvParser';
+import { parseBackup } from '../services/backupFormat';
+import {
+  ColumnMapping,
+  ImportMode,
+  ImportRow,
+  REQUIRED_FIELDS,
+  getMappableFields,
+  guessMapping,
+  markDuplicates,
+  recordsToImport,
+  rowsFromBackup,
+  rowsFromCsv
+} from '../services/recordImport';
+import { Taxonomy } from '../services/taxonomy';
+import { ValidationRules } from '../services/validation';
+
+interface ImportDialogProps {
+  existing: PatientRecord[];
+  taxonomy: Taxonomy;
+  rules: ValidationRules;
+  onImport: (records: PatientRecord[], mode: ImportMode) => Promise<void>;
+  onClose: () => void;
+}
+
+type Step = 'file' | 'mapping' | 'preview';
+
+const PREVIEW_LIMIT = 100;
+
+const inputClass = "rounded-lg border border-gray-300 px-2 py-1.5 text-sm focus:border-medical-500 focus:ring-medical-500";
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ existing, taxonomy, rules, onImport, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<Step>('file');
+  const [fileName, setFileName] = useState('');
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [sourceRows, setSourceRows] = useState<ImportRow[]>([]);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Duplicates are re-evaluated when switching modes: replacing only cares about repeats inside the file
+  const rows = useMemo(
+    () => markDuplicates(sourceRows, mode === 'merge' ? existing : []),
+    [sourceRows, mode, existing]
+  );
+  const toImport = useMemo(() => recordsToImport(rows), [rows]);
+  const invalidCount = rows.filter(r => !r.record).length;
+  const duplicateCount = rows.filter(r => r.duplicateOf).length;
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setFileName(file.name);
+    try {
+      const text = await file.text();
+      if (file.name.toLowerCase().endsWith('.json') || text.trimStart().startsWith('{')) {
+        setSourceRows(rowsFromBackup(parseBackup(text), taxonomy, rules));
+        setStep('preview');
+        return;
+      }
+      const parsed = parseCsv(text);
+      if (parsed.length < 2) {
+        setError("El archivo CSV no contiene filas de datos.");
+        return;
+      }
+      setCsvRows(parsed);
+      setMapping(guessMapping(parsed[0], taxonomy));
+      setStep('mapping');
+    } catch (e) {
+      console.error("Failed to read import file", e);
+      setError(e instanceof Error ? e.message : "No se pudo leer el archivo.");
+    }
+  };
+
+  const missingRequired = REQUIRED_FIELDS.filter(field => mapping[field] == null);
+
+  const confirmMapping = () => {
+    setSourceRows(rowsFromCsv(csvRows, mapping, taxonomy, rules));
+    setStep('preview');
+  };
+
+  const handleImport = async () => {
+    if (mode === 'replace' && !window.confirm(
+      `Los ${existing.length} registros actuales se moverán a la papelera y se sustituirán por ${toImport.length} registros importados. ¿Continuar?`
+    )) return;
+    setIsImporting(true);
+    setError(null);
+    try {
+      await onImport(toImport, mode);
+    } catch (e) {
+      console.error("Import failed", e);
+      setError("No se pudo completar la importación. No se ha modificado ningún registro.");
+      setIsImporting(false);
+    }
+  };
+
+  const statusBadge = (row: ImportRow) => {
+    if (!row.record) {
+      return <span className="flex items-center gap-1 text-red-600"><AlertCircle size={14} /> Error</span>;
+    }
+    if (row.duplicateOf) {
+      return <span className="flex items-center gap-1 text-amber-600"><Copy size={14} /> Duplicado</span>;
+    }
+    return <span className="flex items-center gap-1 text-green-600"><CheckCircle2 size={14} /> Nuevo</span>;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-800">
+            Importar registros {fileName && <span className="text-sm font-normal text-gray-500">— {fileName}</span>}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700" title="Cerrar">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 overflow-y-auto space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 text-red-700 rounded-lg flex items-center gap-2 text-sm">
+              <AlertCircle size={16} />
+              {error}
+            </div>
+          )}
+
+          {step === 'file' && (
+            <div className="border-2 border-dashed border-gray-300 rounded-xl p-8 text-center space-y-4">
+              <div className="w-16 h-16 bg-medical-100 text-medical-600 rounded-full flex items-center justify-center mx-auto">
+                <FileUp size={32} />
+              </div>
+              <p className="text-sm text-gray-500">
+                CSV exportado desde SurgiLog u otra hoja de cálculo, o copia de seguridad JSON.
+              </p>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  if (e.target.files && e.target.files[0]) handleFile(e.target.files[0]);
+                  e.target.value = '';
+                }}
+              />
+              <Button onClick={() => fileInputRef.current?.click()} icon={<Upload size={16} />} className="mx-auto">
+                Seleccionar archivo
+              </Button>
+            </div>
+          )}
+
+          {step === 'mapping' && (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-600">
+                Indique qué columna del archivo corresponde a cada campo. Los campos marcados con * son obligatorios.
+              </p>
+              <table className="w-full text-sm">
+                <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Campo</th>
+                    <th className="px-3 py-2 text-left">Columna del archivo</th>
+                    <th className="px-3 py-2 text-left">Ejemplo</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {getMappableFields(taxonomy).map(field => {
+                    const column = mapping[field.id];
+                    return (
+                      <tr key={field.id} className="border-b">
+                        <td className="px-3 py-2 font-medium text-gray-800">
+                          {field.header}{REQUIRED_FIELDS.includes(field.id) && ' *'}
+                        </td>
+                        <td className="px-3 py-2">
+                          <select
+                            value={column ?? ''}
+                            onChange={(e) => setMapping(prev => ({
+                              ...prev,
+                              [field.id]: e.target.value === '' ? null : Number(e.target.value)
+                            }))}
+                            className={`${inputClass} w-full`}
+                          >
+                            <option value="">— No importar —</option>
+                            {csvRows[0].map((header, i) => (
+                              <option key={i} value={i}>{header || `Columna ${i + 1}`}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-3 py-2 text-gray-500 max-w-[200px] truncate">
+                          {column != null ? csvRows[1][column] : ''}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-3 text-center text-sm">
+                <div className="p-3 rounded-lg bg-green-50 text-green-800"><div className="text-xl font-bold">{toImport.length}</div>a importar</div>
+                <div className="p-3 rounded-lg bg-amber-50 text-amber-800"><div className="text-xl font-bold">{duplicateCount}</div>duplicados (se omiten)</div>
+                <div className="p-3 rounded-lg bg-red-50 text-red-800"><div className="text-xl font-bold">{invalidCount}</div>con errores (se omiten)</div>
+              </div>
+
+              <div className="flex gap-4 text-sm text-gray-700">
+                <label className="flex items-center gap-2">
+                  <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                  Combinar con los registros actuales
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                  Reemplazar la base de datos
+                </label>
+              </div>
+
+              <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="w-full text-sm text-left text-gray-500">
+                  <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2">Fila</th>
+                      <th className="px-3 py-2">Estado</th>
+                      <th className="px-3 py-2">Fecha</th>
+                      <th className="px-3 py-2">Paciente</th>
+                      <th className="px-3 py-2">HC</th>
+                      <th className="px-3 py-2">Detalle</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.slice(0, PREVIEW_LIMIT).map(row => (
+                      <tr key={row.index} className="border-b">
+                        <td className="px-3 py-2">{row.index}</td>
+                        <td className="px-3 py-2 whitespace-nowrap">{statusBadge(row)}</td>
+                        <td className="px-3 py-2 whitespace-nowrap">{row.record?.date}</td>
+                        <td className="px-3 py-2 text-gray-900">{row.record?.patientName}</td>
+                        <td className="px-3 py-2">{row.record?.clinicalHistoryId}</td>
+                        <td className="px-3 py-2 text-xs">
+                          {row.errors.length > 0
+                            ? row.errors.join(' ')
+                            : row.duplicateOf
+                              ? `Ya existe: ${row.duplicateOf.patientName} (${row.duplicateOf.date})`
+                              : row.record?.intervention?.description}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {rows.length > PREVIEW_LIMIT && (
+                <p className="text-xs text-gray-400">Mostrando {PREVIEW_LIMIT} de {rows.length} filas.</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 px-6 py-4 border-t border-gray-200">
+          <Button variant="secondary" onClick={onClose}>Cancelar</Button>
+          {step === 'mapping' && (
+            <Button onClick={confirmMapping} disabled={missingRequired.length > 0}>
+              Continuar
+            </Button>
+          )}
+          {step === 'preview' && (
+            <Button onClick={handleImport} disabled={toImport.length === 0 || isImporting} icon={<Upload size={16} />}>
+              {isImporting ? 'Importando...' : `Importar ${toImport.length} registros`}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
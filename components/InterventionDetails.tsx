@@ -0,0 +1,171 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { GraftType, Implant, Laterality, Procedure, SurgeonRole, SurgicalIntervention } from '../types';
+import { emptyImplant, emptyProcedure, withSinglePrimary } from '../services/interventionModel';
+
+interface InterventionDetailsProps {
+  intervention: SurgicalIntervention;
+  onChange: (patch: Partial<SurgicalIntervention>) => void;
+}
+
+const inputClass = "w-full rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-medical-500 focus:ring-medical-500";
+const labelClass = "text-xs font-semibold text-gray-500 uppercase";
+const selectClass = "w-full mt-1 bg-transparent border-none p-0 font-medium text-medical-700 focus:ring-0 cursor-pointer";
+
+/**
+ * Editable logbook details of an intervention: laterality, procedures with codes,
+ * graft, implants and the surgeon's role.
+ */
+export const InterventionDetails: React.FC<InterventionDetailsProps> = ({ intervention, onChange }) => {
+  const { procedures, implants } = intervention;
+
+  const updateProcedure = (index: number, patch: Partial<Procedure>) =>
+    onChange({ procedures: procedures.map((p, i) => (i === index ? { ...p, ...patch } : p)) });
+
+  const removeProcedure = (index: number) =>
+    onChange({ procedures: withSinglePrimary(procedures.filter((_, i) => i !== index)) });
+
+  const updateImplant = (index: number, patch: Partial<Implant>) =>
+    onChange({ implants: implants.map((item, i) => (i === index ? { ...item, ...patch } : item)) });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="bg-slate-50 p-3 rounded-lg border border-gray-200">
+          <label className={labelClass}>Lateralidad</label>
+          <select
+            value={intervention.laterality}
+            onChange={(e) => onChange({ laterality: e.target.value as Laterality })}
+            className={selectClass}
+          >
+            {Object.values(Laterality).map(value => <option key={value} value={value}>{value}</option>)}
+          </select>
+        </div>
+        <div className="bg-slate-50 p-3 rounded-lg border border-gray-200">
+          <label className={labelClass}>Rol del cirujano</label>
+          <select
+            value={intervention.surgeonRole}
+            onChange={(e) => onChange({ surgeonRole: e.target.value as SurgeonRole })}
+            className={selectClass}
+          >
+            {Object.values(SurgeonRole).map(value => <option key={value} value={value}>{value}</option>)}
+          </select>
+        </div>
+        {intervention.isLCA && (
+          <div className="bg-slate-50 p-3 rounded-lg border border-gray-200 col-span-2">
+            <label className={labelClass}>Injerto LCA</label>
+            <select
+              value={intervention.graftType ?? ''}
+              onChange={(e) => onChange({ graftType: (e.target.value || null) as GraftType | null })}
+              className={selectClass}
+            >
+              <option value="">Sin especificar</option>
+              {Object.values(GraftType).map(value => <option key={value} value={value}>{value}</option>)}
+            </select>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-slate-50 p-4 rounded-xl border border-gray-200 space-y-3">
+        <div className="flex justify-between items-center">
+          <label className={labelClass}>Procedimientos</label>
+          <button
+            type="button"
+            onClick={() => onChange({ procedures: [...procedures, emptyProcedure(procedures.length === 0)] })}
+            className="flex items-center gap-1 text-xs font-semibold text-medical-600 hover:text-medical-700"
+          >
+            <Plus size={14} /> Añadir
+          </button>
+        </div>
+        {procedures.length === 0 && <p className="text-xs text-gray-400">Sin procedimientos detallados.</p>}
+        {procedures.map((procedure, index) => (
+          <div key={index} className="space-y-2 border-t border-gray-200 pt-3 first:border-t-0 first:pt-0">
+            <div className="flex items-center gap-2">
+              <label className="flex items-center gap-1 text-xs text-gray-600 whitespace-nowrap" title="Procedimiento principal">
+                <input
+                  type="radio"
+                  checked={procedure.isPrimary}
+                  onChange={() => onChange({ procedures: withSinglePrimary(procedures, index) })}
+                />
+                Principal
+              </label>
+              <input
+                type="text"
+                value={procedure.description}
+                onChange={(e) => updateProcedure(index, { description: e.target.value })}
+                placeholder="Descripción"
+                className={inputClass}
+              />
+              <button type="button" onClick={() => removeProcedure(index)} className="text-gray-400 hover:text-red-600" title="Quitar">
+                <Trash2 size={16} />
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                type="text"
+                value={procedure.icd10pcs}
+                onChange={(e) => updateProcedure(index, { icd10pcs: e.target.value.toUpperCase() })}
+                placeholder="ICD-10-PCS"
+                className={`${inputClass} font-mono`}
+              />
+              <input
+                type="text"
+                value={procedure.cie9mc}
+                onChange={(e) => updateProcedure(index, { cie9mc: e.target.value })}
+                placeholder="CIE-9-MC"
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-slate-50 p-4 rounded-xl border border-gray-200 space-y-3">
+        <div className="flex justify-between items-center">
+          <label className={labelClass}>Implantes</label>
+          <button
+            type="button"
+            onClick={() => onChange({ implants: [...implants, emptyImplant()] })}
+            className="flex items-center gap-1 text-xs font-semibold text-medical-600 hover:text-medical-700"
+          >
+            <Plus size={14} /> Añadir
+          </button>
+        </div>
+        {implants.length === 0 && <p className="text-xs text-gray-400">Sin implantes.</p>}
+        {implants.map((implant, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={implant.name}
+              onChange={(e) => updateImplant(index, { name: e.target.value })}
+              placeholder="Implante"
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={implant.manufacturer}
+              onChange={(e) => updateImplant(index, { manufacturer: e.target.value })}
+              placeholder="Fabricante"
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={implant.reference}
+              onChange={(e) => updateImplant(index, { reference: e.target.value })}
+              placeholder="Referencia"
+              className={`${inputClass} font-mono`}
+            />
+            <button
+              type="button"
+              onClick={() => onChange({ implants: implants.filter((_, i) => i !== index) })}
+              className="text-gray-400 hover:text-red-600"
+              title="Quitar"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Activity, AlertCircle, Loader2, Lock, ShieldCheck } from 'lucide-react';
+import { Button } from './Button';
+
+interface LockScreenProps {
+  /** "setup" asks for a new passphrase twice, "unlock" checks an existing one. */
+  mode: 'setup' | 'unlock';
+  /** Resolves to false when the passphrase is wrong. */
+  onSubmit: (passphrase: string) => Promise<boolean>;
+}
+
+export const MIN_PASSPHRASE_LENGTH = 6;
+
+const inputClass = "w-full rounded-lg border-gray-300 shadow-sm focus:border-medical-500 focus:ring-medical-500 px-4 py-2 border";
+
+export const LockScreen: React.FC<LockScreenProps> = ({ mode, onSubmit }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode === 'setup') {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`La clave debe tener al menos ${MIN_PASSPHRASE_LENGTH} caracteres.`);
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setError("Las claves no coinciden.");
+        return;
+      }
+    }
+    setIsWorking(true);
+    setError(null);
+    try {
+      if (!(await onSubmit(passphrase))) {
+        setError("Clave incorrecta.");
+        setPassphrase('');
+      }
+    } catch (err) {
+      console.error(err);
+      setError("No se pudo abrir la base de datos cifrada.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="bg-white p-8 rounded-2xl shadow-sm border border-gray-100 w-full max-w-sm space-y-5">
+        <div className="flex flex-col items-center gap-2 text-center">
+          <div className="bg-medical-600 text-white p-3 rounded-xl">
+            <Activity size={28} />
+          </div>
+          <h1 className="text-xl font-bold text-gray-900">SurgiLog AI</h1>
+          <p className="text-sm text-gray-500">
+            {mode === 'setup'
+              ? 'Cree una clave o PIN para cifrar los datos de los pacientes en este dispositivo.'
+              : 'Introduzca su clave para desbloquear los registros.'}
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 text-red-700 rounded-lg flex items-center gap-2 text-sm">
+            <AlertCircle size={16} />
+            {error}
+          </div>
+        )}
+
+        <input
+          type="password"
+          autoFocus
+          autoComplete={mode === 'setup' ? 'new-password' : 'current-password'}
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Clave o PIN"
+          className={inputClass}
+        />
+        {mode === 'setup' && (
+          <>
+            <input
+              type="password"
+              autoComplete="new-password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              placeholder="Repita la clave"
+              className={inputClass}
+            />
+            <p className="text-xs text-amber-700 bg-amber-50 p-3 rounded-lg">
+              Si olvida la clave no será posible recuperar los registros. Guárdela en un lugar seguro.
+            </p>
+          </>
+        )}
+
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={isWorking || passphrase === ''}
+          icon={isWorking ? <Loader2 className="animate-spin" size={18} /> : mode === 'setup' ? <ShieldCheck size={18} /> : <Lock size={18} />}
+        >
+          {mode === 'setup' ? 'Activar cifrado' : 'Desbloquear'}
+        </Button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { ArrowLeft, FileAudio, Pencil, Save } from 'lucide-react';
+import { Button } from './Button';
+import { Patient, PatientRecord } from '../types';
+import { UNKNOWN_HC, ValidationRules, normalizeHc, normalizePatientFields, validatePatientFields } from '../services/validation';
+
+interface PatientTimelineProps {
+  patient: Patient;
+  /** Live cases of the patient, in any order. */
+  cases: PatientRecord[];
+  rules: ValidationRules;
+  /** Resolves to false when the HC already belongs to another patient. */
+  onSave: (patient: Patient) => Promise<boolean>;
+  onEditCase: (record: PatientRecord) => void;
+  onBack: () => void;
+}
+
+const inputClass = "w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-medical-500 focus:ring-medical-500";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+const primaryProcedure = (record: PatientRecord): string | undefined =>
+  record.intervention?.procedures.find(p => p.isPrimary)?.description;
+
+/**
+ * One patient's cases in date order, with the demographics they share. Corrections made here
+ * are copied to every case of the patient; see linkPatients.
+ */
+export const PatientTimeline: React.FC<PatientTimelineProps> = ({ patient, cases, rules, onSave, onEditCase, onBack }) => {
+  const [editing, setEditing] = useState<Patient | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const timeline = [...cases].sort((a, b) => a.date.localeCompare(b.date) || a.createdAt - b.createdAt);
+
+  const handleSave = async () => {
+    if (!editing) return;
+    // A patient is defined by its HC, so it cannot be cleared here
+    if (!editing.patientName.trim() || normalizeHc(editing.clinicalHistoryId) === UNKNOWN_HC) {
+      setError("El nombre y la HC son obligatorios.");
+      return;
+    }
+    const fieldErrors = validatePatientFields(editing, rules);
+    if (fieldErrors.clinicalHistoryId || fieldErrors.phoneNumber) {
+      setError(fieldErrors.clinicalHistoryId ?? fieldErrors.phoneNumber!);
+      return;
+    }
+    setSaving(true);
+    try {
+      const saved = await onSave(normalizePatientFields({ ...editing, patientName: editing.patientName.trim() }, rules));
+      if (saved) {
+        setEditing(null);
+        setError(null);
+      } else {
+        setError(`La HC ${editing.clinicalHistoryId} ya pertenece a otro paciente.`);
+      }
+    } catch (e) {
+      console.error("Failed to update patient", e);
+      setError("No se pudieron guardar los datos del paciente.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 space-y-4">
+        <div className="flex flex-wrap justify-between items-start gap-4">
+          <div>
+            <button onClick={onBack} className="text-sm text-medical-600 hover:text-medical-800 flex items-center gap-1 mb-2">
+              <ArrowLeft size={14} /> Todos los pacientes
+            </button>
+            <h2 className="text-xl font-semibold text-gray-900">{patient.patientName}</h2>
+            <p className="text-sm text-gray-500">
+              HC {patient.clinicalHistoryId}
+              {patient.phoneNumber && ` · Tel. ${patient.phoneNumber}`}
+              {` · ${cases.length} ${cases.length === 1 ? 'intervención' : 'intervenciones'}`}
+            </p>
+          </div>
+          {!editing && (
+            <Button variant="secondary" onClick={() => setEditing(patient)} icon={<Pencil size={16} />}>
+              Editar datos
+            </Button>
+          )}
+        </div>
+
+        {editing && (
+          <div className="border-t border-gray-100 pt-4 space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <label className="text-sm text-gray-700 space-y-1">
+                <span className="font-medium">Nombre</span>
+                <input
+                  className={inputClass}
+                  value={editing.patientName}
+                  onChange={(e) => setEditing({ ...editing, patientName: e.target.value })}
+                />
+              </label>
+              <label className="text-sm text-gray-700 space-y-1">
+                <span className="font-medium">Historia clínica</span>
+                <input
+                  className={inputClass}
+                  value={editing.clinicalHistoryId}
+                  onChange={(e) => setEditing({ ...editing, clinicalHistoryId: e.target.value })}
+                />
+              </label>
+              <label className="text-sm text-gray-700 space-y-1">
+                <span className="font-medium">Teléfono</span>
+                <input
+                  className={inputClass}
+                  value={editing.phoneNumber}
+                  onChange={(e) => setEditing({ ...editing, phoneNumber: e.target.value })}
+                />
+              </label>
+            </div>
+            <p className="text-xs text-gray-500">Los cambios se aplican a todas las intervenciones del paciente, incluidas las de la papelera.</p>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex justify-end gap-2">
+              <Button variant="secondary" onClick={() => { setEditing(null); setError(null); }}>Cancelar</Button>
+              <Button onClick={handleSave} disabled={saving} icon={<Save size={16} />}>Guardar</Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <ol className="relative border-l-2 border-medical-100 ml-3 space-y-6">
+        {timeline.map((record, index) => {
+          const previous = timeline[index - 1];
+          const gap = previous ? daysBetween(previous.date, record.date) : null;
+          const primary = primaryProcedure(record);
+          return (
+            <li key={record.id} className="ml-6">
+              <span className="absolute -left-[9px] mt-5 w-4 h-4 rounded-full bg-medical-500 border-2 border-white" />
+              {gap !== null && (
+                <div className="text-xs text-gray-400 mb-1">
+                  {gap === 0 ? 'El mismo día' : `${gap} ${gap === 1 ? 'día' : 'días'} después`}
+                </div>
+              )}
+              <div className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm flex flex-wrap items-start gap-3">
+                <div className="flex-grow min-w-[200px] space-y-1">
+                  <div className="text-sm font-semibold text-gray-800 flex items-center gap-2">
+                    {record.date}
+                    {record.dictation && <FileAudio size={14} className="text-medical-500" />}
+                  </div>
+                  {record.intervention ? (
+                    <>
+                      <div className="text-xs text-gray-500">
+                        {record.intervention.region} · {record.intervention.laterality}
+                      </div>
+                      <p className="text-sm text-gray-700">{record.intervention.description}</p>
+                      {primary && <p className="text-xs text-gray-500">Procedimiento principal: {primary}</p>}
+                    </>
+                  ) : (
+                    <p className="text-sm text-gray-400">Sin intervención registrada</p>
+                  )}
+                </div>
+                <Button variant="ghost" onClick={() => onEditCase(record)} className="text-xs px-3 py-1" icon={<Pencil size={14} />}>
+                  Editar
+                </Button>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
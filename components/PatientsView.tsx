@@ -0,0 +1,116 @@
+import React, { useMemo, useState } from 'react';
+import { Search, Users } from 'lucide-react';
+import { PatientTimeline } from './PatientTimeline';
+import { Patient, PatientRecord } from '../types';
+import { normalizeText } from '../services/recordSearch';
+import { ValidationRules } from '../services/validation';
+
+interface PatientsViewProps {
+  patients: Patient[];
+  /** Live records; trashed cases are left out of the list and the timeline. */
+  records: PatientRecord[];
+  rules: ValidationRules;
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onSavePatient: (patient: Patient) => Promise<boolean>;
+  onEditCase: (record: PatientRecord) => void;
+}
+
+const inputClass = "w-full rounded-lg border border-gray-300 pl-9 pr-3 py-2 text-sm focus:border-medical-500 focus:ring-medical-500";
+
+/**
+ * Patients with at least one live case, most recently operated first, and the timeline of the
+ * selected one. Records without an HC are not grouped and do not appear here.
+ */
+export const PatientsView: React.FC<PatientsViewProps> = ({ patients, records, rules, selectedId, onSelect, onSavePatient, onEditCase }) => {
+  const [query, setQuery] = useState('');
+
+  const casesByPatient = useMemo(() => {
+    const grouped = new Map<string, PatientRecord[]>();
+    for (const record of records) {
+      if (record.patientId) grouped.set(record.patientId, [...(grouped.get(record.patientId) ?? []), record]);
+    }
+    return grouped;
+  }, [records]);
+
+  const rows = useMemo(() => {
+    const terms = normalizeText(query).split(/\s+/).filter(Boolean);
+    return patients
+      .map(patient => {
+        const cases = casesByPatient.get(patient.id) ?? [];
+        const lastDate = cases.reduce((last, record) => record.date > last ? record.date : last, '');
+        return { patient, count: cases.length, lastDate };
+      })
+      .filter(row => row.count > 0)
+      .filter(row => {
+        const haystack = normalizeText(`${row.patient.patientName} ${row.patient.clinicalHistoryId}`);
+        return terms.every(term => haystack.includes(term));
+      })
+      .sort((a, b) => b.lastDate.localeCompare(a.lastDate));
+  }, [patients, casesByPatient, query]);
+
+  const selected = patients.find(patient => patient.id === selectedId);
+  if (selected) {
+    return (
+      <PatientTimeline
+        key={selected.id}
+        patient={selected}
+        cases={casesByPatient.get(selected.id) ?? []}
+        rules={rules}
+        onSave={onSavePatient}
+        onEditCase={onEditCase}
+        onBack={() => onSelect(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <h2 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+          <Users size={20} className="text-medical-500" /> Pacientes
+        </h2>
+        <div className="relative w-full sm:w-72">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            className={inputClass}
+            placeholder="Buscar por nombre o HC"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="py-8 text-center text-sm text-gray-500">
+          {query ? 'Ningún paciente coincide con la búsqueda.' : 'Aún no hay pacientes con historia clínica registrada.'}
+        </p>
+      ) : (
+        <table className="w-full text-sm text-left text-gray-500">
+          <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+            <tr>
+              <th className="px-4 py-3">Paciente</th>
+              <th className="px-4 py-3">HC</th>
+              <th className="px-4 py-3 text-right">Intervenciones</th>
+              <th className="px-4 py-3">Última</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ patient, count, lastDate }) => (
+              <tr
+                key={patient.id}
+                onClick={() => onSelect(patient.id)}
+                className="border-b border-gray-100 hover:bg-gray-50 cursor-pointer"
+              >
+                <td className="px-4 py-3 text-gray-900 font-semibold">{patient.patientName}</td>
+                <td className="px-4 py-3">{patient.clinicalHistoryId}</td>
+                <td className="px-4 py-3 text-right">{count}</td>
+                <td className="px-4 py-3">{lastDate}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
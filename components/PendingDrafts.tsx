@@ -0,0 +1,123 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle2, Clock, FileText, Loader2, Mic, RotateCcw, Save, Trash2, WifiOff } from 'lucide-react';
+import { Button } from './Button';
+import { CaptureJob, PendingDraft, isJobStalled } from '../services/captureQueue';
+
+const KIND_LABELS: Record<CaptureJob['kind'], string> = {
+  image: 'Foto',
+  audio: 'Dictado',
+};
+
+const timeOf = (epochMs: number) =>
+  new Date(epochMs).toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+interface CaptureJobStatusProps {
+  job: CaptureJob;
+  isOnline: boolean;
+}
+
+/**
+ * One-line state of a queued capture: waiting for network, processing, backing off or stalled.
+ */
+export const CaptureJobStatus: React.FC<CaptureJobStatusProps> = ({ job, isOnline }) => {
+  const label = KIND_LABELS[job.kind];
+
+  if (isJobStalled(job)) {
+    return (
+      <span className="flex items-center gap-1 text-red-700" title={job.lastError}>
+        <AlertTriangle size={14} /> {label}: sin procesar tras {job.attempts} intentos
+      </span>
+    );
+  }
+  if (!isOnline) {
+    return (
+      <span className="flex items-center gap-1 text-amber-700">
+        <WifiOff size={14} /> {label} guardado; se procesará al recuperar la conexión
+      </span>
+    );
+  }
+  if (job.attempts > 0 && job.nextAttemptAt > Date.now()) {
+    return (
+      <span className="flex items-center gap-1 text-amber-700" title={job.lastError}>
+        <Clock size={14} /> {label}: reintento a las {timeOf(job.nextAttemptAt)}
+      </span>
+    );
+  }
+  return (
+    <span className="flex items-center gap-1 text-blue-700">
+      <Loader2 size={14} className="animate-spin" /> {label}: procesando con IA...
+    </span>
+  );
+};
+
+interface PendingDraftsProps {
+  drafts: PendingDraft[];
+  isOnline: boolean;
+  onOpen: (draft: PendingDraft) => void;
+  onRetry: (id: string) => void;
+  onDiscard: (id: string) => void;
+}
+
+/**
+ * Other patients in progress: forms set aside with "Nuevo Paciente" or recovered after a reload,
+ * and captures that are queued or already processed and waiting for review.
+ */
+export const PendingDrafts: React.FC<PendingDraftsProps> = ({ drafts, isOnline, onOpen, onRetry, onDiscard }) => (
+  <div className="bg-white rounded-2xl shadow-sm border border-amber-200 overflow-hidden">
+    <div className="px-6 py-3 bg-amber-50 border-b border-amber-200 flex items-center gap-2 text-sm font-semibold text-amber-900">
+      <Clock size={16} />
+      Borradores en curso
+      <span className="bg-amber-200 text-amber-900 text-xs py-0.5 px-2 rounded-full">{drafts.length}</span>
+    </div>
+    <ul className="divide-y divide-gray-100">
+      {drafts.map(draft => (
+        <li key={draft.id} className="px-6 py-3 flex flex-wrap items-center gap-4 text-sm">
+          <div className="min-w-[180px] flex-grow">
+            <div className="font-semibold text-gray-800">{draft.record.patientName || 'Paciente sin identificar'}</div>
+            <div className="text-xs text-gray-500">
+              Iniciado a las {timeOf(draft.createdAt)}
+              {draft.record.clinicalHistoryId && ` · HC ${draft.record.clinicalHistoryId}`}
+            </div>
+          </div>
+          <div className="flex flex-col gap-1 text-xs">
+            {draft.jobs.length === 0 ? (
+              draft.pages.length > 0 || draft.record.intervention ? (
+                <span className="flex items-center gap-1 text-emerald-700">
+                  <CheckCircle2 size={14} /> Listo para revisar
+                </span>
+              ) : (
+                <span className="flex items-center gap-1 text-gray-600">
+                  <Save size={14} /> Guardado a las {timeOf(draft.updatedAt)}
+                </span>
+              )
+            ) : (
+              draft.jobs.map(job => <CaptureJobStatus key={job.id} job={job} isOnline={isOnline} />)
+            )}
+          </div>
+          <div className="flex items-center gap-1 text-gray-400">
+            {draft.pages.length > 0 && <FileText size={14} />}
+            {draft.record.intervention && <Mic size={14} />}
+          </div>
+          <div className="flex gap-1">
+            {draft.jobs.some(isJobStalled) && (
+              <Button variant="ghost" onClick={() => onRetry(draft.id)} icon={<RotateCcw size={14} />} className="text-xs px-2 py-1">
+                Reintentar
+              </Button>
+            )}
+            <Button variant="secondary" onClick={() => onOpen(draft)} className="text-xs px-3 py-1">
+              Abrir
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={() => onDiscard(draft.id)}
+              className="text-red-500 hover:text-red-700 hover:bg-red-50 p-2 h-auto"
+              title="Descartar borrador"
+            >
+              <Trash2 size={16} />
+            </Button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
@@ -0,0 +1,326 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronLeft, ChevronRight, FileAudio, FileDown, Pencil, Search, Trash2, X } from 'lucide-react';
+import { Button } from './Button';
+import { DictationPlayer } from './DictationPlayer';
+import { BodyRegion, Laterality, PatientRecord, SurgeonRole } from '../types';
+import {
+  EMPTY_FILTERS,
+  FlagFilter,
+  RecordFilters,
+  SortKey,
+  SortOrder,
+  filterRecords,
+  hasActiveFilters,
+  sortRecords
+} from '../services/recordSearch';
+import { Taxonomy, activeFlags, getFlag } from '../services/taxonomy';
+
+interface RecordsTableProps {
+  records: PatientRecord[];
+  taxonomy: Taxonomy;
+  editingId?: string;
+  onEdit: (record: PatientRecord) => void;
+  onDelete: (id: string) => void;
+  /** Opens the timeline of the record's patient. */
+  onOpenPatient: (patientId: string) => void;
+  /** Opens the PDF case sheet options for the record. */
+  onPrint: (record: PatientRecord) => void;
+}
+
+const PAGE_SIZES = [25, 50, 100];
+
+// Built-in flags keep their familiar colours; user flags share one
+const FLAG_BADGE_CLASSES: Record<string, string> = {
+  isArthroscopic: 'bg-indigo-100 text-indigo-800',
+  isLCA: 'bg-orange-100 text-orange-800',
+  isKneeRelated: 'bg-blue-100 text-blue-800',
+};
+const CUSTOM_BADGE_CLASS = 'bg-purple-100 text-purple-800';
+
+const inputClass = "rounded-lg border border-gray-300 px-2 py-1.5 text-sm focus:border-medical-500 focus:ring-medical-500";
+
+export const RecordsTable: React.FC<RecordsTableProps> = ({ records, taxonomy, editingId, onEdit, onDelete, onOpenPatient, onPrint }) => {
+  const flags = activeFlags(taxonomy);
+  const [filters, setFilters] = useState<RecordFilters>(EMPTY_FILTERS);
+  const [order, setOrder] = useState<SortOrder>({ key: 'createdAt', direction: 'desc' });
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[0]);
+  const [page, setPage] = useState(0);
+  // Record whose original dictation is shown under its row
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const visible = useMemo(
+    () => sortRecords(filterRecords(records, filters), order),
+    [records, filters, order]
+  );
+
+  const pageCount = Math.max(1, Math.ceil(visible.length / pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = visible.slice(currentPage * pageSize, (currentPage + 1) * pageSize);
+
+  // Any change to what is shown sends the user back to the first page
+  useEffect(() => {
+    setPage(0);
+  }, [filters, order, pageSize]);
+
+  const updateFilters = (patch: Partial<RecordFilters>) => setFilters(prev => ({ ...prev, ...patch }));
+
+  const updateFlag = (flag: string, value: FlagFilter) =>
+    setFilters(prev => ({ ...prev, flags: { ...prev.flags, [flag]: value } }));
+
+  const toggleSort = (key: SortKey) => {
+    setOrder(prev => prev.key === key
+      ? { key, direction: prev.direction === 'asc' ? 'desc' : 'asc' }
+      : { key, direction: key === 'date' ? 'desc' : 'asc' });
+  };
+
+  const sortableHeader = (sortKey: SortKey, label: string) => (
+    <th className="px-6 py-3">
+      <button onClick={() => toggleSort(sortKey)} className="flex items-center gap-1 uppercase hover:text-medical-700">
+        {label}
+        {order.key !== sortKey ? (
+          <ArrowUpDown size={12} className="text-gray-400" />
+        ) : order.direction === 'asc' ? (
+          <ArrowUp size={12} />
+        ) : (
+          <ArrowDown size={12} />
+        )}
+      </button>
+    </th>
+  );
+
+  return (
+    <div>
+      {/* Filter Bar */}
+      <div className="px-6 py-4 border-b border-gray-200 space-y-3">
+        <div className="flex flex-wrap gap-2 items-center">
+          <div className="relative flex-grow min-w-[200px]">
+            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              type="search"
+              value={filters.text}
+              onChange={(e) => updateFilters({ text: e.target.value })}
+              placeholder="Buscar por paciente, HC o descripción..."
+              className={`${inputClass} w-full pl-9`}
+            />
+          </div>
+          <select
+            value={filters.region}
+            onChange={(e) => updateFilters({ region: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">Todas las regiones</option>
+            {taxonomy.regions.map(region => (
+              <option key={region} value={region}>{region}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-wrap gap-2 items-center text-sm text-gray-600">
+          {flags.map(flag => (
+            <label key={flag.id} className="flex items-center gap-1">
+              {flag.label}
+              <select
+                value={filters.flags[flag.id] ?? 'any'}
+                onChange={(e) => updateFlag(flag.id, e.target.value as FlagFilter)}
+                className={inputClass}
+              >
+                <option value="any">Todos</option>
+                <option value="yes">Sí</option>
+                <option value="no">No</option>
+              </select>
+            </label>
+          ))}
+          <label className="flex items-center gap-1">
+            Desde
+            <input type="date" value={filters.from} onChange={(e) => updateFilters({ from: e.target.value })} className={inputClass} />
+          </label>
+          <label className="flex items-center gap-1">
+            Hasta
+            <input type="date" value={filters.to} onChange={(e) => updateFilters({ to: e.target.value })} className={inputClass} />
+          </label>
+          {hasActiveFilters(filters) && (
+            <Button variant="ghost" onClick={() => setFilters(EMPTY_FILTERS)} icon={<X size={14} />} className="text-xs px-2 py-1">
+              Limpiar filtros
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left text-gray-500">
+          <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+            <tr>
+              {sortableHeader('date', 'Fecha')}
+              {sortableHeader('patientName', 'Paciente')}
+              {sortableHeader('clinicalHistoryId', 'HC')}
+              <th className="px-6 py-3">Teléfono</th>
+              {sortableHeader('region', 'Región')}
+              <th className="px-6 py-3">Detalles</th>
+              <th className="px-6 py-3">Descripción</th>
+              <th className="px-6 py-3 text-right">Acciones</th>
+            </tr>
+          </thead>
+          <tbody>
+            {pageRows.length === 0 ? (
+              <tr>
+                <td colSpan={8} className="px-6 py-8 text-center text-gray-400">
+                  {records.length === 0 ? 'No hay registros guardados aún.' : 'Ningún registro coincide con los filtros.'}
+                </td>
+              </tr>
+            ) : (
+              pageRows.map((record) => (
+                <React.Fragment key={record.id}>
+                  <tr className={`border-b hover:bg-gray-50 ${editingId === record.id ? 'bg-amber-50' : 'bg-white'}`}>
+                    <td className="px-6 py-4 font-medium text-gray-900 whitespace-nowrap">{record.date}</td>
+                    <td className="px-6 py-4 text-gray-900 font-semibold">
+                      {record.patientId ? (
+                        <button
+                          onClick={() => onOpenPatient(record.patientId!)}
+                          className="text-left hover:text-medical-700 hover:underline"
+                          title="Ver historial del paciente"
+                        >
+                          {record.patientName}
+                        </button>
+                      ) : record.patientName}
+                    </td>
+                    <td className="px-6 py-4">{record.clinicalHistoryId}</td>
+                    <td className="px-6 py-4 font-mono text-xs max-w-[150px] truncate" title={record.phoneNumber}>
+                      {record.phoneNumber || '-'}
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className={`px-2 py-1 rounded-full text-xs font-semibold ${
+                        record.intervention?.region === BodyRegion.KNEE ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-800'
+                      }`}>
+                        {record.intervention?.region}
+                      </span>
+                      {record.intervention && record.intervention.laterality !== Laterality.NOT_SPECIFIED && (
+                        <span className="block text-xs text-gray-500 mt-1">{record.intervention.laterality}</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex flex-wrap gap-2">
+                         {flags.filter(flag => getFlag(record.intervention, flag.id)).map(flag => (
+                           <span
+                             key={flag.id}
+                             className={`text-xs px-2 py-0.5 rounded ${FLAG_BADGE_CLASSES[flag.id] ?? CUSTOM_BADGE_CLASS}`}
+                           >
+                             {flag.label}
+                             {flag.id === 'isLCA' && record.intervention!.graftType && ` · ${record.intervention!.graftType}`}
+                           </span>
+                         ))}
+                         {record.intervention && record.intervention.surgeonRole !== SurgeonRole.PRIMARY && (
+                           <span className="text-xs bg-gray-100 text-gray-700 px-2 py-0.5 rounded">{record.intervention.surgeonRole}</span>
+                         )}
+                         {record.intervention && record.intervention.implants.length > 0 && (
+                           <span
+                             className="text-xs bg-emerald-100 text-emerald-800 px-2 py-0.5 rounded"
+                             title={record.intervention.implants.map(i => i.name).join(', ')}
+                           >
+                             {record.intervention.implants.length} impl.
+                           </span>
+                         )}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 max-w-xs" title={record.intervention?.description}>
+                      <div className="truncate">{record.intervention?.description}</div>
+                      {record.intervention?.procedures.map((procedure, i) => (
+                        <div key={i} className={`truncate text-xs ${procedure.isPrimary ? 'text-gray-700' : 'text-gray-400'}`}>
+                          {procedure.description}
+                          {(procedure.icd10pcs || procedure.cie9mc) && (
+                            <span className="font-mono ml-1">
+                              {[procedure.icd10pcs, procedure.cie9mc].filter(Boolean).join(' / ')}
+                            </span>
+                          )}
+                        </div>
+                      ))}
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      <div className="flex justify-end gap-1">
+                        {record.dictation && (
+                          <Button
+                            variant="ghost"
+                            onClick={() => setExpandedId(prev => (prev === record.id ? null : record.id))}
+                            className={`p-2 h-auto ${expandedId === record.id ? 'text-medical-700 bg-medical-50' : 'text-gray-500 hover:text-medical-700 hover:bg-medical-50'}`}
+                            title="Escuchar el dictado original"
+                          >
+                            <FileAudio size={18} />
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          onClick={() => onPrint(record)}
+                          className="text-gray-500 hover:text-gray-700 hover:bg-gray-100 p-2 h-auto"
+                          title="Hoja quirúrgica en PDF"
+                        >
+                          <FileDown size={18} />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          onClick={() => onEdit(record)}
+                          className="text-medical-600 hover:text-medical-700 hover:bg-medical-50 p-2 h-auto"
+                          title="Editar registro"
+                        >
+                          <Pencil size={18} />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          onClick={() => onDelete(record.id)}
+                          className="text-red-500 hover:text-red-700 hover:bg-red-50 p-2 h-auto"
+                          title="Eliminar registro"
+                        >
+                          <Trash2 size={18} />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                  {expandedId === record.id && record.dictation && (
+                    <tr className="border-b bg-slate-50">
+                      <td colSpan={8} className="px-6 py-4">
+                        <DictationPlayer dictation={record.dictation} />
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pagination */}
+      <div className="px-6 py-3 border-t border-gray-200 flex flex-wrap justify-between items-center gap-3 text-sm text-gray-600">
+        <span>
+          {visible.length === records.length
+            ? `${records.length} registros`
+            : `${visible.length} de ${records.length} registros`}
+        </span>
+        <div className="flex items-center gap-2">
+          <select value={pageSize} onChange={(e) => setPageSize(Number(e.target.value))} className={inputClass}>
+            {PAGE_SIZES.map(size => (
+              <option key={size} value={size}>{size} por página</option>
+            ))}
+          </select>
+          <Button
+            variant="ghost"
+            onClick={() => setPage(currentPage - 1)}
+            disabled={currentPage === 0}
+            className="p-2 h-auto"
+            title="Página anterior"
+          >
+            <ChevronLeft size={16} />
+          </Button>
+          <span>{currentPage + 1} / {pageCount}</span>
+          <Button
+            variant="ghost"
+            onClick={() => setPage(currentPage + 1)}
+            disabled={currentPage >= pageCount - 1}
+            className="p-2 h-auto"
+            title="Página siguiente"
+          >
+            <ChevronRight size={16} />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
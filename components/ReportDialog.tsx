@@ -0,0 +1,121 @@
+import React, { useMemo, useState } from 'react';
+import { FileDown, X } from 'lucide-react';
+import { Button } from './Button';
+import { PatientRecord } from '../types';
+import { LogbookOptions, ReportHeader } from '../services/pdfReports';
+import { filterByDateRange } from '../services/statistics';
+
+interface ReportDialogProps {
+  records: PatientRecord[];
+  /** When set, the dialog prints this case's sheet instead of the logbook. */
+  record?: PatientRecord;
+  initialHeader: ReportHeader;
+  onGenerate: (options: LogbookOptions) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-medical-500 focus:ring-medical-500";
+const dateClass = "rounded-lg border border-gray-300 px-2 py-1.5 text-sm focus:border-medical-500 focus:ring-medical-500";
+const labelClass = "block text-xs font-semibold text-gray-500 uppercase tracking-wider mb-1";
+
+/**
+ * Options for the printable PDF reports: the surgical logbook over a period, or the sheet of one case.
+ * The header is remembered for the next report.
+ */
+export const ReportDialog: React.FC<ReportDialogProps> = ({ records, record, initialHeader, onGenerate, onClose }) => {
+  const [header, setHeader] = useState<ReportHeader>(initialHeader);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [pseudonymize, setPseudonymize] = useState(false);
+
+  const count = useMemo(() => filterByDateRange(records, { from, to }).length, [records, from, to]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+            <FileDown className="text-medical-500" size={20} />
+            {record ? 'Hoja quirúrgica en PDF' : 'Libro de registro en PDF'}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700" title="Cerrar">
+            <X size={20} />
+          </button>
+        </div>
+
+        {record && (
+          <p className="text-sm text-gray-600">
+            {record.patientName} · {record.date}
+            {record.intervention && ` · ${record.intervention.region}`}
+          </p>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass}>Cirujano</label>
+            <input
+              value={header.surgeonName}
+              onChange={(e) => setHeader(prev => ({ ...prev, surgeonName: e.target.value }))}
+              placeholder="Nombre y apellidos"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Centro</label>
+            <input
+              value={header.hospital}
+              onChange={(e) => setHeader(prev => ({ ...prev, hospital: e.target.value }))}
+              placeholder="Hospital o servicio"
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        {!record && (
+          <div>
+            <div className={labelClass}>Periodo (opcional)</div>
+            <div className="flex gap-3 text-sm text-gray-600">
+              <label className="flex items-center gap-1">
+                Desde
+                <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={dateClass} />
+              </label>
+              <label className="flex items-center gap-1">
+                Hasta
+                <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={dateClass} />
+              </label>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              {count === 1 ? '1 caso' : `${count} casos`} en el periodo. Incluye totales por región, casos artroscópicos,
+              reconstrucciones de LCA y la relación detallada de casos.
+            </p>
+          </div>
+        )}
+
+        <label className="flex items-start gap-2 text-sm text-gray-700">
+          <input type="checkbox" className="mt-1" checked={pseudonymize} onChange={(e) => setPseudonymize(e.target.checked)} />
+          <span>
+            Seudonimizar pacientes
+            <span className="block text-xs text-gray-500">
+              El nombre se sustituye por un código estable (P-…) y se omiten la HC, los teléfonos y la transcripción del dictado.
+            </span>
+          </span>
+        </label>
+
+        <div className="flex justify-end gap-3">
+          <Button variant="secondary" onClick={onClose}>Cancelar</Button>
+          <Button
+            onClick={() => onGenerate({
+              header: { surgeonName: header.surgeonName.trim(), hospital: header.hospital.trim() },
+              range: { from, to },
+              pseudonymize,
+            })}
+            disabled={!record && count === 0}
+            icon={<FileDown size={16} />}
+          >
+            Descargar PDF
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { AlertCircle, CheckCircle2, KeyRound, Loader2, X } from 'lucide-react';
+import { Button } from './Button';
+import { MIN_PASSPHRASE_LENGTH } from './LockScreen';
+
+interface SecurityDialogProps {
+  autoLockMinutes: number;
+  onAutoLockChange: (minutes: number) => void;
+  /** Resolves to false when the current passphrase is wrong. */
+  onChangePassphrase: (current: string, next: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const AUTO_LOCK_OPTIONS = [1, 5, 15, 30, 0];
+
+const inputClass = "w-full rounded-lg border-gray-300 shadow-sm focus:border-medical-500 focus:ring-medical-500 px-4 py-2 border";
+
+export const SecurityDialog: React.FC<SecurityDialogProps> = ({ autoLockMinutes, onAutoLockChange, onChangePassphrase, onClose }) => {
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSuccess, setIsSuccess] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSuccess(false);
+    if (next.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`La nueva clave debe tener al menos ${MIN_PASSPHRASE_LENGTH} caracteres.`);
+      return;
+    }
+    if (next !== confirmation) {
+      setError("Las claves nuevas no coinciden.");
+      return;
+    }
+    setIsWorking(true);
+    setError(null);
+    try {
+      if (await onChangePassphrase(current, next)) {
+        setIsSuccess(true);
+        setCurrent('');
+        setNext('');
+        setConfirmation('');
+      } else {
+        setError("La clave actual no es correcta.");
+      }
+    } catch (err) {
+      console.error(err);
+      setError("No se pudo volver a cifrar la base de datos. La clave anterior sigue siendo válida.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-gray-800">Seguridad</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700" title="Cerrar">
+            <X size={20} />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600">
+          Los registros se guardan cifrados (AES-GCM) con una clave derivada de su contraseña. Sin ella no se pueden leer.
+        </p>
+
+        <label className="flex items-center justify-between gap-2 text-sm text-gray-700">
+          Bloqueo automático por inactividad
+          <select
+            value={autoLockMinutes}
+            onChange={(e) => onAutoLockChange(Number(e.target.value))}
+            className="rounded-lg border border-gray-300 px-2 py-1"
+          >
+            {AUTO_LOCK_OPTIONS.map(minutes => (
+              <option key={minutes} value={minutes}>{minutes === 0 ? 'Nunca' : `${minutes} min`}</option>
+            ))}
+          </select>
+        </label>
+
+        <form onSubmit={handleSubmit} className="space-y-3 border-t border-gray-200 pt-4">
+          <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Cambiar clave</div>
+          {error && (
+            <div className="p-3 bg-red-50 text-red-700 rounded-lg flex items-center gap-2 text-sm">
+              <AlertCircle size={16} />
+              {error}
+            </div>
+          )}
+          {isSuccess && (
+            <div className="p-3 bg-green-50 text-green-700 rounded-lg flex items-center gap-2 text-sm">
+              <CheckCircle2 size={16} />
+              Clave actualizada. Todos los registros se han vuelto a cifrar.
+            </div>
+          )}
+          <input type="password" autoComplete="current-password" value={current} onChange={(e) => setCurrent(e.target.value)} placeholder="Clave actual" className={inputClass} />
+          <input type="password" autoComplete="new-password" value={next} onChange={(e) => setNext(e.target.value)} placeholder="Nueva clave" className={inputClass} />
+          <input type="password" autoComplete="new-password" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} placeholder="Repita la nueva clave" className={inputClass} />
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={isWorking || !current || !next}
+            icon={isWorking ? <Loader2 className="animate-spin" size={18} /> : <KeyRound size={18} />}
+          >
+            {isWorking ? 'Cifrando...' : 'Cambiar clave'}
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+};
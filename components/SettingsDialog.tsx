@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import { Plus, Settings, Trash2, X } from 'lucide-react';
+import { Button } from './Button';
+import { TaxonomyEditor } from './TaxonomyEditor';
+import { AppSettings } from '../services/settingsService';
+import { ProviderConfig, ProviderKind } from '../services/extractionProvider';
+import { DEFAULT_GEMINI_MODEL } from '../services/geminiService';
+import { DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL, DEFAULT_TRANSCRIPTION_MODEL } from '../services/openAiCompatibleProvider';
+import { Taxonomy, normalizeTaxonomy } from '../services/taxonomy';
+import { HcPattern, compileHcPattern } from '../services/validation';
+
+interface SettingsDialogProps {
+  settings: AppSettings;
+  onSave: (patch: Partial<AppSettings>) => void;
+  onClose: () => void;
+}
+
+const PROVIDERS: { kind: ProviderKind; label: string; hint: string }[] = [
+  { kind: 'gemini', label: 'Google Gemini', hint: 'Usa la clave de API configurada al compilar, salvo que indique otra.' },
+  { kind: 'openai', label: 'Compatible con OpenAI', hint: 'OpenAI o un servidor local (Ollama, LM Studio, LocalAI...).' },
+  { kind: 'mock', label: 'Simulado (sin red)', hint: 'Datos de ejemplo fijos, para pruebas y demostraciones.' },
+];
+
+const DICTATION_RETENTION_OPTIONS: { days: number; label: string }[] = [
+  { days: 0, label: 'Conservar siempre' },
+  { days: 30, label: '30 días' },
+  { days: 90, label: '90 días' },
+  { days: 365, label: '1 año' },
+  { days: 5 * 365, label: '5 años' },
+];
+
+const inputClass = "w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-medical-500 focus:ring-medical-500";
+const labelClass = "block text-xs font-semibold text-gray-500 uppercase tracking-wider mb-1";
+
+export const SettingsDialog: React.FC<SettingsDialogProps> = ({ settings, onSave, onClose }) => {
+  const [provider, setProvider] = useState<ProviderConfig>(settings.provider);
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>(settings.taxonomy);
+  const [dictationRetentionDays, setDictationRetentionDays] = useState(settings.dictationRetentionDays);
+  const [hcPatterns, setHcPatterns] = useState<HcPattern[]>(settings.hcPatterns);
+  const [defaultCountryCode, setDefaultCountryCode] = useState(settings.defaultCountryCode);
+
+  const invalidPattern = hcPatterns.some(p => p.pattern.trim() !== '' && !compileHcPattern(p.pattern));
+  const invalidCountryCode = !/^[1-9]\d{0,2}$/.test(defaultCountryCode);
+
+  const update = (patch: Partial<ProviderConfig>) => setProvider(prev => ({ ...prev, ...patch }));
+
+  const updatePattern = (index: number, patch: Partial<HcPattern>) =>
+    setHcPatterns(prev => prev.map((p, i) => (i === index ? { ...p, ...patch } : p)));
+
+  const handleSave = () => {
+    if (invalidPattern || invalidCountryCode) return;
+    const next = normalizeTaxonomy(taxonomy);
+    // New flags are exported by default, like the built-in ones
+    const known = new Set(settings.taxonomy.flags.map(f => f.id));
+    const added = next.flags.filter(f => !known.has(f.id)).map(f => f.id);
+    onSave({
+      provider,
+      taxonomy: next,
+      csvColumns: [...settings.csvColumns, ...added],
+      dictationRetentionDays,
+      hcPatterns: hcPatterns
+        .map(p => ({ hospital: p.hospital.trim(), pattern: p.pattern.trim() }))
+        .filter(p => p.pattern !== ''),
+      defaultCountryCode,
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+            <Settings className="text-medical-500" size={20} />
+            Ajustes
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700" title="Cerrar">
+            <X size={20} />
+          </button>
+        </div>
+
+        <section className="space-y-3">
+          <h3 className="text-sm font-semibold text-gray-800">Proveedor de IA</h3>
+          <div className="space-y-2">
+            {PROVIDERS.map(option => (
+              <label key={option.kind} className="flex items-start gap-2 text-sm text-gray-700">
+                <input
+                  type="radio"
+                  className="mt-1"
+                  checked={provider.kind === option.kind}
+                  onChange={() => update({ kind: option.kind })}
+                />
+                <span>
+                  {option.label}
+                  <span className="block text-xs text-gray-500">{option.hint}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {provider.kind !== 'mock' && (
+            <>
+              <div>
+                <label className={labelClass}>Modelo</label>
+                <input
+                  type="text"
+                  value={provider.model}
+                  onChange={(e) => update({ model: e.target.value })}
+                  placeholder={provider.kind === 'gemini' ? DEFAULT_GEMINI_MODEL : DEFAULT_OPENAI_MODEL}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Clave de API</label>
+                <input
+                  type="password"
+                  autoComplete="off"
+                  value={provider.apiKey}
+                  onChange={(e) => update({ apiKey: e.target.value })}
+                  placeholder={provider.kind === 'gemini' ? 'Clave de la compilación' : 'Opcional en servidores locales'}
+                  className={inputClass}
+                />
+              </div>
+            </>
+          )}
+
+          {provider.kind === 'openai' && (
+            <>
+              <div>
+                <label className={labelClass}>URL base</label>
+                <input
+                  type="url"
+                  value={provider.baseUrl}
+                  onChange={(e) => update({ baseUrl: e.target.value })}
+                  placeholder={DEFAULT_OPENAI_BASE_URL}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Modelo de transcripción</label>
+                <input
+                  type="text"
+                  value={provider.transcriptionModel}
+                  onChange={(e) => update({ transcriptionModel: e.target.value })}
+                  placeholder={DEFAULT_TRANSCRIPTION_MODEL}
+                  className={inputClass}
+                />
+              </div>
+            </>
+          )}
+        </section>
+
+        <section className="space-y-3 border-t border-gray-100 pt-5">
+          <h3 className="text-sm font-semibold text-gray-800">Dictados</h3>
+          <div>
+            <label className={labelClass}>Conservar el audio</label>
+            <select
+              value={dictationRetentionDays}
+              onChange={(e) => setDictationRetentionDays(Number(e.target.value))}
+              className={inputClass}
+            >
+              {DICTATION_RETENTION_OPTIONS.map(option => (
+                <option key={option.days} value={option.days}>{option.label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              El audio de cada dictado se guarda cifrado con el registro. Pasado este plazo se elimina;
+              la transcripción literal se conserva siempre.
+            </p>
+          </div>
+        </section>
+
+        <section className="space-y-3 border-t border-gray-100 pt-5">
+          <h3 className="text-sm font-semibold text-gray-800">Validación de datos</h3>
+          <div>
+            <label className={labelClass}>Prefijo telefónico por defecto</label>
+            <div className="flex items-center gap-1">
+              <span className="text-sm text-gray-500">+</span>
+              <input
+                value={defaultCountryCode}
+                onChange={(e) => setDefaultCountryCode(e.target.value.replace(/\D/g, ''))}
+                className={`${inputClass} max-w-[6rem]`}
+                inputMode="numeric"
+              />
+            </div>
+            {invalidCountryCode && <p className="text-xs text-red-600 mt-1">Indique un prefijo de 1 a 3 cifras.</p>}
+            <p className="text-xs text-gray-500 mt-1">Se añade a los teléfonos escritos sin prefijo internacional.</p>
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>Formatos de historia clínica</label>
+            {hcPatterns.map((p, index) => (
+              <div key={index} className="flex items-start gap-2">
+                <input
+                  value={p.hospital}
+                  onChange={(e) => updatePattern(index, { hospital: e.target.value })}
+                  placeholder="Hospital"
+                  className={inputClass}
+                />
+                <div className="w-full">
+                  <input
+                    value={p.pattern}
+                    onChange={(e) => updatePattern(index, { pattern: e.target.value })}
+                    placeholder="Ej. \d{6,8}"
+                    className={`${inputClass} font-mono`}
+                  />
+                  {p.pattern.trim() !== '' && !compileHcPattern(p.pattern) && (
+                    <p className="text-xs text-red-600 mt-1">Expresión no válida.</p>
+                  )}
+                </div>
+                <button
+                  onClick={() => setHcPatterns(prev => prev.filter((_, i) => i !== index))}
+                  className="p-2 text-gray-400 hover:text-red-600"
+                  title="Quitar formato"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+            <Button
+              variant="ghost"
+              onClick={() => setHcPatterns(prev => [...prev, { hospital: '', pattern: '' }])}
+              className="text-xs px-3 py-1"
+              icon={<Plus size={14} />}
+            >
+              Añadir formato
+            </Button>
+            <p className="text-xs text-gray-500">
+              Expresión regular que debe cumplir la HC completa, sin distinguir mayúsculas. Una HC es válida si
+              cumple alguno de los formatos; sin formatos se acepta cualquiera. "S/N" siempre se admite.
+            </p>
+          </div>
+        </section>
+
+        <section className="space-y-3 border-t border-gray-100 pt-5">
+          <h3 className="text-sm font-semibold text-gray-800">Clasificación</h3>
+          <TaxonomyEditor taxonomy={taxonomy} onChange={setTaxonomy} />
+        </section>
+
+        <div className="flex justify-end gap-3">
+          <Button variant="secondary" onClick={onClose}>Cancelar</Button>
+          <Button onClick={handleSave} disabled={invalidPattern || invalidCountryCode}>Guardar</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
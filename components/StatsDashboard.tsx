@@ -0,0 +1,104 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart3, X } from 'lucide-react';
+import { Button } from './Button';
+import { BarChart } from './BarChart';
+import { PatientRecord } from '../types';
+import { DateRange, computeStatistics } from '../services/statistics';
+
+interface StatsDashboardProps {
+  records: PatientRecord[];
+  /** Region order for the per-region chart, from the taxonomy. */
+  regions: string[];
+}
+
+const inputClass = "rounded-lg border border-gray-300 px-2 py-1.5 text-sm focus:border-medical-500 focus:ring-medical-500";
+
+const StatCard: React.FC<{ label: string; value: React.ReactNode; hint?: string }> = ({ label, value, hint }) => (
+  <div className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm">
+    <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider">{label}</div>
+    <div className="text-2xl font-bold text-gray-900 mt-1">{value}</div>
+    {hint && <div className="text-xs text-gray-400 mt-1">{hint}</div>}
+  </div>
+);
+
+const ChartCard: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+    <h3 className="text-sm font-semibold text-gray-800 mb-4">{title}</h3>
+    {children}
+  </div>
+);
+
+export const StatsDashboard: React.FC<StatsDashboardProps> = ({ records, regions }) => {
+  const [range, setRange] = useState<DateRange>({ from: '', to: '' });
+  const stats = useMemo(() => computeStatistics(records, range, regions), [records, range, regions]);
+
+  const classified = stats.arthroscopic + stats.open;
+  const arthroscopicPct = classified === 0 ? 0 : Math.round((stats.arthroscopic / classified) * 100);
+  const lcaTotal = stats.lcaPerYear.reduce((sum, y) => sum + y.count, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 flex flex-wrap items-center gap-3 text-sm text-gray-600">
+        <h2 className="text-lg font-semibold text-gray-800 flex items-center gap-2 mr-auto">
+          <BarChart3 className="text-medical-500" size={20} />
+          Estadísticas
+        </h2>
+        <label className="flex items-center gap-1">
+          Desde
+          <input type="date" value={range.from} onChange={(e) => setRange(prev => ({ ...prev, from: e.target.value }))} className={inputClass} />
+        </label>
+        <label className="flex items-center gap-1">
+          Hasta
+          <input type="date" value={range.to} onChange={(e) => setRange(prev => ({ ...prev, to: e.target.value }))} className={inputClass} />
+        </label>
+        {(range.from || range.to) && (
+          <Button variant="ghost" onClick={() => setRange({ from: '', to: '' })} icon={<X size={14} />} className="text-xs px-2 py-1">
+            Todo el periodo
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <StatCard label="Casos" value={stats.total} />
+        <StatCard label="Artroscópicos" value={stats.arthroscopic} hint={`${arthroscopicPct}% del total clasificado`} />
+        <StatCard label="Abiertos" value={stats.open} hint={`${classified === 0 ? 0 : 100 - arthroscopicPct}% del total clasificado`} />
+        <StatCard label="Reconstrucciones LCA" value={lcaTotal} />
+      </div>
+
+      <ChartCard title="Casos por mes">
+        <BarChart data={stats.perMonth} />
+      </ChartCard>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <ChartCard title="Casos por región">
+          <BarChart data={stats.perRegion} barClassName="fill-blue-500" slotWidth={64} />
+        </ChartCard>
+
+        <ChartCard title="Reconstrucciones LCA por año">
+          <BarChart data={stats.lcaPerYear} barClassName="fill-orange-500" />
+        </ChartCard>
+      </div>
+
+      <ChartCard title="Artroscopia vs. cirugía abierta">
+        {classified === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-8">Sin datos para el periodo seleccionado.</p>
+        ) : (
+          <div>
+            <div className="flex h-6 rounded-full overflow-hidden bg-gray-100">
+              <div className="bg-indigo-600" style={{ width: `${arthroscopicPct}%` }} title={`Artroscopia: ${stats.arthroscopic}`} />
+              <div className="bg-slate-400 flex-grow" title={`Abierta: ${stats.open}`} />
+            </div>
+            <div className="flex justify-between text-xs text-gray-600 mt-2">
+              <span className="flex items-center gap-1">
+                <span className="w-2 h-2 rounded-full bg-indigo-600" /> Artroscopia {stats.arthroscopic} ({arthroscopicPct}%)
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="w-2 h-2 rounded-full bg-slate-400" /> Abierta {stats.open} ({100 - arthroscopicPct}%)
+              </span>
+            </div>
+          </div>
+        )}
+      </ChartCard>
+    </div>
+  );
+};
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { FALLBACK_REGION, FlagDefinition, Taxonomy, customFlagId, isBuiltInFlag } from '../services/taxonomy';
+
+interface TaxonomyEditorProps {
+  taxonomy: Taxonomy;
+  onChange: (taxonomy: Taxonomy) => void;
+}
+
+const inputClass = "w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-medical-500 focus:ring-medical-500";
+const labelClass = "block text-xs font-semibold text-gray-500 uppercase tracking-wider mb-1";
+
+/**
+ * Edits body regions and classification flags. Built-in flags can be renamed or
+ * disabled but not removed, since statistics rely on them.
+ */
+export const TaxonomyEditor: React.FC<TaxonomyEditorProps> = ({ taxonomy, onChange }) => {
+  const [newRegion, setNewRegion] = useState('');
+  const [newFlag, setNewFlag] = useState('');
+
+  const addRegion = () => {
+    const region = newRegion.trim();
+    if (!region || taxonomy.regions.includes(region)) return;
+    // Keep the fallback region last
+    const others = taxonomy.regions.filter(r => r !== FALLBACK_REGION);
+    onChange({ ...taxonomy, regions: [...others, region, FALLBACK_REGION] });
+    setNewRegion('');
+  };
+
+  const renameRegion = (index: number, value: string) =>
+    onChange({ ...taxonomy, regions: taxonomy.regions.map((r, i) => (i === index ? value : r)) });
+
+  const removeRegion = (index: number) =>
+    onChange({ ...taxonomy, regions: taxonomy.regions.filter((_, i) => i !== index) });
+
+  const updateFlag = (id: string, patch: Partial<FlagDefinition>) =>
+    onChange({ ...taxonomy, flags: taxonomy.flags.map(f => (f.id === id ? { ...f, ...patch } : f)) });
+
+  const addFlag = () => {
+    const label = newFlag.trim();
+    if (!label) return;
+    const flag: FlagDefinition = { id: customFlagId(label, taxonomy.flags), label, description: '', enabled: true };
+    onChange({ ...taxonomy, flags: [...taxonomy.flags, flag] });
+    setNewFlag('');
+  };
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <label className={labelClass}>Regiones</label>
+        <p className="text-xs text-gray-500 mb-2">
+          Los registros guardan el nombre de la región: renombrar una no cambia los casos ya guardados.
+        </p>
+        <div className="space-y-2">
+          {taxonomy.regions.map((region, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={region}
+                onChange={(e) => renameRegion(index, e.target.value)}
+                disabled={region === FALLBACK_REGION}
+                className={`${inputClass} disabled:bg-gray-50 disabled:text-gray-500`}
+              />
+              <button
+                type="button"
+                onClick={() => removeRegion(index)}
+                disabled={region === FALLBACK_REGION}
+                className="text-gray-400 hover:text-red-600 disabled:invisible"
+                title="Quitar región"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={newRegion}
+              onChange={(e) => setNewRegion(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addRegion()}
+              placeholder="Nueva región, p. ej. Columna"
+              className={inputClass}
+            />
+            <button type="button" onClick={addRegion} className="text-medical-600 hover:text-medical-700" title="Añadir región">
+              <Plus size={18} />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>Características</label>
+        <p className="text-xs text-gray-500 mb-2">
+          Cada característica es un botón sí/no en el formulario, una etiqueta en la tabla y una columna del CSV.
+          La descripción indica a la IA cuándo marcarla.
+        </p>
+        <div className="space-y-3">
+          {taxonomy.flags.map(flag => (
+            <div key={flag.id} className="rounded-lg border border-gray-200 p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={flag.enabled}
+                  onChange={(e) => updateFlag(flag.id, { enabled: e.target.checked })}
+                  title="Activa"
+                />
+                <input
+                  type="text"
+                  value={flag.label}
+                  onChange={(e) => updateFlag(flag.id, { label: e.target.value })}
+                  className={inputClass}
+                />
+                {!isBuiltInFlag(flag.id) && (
+                  <button
+                    type="button"
+                    onClick={() => onChange({ ...taxonomy, flags: taxonomy.flags.filter(f => f.id !== flag.id) })}
+                    className="text-gray-400 hover:text-red-600"
+                    title="Quitar característica"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                )}
+              </div>
+              <input
+                type="text"
+                value={flag.description}
+                onChange={(e) => updateFlag(flag.id, { description: e.target.value })}
+                placeholder="Cuándo aplica, p. ej. Se implanta una prótesis articular."
+                className={`${inputClass} text-xs`}
+              />
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={newFlag}
+              onChange={(e) => setNewFlag(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addFlag()}
+              placeholder="Nueva característica, p. ej. Prótesis"
+              className={inputClass}
+            />
+            <button type="button" onClick={addFlag} className="text-medical-600 hover:text-medical-700" title="Añadir característica">
+              <Plus size={18} />
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React from 'react';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from './Button';
+import { PatientRecord } from '../types';
+
+interface TrashBinProps {
+  records: PatientRecord[];
+  retentionDays: number;
+  onRetentionChange: (days: number) => void;
+  onRestore: (id: string) => void;
+  onPurge: (id: string) => void;
+  onEmpty: () => void;
+}
+
+const RETENTION_OPTIONS = [7, 30, 90, 365];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TrashBin: React.FC<TrashBinProps> = ({ records, retentionDays, onRetentionChange, onRestore, onPurge, onEmpty }) => {
+  const daysLeft = (record: PatientRecord) =>
+    Math.max(0, Math.ceil((record.deletedAt! + retentionDays * DAY_MS - Date.now()) / DAY_MS));
+
+  return (
+    <div>
+      <div className="px-6 py-3 border-b border-gray-200 flex flex-wrap justify-between items-center gap-3 text-sm">
+        <label className="flex items-center gap-2 text-gray-600">
+          Eliminar definitivamente tras
+          <select
+            value={retentionDays}
+            onChange={(e) => onRetentionChange(Number(e.target.value))}
+            className="rounded-lg border border-gray-300 px-2 py-1"
+          >
+            {RETENTION_OPTIONS.map(days => (
+              <option key={days} value={days}>{days} días</option>
+            ))}
+          </select>
+        </label>
+        <Button
+          variant="ghost"
+          onClick={onEmpty}
+          disabled={records.length === 0}
+          className="text-red-600 hover:bg-red-50"
+          icon={<Trash2 size={16} />}
+        >
+          Vaciar Papelera
+        </Button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left text-gray-500">
+          <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+            <tr>
+              <th className="px-6 py-3">Fecha</th>
+              <th className="px-6 py-3">Paciente</th>
+              <th className="px-6 py-3">HC</th>
+              <th className="px-6 py-3">Descripción</th>
+              <th className="px-6 py-3">Se elimina en</th>
+              <th className="px-6 py-3 text-right">Acciones</th>
+            </tr>
+          </thead>
+          <tbody>
+            {records.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-6 py-8 text-center text-gray-400">
+                  La papelera está vacía.
+                </td>
+              </tr>
+            ) : (
+              records.map((record) => (
+                <tr key={record.id} className="bg-white border-b hover:bg-gray-50">
+                  <td className="px-6 py-4 font-medium text-gray-900 whitespace-nowrap">{record.date}</td>
+                  <td className="px-6 py-4 text-gray-900 font-semibold">{record.patientName}</td>
+                  <td className="px-6 py-4">{record.clinicalHistoryId}</td>
+                  <td className="px-6 py-4 max-w-xs truncate" title={record.intervention?.description}>
+                    {record.intervention?.description}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">{daysLeft(record)} días</td>
+                  <td className="px-6 py-4 text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        onClick={() => onRestore(record.id)}
+                        className="text-medical-600 hover:text-medical-700 hover:bg-medical-50 p-2 h-auto"
+                        title="Restaurar registro"
+                      >
+                        <RotateCcw size={18} />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        onClick={() => onPurge(record.id)}
+                        className="text-red-500 hover:text-red-700 hover:bg-red-50 p-2 h-auto"
+                        title="Eliminar definitivamente"
+                      >
+                        <Trash2 size={18} />
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,32 @@
+import React, { useEffect } from 'react';
+import { Undo2, X } from 'lucide-react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  durationMs?: number;
+}
+
+export const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss, durationMs = 6000 }) => {
+  // Restart the countdown whenever a new message is shown
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, durationMs);
+    return () => window.clearTimeout(timer);
+  }, [message, onDismiss, durationMs]);
+
+  return (
+    <div className="fixed bottom-24 left-1/2 -translate-x-1/2 z-50 bg-gray-900 text-white rounded-xl shadow-lg px-4 py-3 flex items-center gap-4 animate-in fade-in slide-in-from-bottom-4">
+      <span className="text-sm">{message}</span>
+      <button
+        onClick={onUndo}
+        className="flex items-center gap-1 text-sm font-semibold text-medical-100 hover:text-white"
+      >
+        <Undo2 size={16} /> Deshacer
+      </button>
+      <button onClick={onDismiss} className="text-gray-400 hover:text-white" title="Cerrar">
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
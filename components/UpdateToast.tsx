@@ -0,0 +1,26 @@
+import React from 'react';
+import { RefreshCw, X } from 'lucide-react';
+
+interface UpdateToastProps {
+  onUpdate: () => void;
+  onDismiss: () => void;
+}
+
+/**
+ * Offers to reload into a newly deployed version. Stays until the user acts,
+ * so an update never interrupts a case being entered.
+ */
+export const UpdateToast: React.FC<UpdateToastProps> = ({ onUpdate, onDismiss }) => (
+  <div className="fixed bottom-24 left-1/2 -translate-x-1/2 z-50 bg-gray-900 text-white rounded-xl shadow-lg px-4 py-3 flex items-center gap-4 animate-in fade-in slide-in-from-bottom-4">
+    <span className="text-sm">Hay una nueva versión de SurgiLog disponible.</span>
+    <button
+      onClick={onUpdate}
+      className="flex items-center gap-1 text-sm font-semibold text-medical-100 hover:text-white"
+    >
+      <RefreshCw size={16} /> Actualizar
+    </button>
+    <button onClick={onDismiss} className="text-gray-400 hover:text-white" title="Más tarde">
+      <X size={16} />
+    </button>
+  </div>
+);
@@ -0,0 +1,59 @@
+/* Service worker template. The Vite build fills in the build id and the list of
+ * bundled files and emits it as /sw.js (see vite.config.ts). */
+const BUILD_ID = __BUILD_ID__;
+const PRECACHE_URLS = __PRECACHE_URLS__;
+
+const SHELL_CACHE = `surgilog-shell-${BUILD_ID}`;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then(cache => cache.addAll(PRECACHE_URLS)));
+  // The new version waits until the page asks to activate it, so a case being
+  // entered is never reloaded out from under the user.
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        // Older versions also kept CDN styles and fonts in 'surgilog-cdn'; they are bundled now
+        keys.filter(key => key.startsWith('surgilog-') && key !== SHELL_CACHE).map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) (await caches.open(SHELL_CACHE)).put(request, response.clone());
+  return response;
+};
+
+// Pages always load the app shell: from the network when possible, otherwise from the cache
+const networkFirstPage = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) (await caches.open(SHELL_CACHE)).put('/', response.clone());
+    return response;
+  } catch {
+    return (await caches.match('/')) || Response.error();
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  // AI provider calls are POSTs and must never be served from a cache
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate' && url.origin === self.location.origin) {
+    event.respondWith(networkFirstPage(request));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(cacheFirst(request));
+  }
+});
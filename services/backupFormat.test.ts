@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { buildBackup, validateBackup } from './backupFormat';
+import { DEFAULT_SETTINGS } from './settingsService';
+
+describe('buildBackup', () => {
+  it('leaves the AI provider and its API key out of the file', () => {
+    const settings = {
+      ...DEFAULT_SETTINGS,
+      provider: { ...DEFAULT_SETTINGS.provider, baseUrl: 'https://llm.example.org/v1', apiKey: 'sk-secreto-123' },
+    };
+    const backup = buildBackup([], settings);
+    const text = JSON.stringify(backup);
+    expect(backup.settings).not.toHaveProperty('provider');
+    expect(text).not.toContain('sk-secreto-123');
+    expect(text).not.toContain('llm.example.org');
+    expect(backup.settings?.trashRetentionDays).toBe(DEFAULT_SETTINGS.trashRetentionDays);
+    expect(validateBackup(JSON.parse(text))).toEqual(backup);
+  });
+});
@@ -0,0 +1,59 @@
+import { PatientRecord } from "../types";
+import { AppSettings } from "./settingsService";
+
+export const BACKUP_FORMAT = "surgilog-backup";
+// v1: records only. v2: adds app settings.
+export const BACKUP_VERSION = 2;
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string; // ISO timestamp
+  records: PatientRecord[];
+  settings?: BackupSettings;
+}
+
+/** Settings carried in a backup: everything but the AI provider, whose endpoint and API key stay on the device. */
+export type BackupSettings = Omit<AppSettings, "provider">;
+
+export const buildBackup = (records: PatientRecord[], settings: AppSettings): BackupFile => {
+  const { provider: _provider, ...portable } = settings;
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    records,
+    settings: portable,
+  };
+};
+
+/**
+ * Parses a JSON backup and checks its envelope. The records themselves are
+ * validated later, one by one, by the importer.
+ */
+export const parseBackup = (text: string): BackupFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("El archivo no es un JSON válido.");
+  }
+  return validateBackup(data);
+};
+
+/**
+ * Checks the envelope of an already-parsed backup object.
+ */
+export const validateBackup = (data: unknown): BackupFile => {
+  const backup = data as Partial<BackupFile> | null;
+  if (!backup || backup.format !== BACKUP_FORMAT) {
+    throw new Error("El archivo no es una copia de seguridad de SurgiLog.");
+  }
+  if (typeof backup.version !== "number" || backup.version > BACKUP_VERSION) {
+    throw new Error(`Versión de copia no compatible (${backup.version}). Actualice la aplicación.`);
+  }
+  if (!Array.isArray(backup.records)) {
+    throw new Error("La copia de seguridad no contiene registros.");
+  }
+  return backup as BackupFile;
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { PatientRecord } from '../types';
+import { planRestore } from './backupRestore';
+
+const record = (id: string, overrides: Partial<PatientRecord> = {}): PatientRecord => ({
+  id,
+  patientName: `Paciente ${id}`,
+  clinicalHistoryId: `HC${id}`,
+  date: '2024-01-10',
+  intervention: null,
+  createdAt: 1_000,
+  ...overrides,
+});
+
+describe('planRestore', () => {
+  it('merges by keeping whichever copy was modified last', () => {
+    const current = [record('a', { updatedAt: 5_000 }), record('b', { updatedAt: 2_000 }), record('c')];
+    const incoming = [
+      record('a', { patientName: 'Antiguo', updatedAt: 3_000 }),
+      record('b', { patientName: 'Nuevo', updatedAt: 4_000 }),
+      record('c'),
+      record('d'),
+    ];
+    const plan = planRestore(current, incoming, 'merge');
+    expect(plan.added.map(r => r.id)).toEqual(['d']);
+    expect(plan.updated.map(r => r.patientName)).toEqual(['Nuevo']);
+    expect(plan.unchanged).toBe(2);
+    expect(plan.removed).toEqual([]);
+    expect(plan.toWrite.map(r => r.id)).toEqual(['d', 'b']);
+  });
+
+  it('counts a later trash or restore as a modification', () => {
+    const current = [record('a', { updatedAt: 2_000 })];
+    const plan = planRestore(current, [record('a', { updatedAt: 2_000, deletedAt: 3_000 })], 'merge');
+    expect(plan.updated.map(r => r.deletedAt)).toEqual([3_000]);
+  });
+
+  it('makes the backup authoritative when replacing and trashes only live records it lacks', () => {
+    const current = [record('a', { updatedAt: 9_000 }), record('b'), record('t', { deletedAt: 2_000 })];
+    const incoming = [record('a', { patientName: 'Antiguo' })];
+    const plan = planRestore(current, incoming, 'replace');
+    expect(plan.updated.map(r => r.patientName)).toEqual(['Antiguo']);
+    expect(plan.removed.map(r => r.id)).toEqual(['b']);
+    expect(plan.toWrite).toEqual(incoming);
+  });
+
+  it('skips entries that are not records', () => {
+    const plan = planRestore([], [record('a'), null, { id: 'x' }, 'texto'], 'merge');
+    expect(plan.invalid).toBe(3);
+    expect(plan.added.map(r => r.id)).toEqual(['a']);
+  });
+});
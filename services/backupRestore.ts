@@ -0,0 +1,64 @@
+import { PatientRecord } from "../types";
+import { ImportMode } from "./recordImport";
+
+export interface RestorePlan {
+  added: PatientRecord[];
+  updated: PatientRecord[];
+  unchanged: number;
+  /** Live records that are not in the backup; only "replace" moves them to the trash bin. */
+  removed: PatientRecord[];
+  /** Backup entries that do not look like a PatientRecord and will be skipped. */
+  invalid: number;
+  /** What to hand to `importRecords`. */
+  toWrite: PatientRecord[];
+}
+
+const isPatientRecord = (value: unknown): value is PatientRecord => {
+  const r = value as PatientRecord | null;
+  if (!r || typeof r !== "object") return false;
+  if (typeof r.id !== "string" || typeof r.patientName !== "string" || typeof r.date !== "string") return false;
+  if (typeof r.clinicalHistoryId !== "string" || typeof r.createdAt !== "number") return false;
+  if (r.intervention === null) return true;
+  return typeof r.intervention === "object"
+    && typeof r.intervention.description === "string"
+    && typeof r.intervention.region === "string";
+};
+
+const lastModified = (record: PatientRecord): number =>
+  Math.max(record.updatedAt ?? 0, record.deletedAt ?? 0, record.createdAt);
+
+/**
+ * Works out what restoring `incoming` over `current` would change.
+ * Merging keeps whichever copy of a record was modified last; replacing makes the backup authoritative.
+ */
+export const planRestore = (current: PatientRecord[], incoming: unknown[], mode: ImportMode): RestorePlan => {
+  const valid = incoming.filter(isPatientRecord);
+  const byId = new Map(current.map(r => [r.id, r]));
+  const incomingIds = new Set(valid.map(r => r.id));
+
+  const added: PatientRecord[] = [];
+  const updated: PatientRecord[] = [];
+  let unchanged = 0;
+  for (const record of valid) {
+    const local = byId.get(record.id);
+    if (!local) {
+      added.push(record);
+    } else if (JSON.stringify(local) === JSON.stringify(record)) {
+      unchanged++;
+    } else if (mode === 'replace' || lastModified(record) > lastModified(local)) {
+      updated.push(record);
+    } else {
+      unchanged++;
+    }
+  }
+
+  return {
+    added,
+    updated,
+    unchanged,
+    removed: mode === 'replace' ? current.filter(r => !incomingIds.has(r.id) && r.deletedAt === undefined) : [],
+    invalid: incoming.length - valid.length,
+    // Replacing trashes every live record missing from the written set, so the whole backup is written
+    toWrite: mode === 'replace' ? valid : [...added, ...updated],
+  };
+};
@@ -0,0 +1,223 @@
+import { ExtractionReview, REVIEWED_FIELDS, ReviewedField } from "./extractionReview";
+import { normalizeText } from "./recordSearch";
+
+/** Symbologies used on wristbands and admission labels. */
+export const SCAN_FORMATS = ['code_128', 'qr_code', 'data_matrix'] as const;
+
+export type ScanFormat = typeof SCAN_FORMATS[number];
+
+export interface ScannedCode {
+  format: ScanFormat;
+  rawValue: string;
+}
+
+/**
+ * Fields decoded from one or more codes. Decoding is exact, so these take precedence
+ * over the AI reading of the printed text.
+ */
+export interface ScanResult {
+  fields: Partial<Record<ReviewedField, string>>;
+  codes: ScannedCode[];
+}
+
+export const FORMAT_LABELS: Record<ScanFormat, string> = {
+  code_128: 'Código de barras',
+  qr_code: 'Código QR',
+  data_matrix: 'DataMatrix',
+};
+
+// Shape Detection API; not in the DOM typings yet
+interface DetectedBarcode {
+  format: string;
+  rawValue: string;
+}
+interface BarcodeDetectorInstance {
+  detect(source: ImageBitmapSource): Promise<DetectedBarcode[]>;
+}
+interface BarcodeDetectorClass {
+  new (options: { formats: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+const detectorClass = (): BarcodeDetectorClass | undefined =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorClass }).BarcodeDetector;
+
+let detector: Promise<BarcodeDetectorInstance | null> | null = null;
+
+// Frames are scaled down before the JS decoder runs; labels stay readable and decoding stays fast
+const FALLBACK_MAX_SIDE = 1280;
+
+/**
+ * ZXing decoder for browsers without a built-in detector (Safari on iOS, Firefox, Chrome on
+ * Windows). Loaded on first use so the rest of the app does not carry it.
+ */
+const loadFallbackDetector = async (): Promise<BarcodeDetectorInstance> => {
+  const {
+    BarcodeFormat, BinaryBitmap, ChecksumException, DecodeHintType, FormatException,
+    HybridBinarizer, MultiFormatReader, NotFoundException, RGBLuminanceSource,
+  } = await import('@zxing/library');
+  const formats = new Map<number, ScanFormat>([
+    [BarcodeFormat.CODE_128, 'code_128'],
+    [BarcodeFormat.QR_CODE, 'qr_code'],
+    [BarcodeFormat.DATA_MATRIX, 'data_matrix'],
+  ]);
+  const reader = new MultiFormatReader();
+  reader.setHints(new Map<number, unknown>([
+    [DecodeHintType.POSSIBLE_FORMATS, [...formats.keys()]],
+    [DecodeHintType.TRY_HARDER, true],
+  ]));
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d', { willReadFrequently: true })!;
+
+  return {
+    detect: async (source) => {
+      const bitmap = await createImageBitmap(source);
+      const scale = Math.min(1, FALLBACK_MAX_SIDE / Math.max(bitmap.width, bitmap.height));
+      canvas.width = Math.round(bitmap.width * scale);
+      canvas.height = Math.round(bitmap.height * scale);
+      context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+      bitmap.close();
+      const { data, width, height } = context.getImageData(0, 0, canvas.width, canvas.height);
+      const luminances = new Uint8ClampedArray(width * height);
+      for (let i = 0; i < luminances.length; i++) {
+        luminances[i] = (data[i * 4] + 2 * data[i * 4 + 1] + data[i * 4 + 2]) >> 2;
+      }
+      try {
+        const result = reader.decodeWithState(new BinaryBitmap(new HybridBinarizer(new RGBLuminanceSource(luminances, width, height))));
+        const format = formats.get(result.getBarcodeFormat());
+        return format ? [{ format, rawValue: result.getText() }] : [];
+      } catch (e) {
+        // Nothing readable in this frame
+        if (e instanceof NotFoundException || e instanceof ChecksumException || e instanceof FormatException) return [];
+        throw e;
+      }
+    },
+  };
+};
+
+/**
+ * The browser's built-in detector when it reads every format we need, otherwise the bundled
+ * ZXing decoder. Null only if neither can run. Decoding never leaves the device.
+ */
+const getDetector = (): Promise<BarcodeDetectorInstance | null> => {
+  detector ??= (async () => {
+    const Detector = detectorClass();
+    if (Detector) {
+      const supported = await Detector.getSupportedFormats().catch(() => [] as string[]);
+      if (SCAN_FORMATS.every(format => supported.includes(format))) return new Detector({ formats: [...SCAN_FORMATS] });
+    }
+    return loadFallbackDetector();
+  })().catch(e => {
+    console.error("Barcode decoder unavailable", e);
+    return null;
+  });
+  return detector;
+};
+
+export const isScanningSupported = async (): Promise<boolean> => (await getDetector()) !== null;
+
+export const detectCodes = async (source: ImageBitmapSource): Promise<ScannedCode[]> => {
+  const instance = await getDetector();
+  if (!instance) return [];
+  const found = await instance.detect(source);
+  return found
+    .filter((code): code is ScannedCode => (SCAN_FORMATS as readonly string[]).includes(code.format) && !!code.rawValue.trim())
+    .map(code => ({ format: code.format, rawValue: code.rawValue.trim() }));
+};
+
+// Keys seen in label payloads, normalized without accents
+const KEY_SYNONYMS: Record<string, ReviewedField> = {
+  'hc': 'clinicalHistoryId',
+  'nhc': 'clinicalHistoryId',
+  'historia': 'clinicalHistoryId',
+  'historia clinica': 'clinicalHistoryId',
+  'mrn': 'clinicalHistoryId',
+  'clinicalhistoryid': 'clinicalHistoryId',
+  'nombre': 'patientName',
+  'paciente': 'patientName',
+  'name': 'patientName',
+  'patientname': 'patientName',
+  'telefono': 'phoneNumber',
+  'tel': 'phoneNumber',
+  'movil': 'phoneNumber',
+  'phone': 'phoneNumber',
+  'phonenumber': 'phoneNumber',
+};
+
+const fieldForKey = (key: string): ReviewedField | undefined =>
+  KEY_SYNONYMS[normalizeText(key.trim()).replace(/[._-]+/g, ' ')];
+
+const parseJson = (text: string): Record<string, unknown> | null => {
+  if (!text.startsWith('{')) return null;
+  try {
+    const data = JSON.parse(text);
+    return typeof data === 'object' && data !== null ? data : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Reads the fields carried by one code. Understands JSON objects, "KEY:value" or "KEY=value"
+ * pairs separated by ";", "|", "&" or new lines, and otherwise takes the whole value as the HC,
+ * which is what most wristband barcodes encode.
+ */
+export const parseScannedValue = (rawValue: string): ScanResult['fields'] => {
+  const text = rawValue.trim();
+  const fields: ScanResult['fields'] = {};
+
+  const json = parseJson(text);
+  const pairs: [string, string][] = json
+    ? Object.entries(json).map(([key, value]) => [key, String(value ?? '')])
+    : text.split(/[;|&\n]/).map(part => part.match(/^\s*([^:=]+?)\s*[:=]\s*(.*)$/)).filter(Boolean).map(m => [m![1], m![2]]);
+
+  for (const [key, value] of pairs) {
+    const field = fieldForKey(key);
+    if (field && value.trim() && !fields[field]) fields[field] = value.trim();
+  }
+  if (!json && pairs.length === 0 && /^[A-Za-z0-9-]+$/.test(text)) {
+    fields.clinicalHistoryId = text;
+  }
+  return fields;
+};
+
+/**
+ * Combines several codes (e.g. a wristband barcode and a label QR); the first value per field wins.
+ */
+export const buildScanResult = (codes: ScannedCode[]): ScanResult => {
+  const fields: ScanResult['fields'] = {};
+  for (const code of codes) {
+    for (const [field, value] of Object.entries(parseScannedValue(code.rawValue)) as [ReviewedField, string][]) {
+      fields[field] ??= value;
+    }
+  }
+  return { fields, codes };
+};
+
+const comparable = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const valuesMatch = (a: string, b: string): boolean => comparable(a) === comparable(b);
+
+/**
+ * Fields where the code and the AI reading disagree and the user has not decided yet.
+ */
+export const scanConflicts = (scan: ScanResult | null | undefined, review: ExtractionReview): ReviewedField[] =>
+  REVIEWED_FIELDS.filter(field => {
+    const scanned = scan?.fields[field];
+    const extracted = review[field];
+    return !!scanned && !!extracted?.value && !extracted.confirmed && !valuesMatch(scanned, extracted.value);
+  });
+
+/**
+ * Scanned fields need no review when the AI agrees or read nothing; a disagreement must be resolved.
+ */
+export const reconcileReview = (review: ExtractionReview, scan: ScanResult | null | undefined): ExtractionReview => {
+  const next = { ...review };
+  for (const field of REVIEWED_FIELDS) {
+    const scanned = scan?.fields[field];
+    const extracted = next[field];
+    if (!scanned || !extracted) continue;
+    next[field] = { ...extracted, confirmed: !extracted.value || valuesMatch(scanned, extracted.value) };
+  }
+  return next;
+};
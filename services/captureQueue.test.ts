@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { Laterality, PatientRecord, SurgicalIntervention } from '../types';
+import {
+  CaptureJob,
+  DraftContent,
+  JobResult,
+  MAX_ATTEMPTS,
+  PendingDraft,
+  applyJobResult,
+  hasDraftContent,
+  nextAttemptDelay,
+  retryDelayMs,
+} from './captureQueue';
+
+const job = (id: string, overrides: Partial<CaptureJob> = {}): CaptureJob => ({
+  id,
+  kind: 'audio',
+  files: [{ base64: `audio-${id}`, mimeType: 'audio/webm' }],
+  createdAt: 0,
+  attempts: 0,
+  nextAttemptAt: 0,
+  ...overrides,
+});
+
+const draft = (jobs: CaptureJob[], record: Partial<PatientRecord> = {}): PendingDraft => ({
+  id: 'd1',
+  record,
+  review: {},
+  pages: [],
+  jobs,
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+const content = (record: Partial<PatientRecord> = {}): DraftContent => ({ record, review: {}, pages: [] });
+
+const audioResult: JobResult = {
+  kind: 'audio',
+  data: { description: 'Meniscectomía', region: 'Rodilla', laterality: Laterality.LEFT } as SurgicalIntervention,
+  dictation: { audioId: 'a1', mimeType: 'audio/webm', transcript: 'texto', recordedAt: 1 },
+};
+
+describe('retryDelayMs', () => {
+  it('doubles from five seconds and stops at five minutes', () => {
+    expect([1, 2, 3, 4].map(retryDelayMs)).toEqual([5_000, 10_000, 20_000, 40_000]);
+    expect(retryDelayMs(MAX_ATTEMPTS + 10)).toBe(5 * 60_000);
+  });
+});
+
+describe('nextAttemptDelay', () => {
+  it('is null when nothing is waiting, counting stalled jobs as waiting for the user', () => {
+    expect(nextAttemptDelay([], 0)).toBeNull();
+    expect(nextAttemptDelay([draft([job('1', { attempts: MAX_ATTEMPTS })])], 0)).toBeNull();
+  });
+
+  it('is the time until the earliest due job, and never negative', () => {
+    const drafts = [draft([job('1', { nextAttemptAt: 9_000 })]), draft([job('2', { nextAttemptAt: 4_000 })])];
+    expect(nextAttemptDelay(drafts, 1_000)).toBe(3_000);
+    expect(nextAttemptDelay(drafts, 5_000)).toBe(0);
+  });
+});
+
+describe('applyJobResult', () => {
+  it('fills the dictated intervention and drops the finished job', () => {
+    const pending = job('1');
+    const updated = applyJobResult(draft([pending, job('2', { kind: 'image' })], { patientName: 'Ana' }), pending, audioResult);
+    expect(updated?.jobs.map(j => j.id)).toEqual(['2']);
+    expect(updated?.record).toEqual({ patientName: 'Ana', intervention: audioResult.data, dictation: audioResult.dictation });
+  });
+
+  it('drops the result of a job that was replaced or cancelled while it ran', () => {
+    const running = job('1');
+    expect(applyJobResult(draft([job('3')]), running, audioResult)).toBeNull();
+    expect(applyJobResult(draft([]), running, audioResult)).toBeNull();
+  });
+
+  it('drops the result when the job under that id now holds other input', () => {
+    const running = job('1');
+    const changed = job('1', { files: [{ base64: 'otra-grabación', mimeType: 'audio/webm' }] });
+    expect(applyJobResult(draft([changed]), running, audioResult)).toBeNull();
+  });
+});
+
+describe('hasDraftContent', () => {
+  it('is false for an untouched new form', () => {
+    expect(hasDraftContent(content())).toBe(false);
+  });
+
+  it('is true once a new patient has any data, a page or a scan', () => {
+    expect(hasDraftContent(content({ clinicalHistoryId: '123' }))).toBe(true);
+    expect(hasDraftContent({ ...content(), pages: [{ base64: 'x', mimeType: 'image/jpeg' }] })).toBe(true);
+    expect(hasDraftContent({ ...content(), scan: { fields: {}, codes: [] } })).toBe(true);
+  });
+
+  it('only counts changes when editing a saved record', () => {
+    const saved: PatientRecord = {
+      id: 'r1', patientName: 'Ana', clinicalHistoryId: '123', phoneNumber: '', date: '2024-01-01', intervention: null, createdAt: 0,
+    };
+    expect(hasDraftContent(content({ ...saved }), saved)).toBe(false);
+    expect(hasDraftContent(content({ ...saved, patientName: 'Ana María' }), saved)).toBe(true);
+  });
+});
@@ -0,0 +1,371 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DictationInfo, MediaFile, PatientDataExtraction, PatientRecord, SurgicalIntervention } from "../types";
+import { EncryptedPayload, decryptJson, encryptJson } from "./crypto";
+import { DRAFTS_STORE, openDatabase, promisifyRequest, transactionDone } from "./database";
+import { ExtractionProvider } from "./extractionProvider";
+import { ScanResult, reconcileReview } from "./barcodeScan";
+import { storeDictation } from "./dictationStore";
+import { ExtractionReview, buildReview } from "./extractionReview";
+import { getVaultKey } from "./vault";
+
+export type CaptureKind = 'image' | 'audio';
+
+/** Document pages or a dictation waiting to be sent to the AI provider. */
+export interface CaptureJob {
+  id: string;
+  kind: CaptureKind;
+  /** Every page of the document for an image job; the single recording for an audio job. */
+  files: MediaFile[];
+  createdAt: number;
+  attempts: number;
+  /** Epoch ms before which the job is not retried. */
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+/**
+ * A capture form in progress: autosaved while it is edited, and holding any photo or dictation
+ * not processed yet. Results are applied to the stored draft even if the user has moved on
+ * to another patient.
+ */
+export interface PendingDraft {
+  id: string;
+  record: Partial<PatientRecord>;
+  review: ExtractionReview;
+  pages: MediaFile[];
+  /** Codes scanned for this patient; their values win over the AI reading. */
+  scan?: ScanResult | null;
+  /** Set when the draft edits an existing record rather than creating one. */
+  editingRecordId?: string;
+  jobs: CaptureJob[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type DraftContent = Pick<PendingDraft, 'record' | 'review' | 'pages' | 'scan' | 'editingRecordId'>;
+
+export type JobResult =
+  | { kind: 'image'; data: PatientDataExtraction }
+  | { kind: 'audio'; data: SurgicalIntervention; dictation: DictationInfo };
+
+export interface JobOutcome {
+  draftId: string;
+  job: CaptureJob;
+  result?: JobResult;
+  error?: unknown;
+  /** The job was replaced or cancelled while it ran; its result was dropped. */
+  stale?: boolean;
+}
+
+interface SealedDraft extends EncryptedPayload {
+  id: string;
+  createdAt: number;
+}
+
+// Id of the draft that was on screen, so it can be offered back after a reload or a killed tab.
+// Only the random id is kept in clear; the draft itself stays encrypted.
+const ACTIVE_DRAFT_KEY = "surgilog_active_draft";
+
+// Form fields that tell an edited record apart from the stored one
+const EDITABLE_FIELDS = ['patientName', 'clinicalHistoryId', 'phoneNumber', 'date', 'intervention', 'dictation'] as const;
+
+/** After this many failures a job stops retrying on its own until the user retries, the device comes back online or the app restarts. */
+export const MAX_ATTEMPTS = 8;
+
+const BASE_RETRY_MS = 5_000;
+const MAX_RETRY_MS = 5 * 60_000;
+
+/**
+ * Exponential backoff: 5 s, 10 s, 20 s... capped at five minutes.
+ */
+export const retryDelayMs = (attempts: number): number =>
+  Math.min(BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_MS);
+
+export const isJobStalled = (job: CaptureJob): boolean => job.attempts >= MAX_ATTEMPTS;
+
+export const createJob = (kind: CaptureKind, files: MediaFile[]): CaptureJob => {
+  const now = Date.now();
+  return { id: uuidv4(), kind, files, createdAt: now, attempts: 0, nextAttemptAt: now };
+};
+
+type LegacyJob = Omit<CaptureJob, 'files'> & { files?: MediaFile[]; base64?: string; mimeType?: string };
+type LegacyDraft = Omit<PendingDraft, 'pages' | 'jobs'> & { pages?: MediaFile[]; imageBase64?: string | null; jobs: LegacyJob[] };
+
+/**
+ * Drafts queued before multi-page capture held a single image and single-file jobs.
+ */
+const upgradeDraft = ({ imageBase64, ...draft }: LegacyDraft): PendingDraft => ({
+  ...draft,
+  pages: draft.pages ?? (imageBase64 ? [{ base64: imageBase64, mimeType: 'image/jpeg' }] : []),
+  jobs: draft.jobs.map(({ base64, mimeType, ...job }) => ({
+    ...job,
+    files: job.files ?? [{ base64: base64 ?? '', mimeType: mimeType ?? '' }],
+  })),
+});
+
+const openDraft = async (key: CryptoKey, sealed: SealedDraft): Promise<PendingDraft> =>
+  upgradeDraft(await decryptJson<LegacyDraft>(key, sealed));
+
+export const listDrafts = async (): Promise<PendingDraft[]> => {
+  const key = getVaultKey();
+  const db = await openDatabase();
+  const store = db.transaction(DRAFTS_STORE, "readonly").objectStore(DRAFTS_STORE);
+  const sealed = await promisifyRequest<SealedDraft[]>(store.getAll());
+  const drafts = await Promise.all(sealed.map(s => openDraft(key, s)));
+  return drafts.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const getDraft = async (id: string): Promise<PendingDraft | undefined> => {
+  const key = getVaultKey();
+  const db = await openDatabase();
+  const store = db.transaction(DRAFTS_STORE, "readonly").objectStore(DRAFTS_STORE);
+  const sealed = await promisifyRequest<SealedDraft | undefined>(store.get(id));
+  return sealed && openDraft(key, sealed);
+};
+
+// Every write seals with a fresh IV, so it tells whether a draft changed since it was read
+const draftVersion = (sealed: SealedDraft | undefined): string => sealed ? Array.from(sealed.iv).join(',') : '';
+
+// Updates retried when the queue and the autosave keep writing the same draft
+const MAX_UPDATE_ATTEMPTS = 5;
+
+/**
+ * Reads a draft, lets `change` build its next state and writes it back, or leaves it alone when
+ * `change` returns null. The queue and the autosave both rewrite drafts, and WebCrypto is async,
+ * so the draft is re-read in the write transaction; if it changed in between, `change` runs again
+ * on the newer draft. Returns what was stored.
+ */
+const updateDraft = async (
+  id: string,
+  change: (draft: PendingDraft | undefined) => PendingDraft | null
+): Promise<PendingDraft | null> => {
+  const db = await openDatabase();
+  for (let attempt = 1; ; attempt++) {
+    const key = getVaultKey();
+    const readStore = db.transaction(DRAFTS_STORE, "readonly").objectStore(DRAFTS_STORE);
+    const sealed = await promisifyRequest<SealedDraft | undefined>(readStore.get(id));
+    const next = change(sealed && await openDraft(key, sealed));
+    if (!next) return null;
+    const { iv, data } = await encryptJson(key, next);
+
+    const tx = db.transaction(DRAFTS_STORE, "readwrite");
+    const store = tx.objectStore(DRAFTS_STORE);
+    const current = await promisifyRequest<SealedDraft | undefined>(store.get(id));
+    if (draftVersion(current) !== draftVersion(sealed)) {
+      tx.abort();
+      await transactionDone(tx).catch(() => undefined);
+      if (attempt === MAX_UPDATE_ATTEMPTS) throw new Error("El borrador cambió mientras se guardaba.");
+      continue;
+    }
+    store.put({ id, createdAt: next.createdAt, iv, data });
+    await transactionDone(tx);
+    return next;
+  }
+};
+
+export const saveDraft = async (draft: PendingDraft): Promise<void> => {
+  const { iv, data } = await encryptJson(getVaultKey(), draft);
+  const db = await openDatabase();
+  const tx = db.transaction(DRAFTS_STORE, "readwrite");
+  tx.objectStore(DRAFTS_STORE).put({ id: draft.id, createdAt: draft.createdAt, iv, data });
+  await transactionDone(tx);
+};
+
+export const deleteDraft = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(DRAFTS_STORE, "readwrite");
+  tx.objectStore(DRAFTS_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+/**
+ * Adds a capture to a draft, creating the draft from `content` if it is not stored yet.
+ * A new job replaces a waiting job of the same kind: an image job always carries every page.
+ */
+export const enqueueCapture = async (draftId: string, content: DraftContent, job: CaptureJob): Promise<PendingDraft> => {
+  const now = Date.now();
+  const draft = await updateDraft(draftId, existing => ({
+    id: draftId,
+    createdAt: existing?.createdAt ?? now,
+    ...content,
+    jobs: [...(existing?.jobs ?? []).filter(j => j.kind !== job.kind), job],
+    updatedAt: now,
+  }));
+  return draft!;
+};
+
+/**
+ * Autosave: stores the form state under `draftId`, creating the draft if needed. Only the queue
+ * changes jobs, so the jobs stored when the write lands are kept.
+ */
+export const saveFormDraft = async (draftId: string, content: DraftContent): Promise<void> => {
+  const now = Date.now();
+  await updateDraft(draftId, existing => ({
+    id: draftId,
+    createdAt: existing?.createdAt ?? now,
+    jobs: existing?.jobs ?? [],
+    ...content,
+    updatedAt: now,
+  }));
+};
+
+/**
+ * Whether the form holds anything worth autosaving: some data for a new patient, or a change
+ * to the record being edited. Opening a record and leaving it untouched creates no draft.
+ */
+export const hasDraftContent = (content: DraftContent, editing?: PatientRecord | null): boolean => {
+  const { record, pages, scan } = content;
+  if (pages.length > 0 || scan) return true;
+  if (editing) {
+    return EDITABLE_FIELDS.some(field => JSON.stringify(record[field] || null) !== JSON.stringify(editing[field] || null));
+  }
+  return Boolean(record.patientName || record.clinicalHistoryId || record.phoneNumber || record.intervention);
+};
+
+export const getActiveDraftId = (): string | null => localStorage.getItem(ACTIVE_DRAFT_KEY);
+
+export const setActiveDraftId = (id: string | null): void => {
+  if (id) localStorage.setItem(ACTIVE_DRAFT_KEY, id);
+  else localStorage.removeItem(ACTIVE_DRAFT_KEY);
+};
+
+/**
+ * Saves the form state of a stored draft, keeping its queued jobs. No-op if the draft is gone.
+ */
+export const updateDraftContent = async (draftId: string, content: DraftContent): Promise<void> => {
+  await updateDraft(draftId, existing => existing ? { ...existing, ...content, updatedAt: Date.now() } : null);
+};
+
+/**
+ * Form fields filled from a document extraction.
+ */
+export const extractedRecordFields = (data: PatientDataExtraction): Partial<PatientRecord> => ({
+  patientName: data.patientName.value,
+  clinicalHistoryId: data.clinicalHistoryId.value,
+  phoneNumber: data.phoneNumber.value,
+});
+
+/**
+ * Removes queued jobs of one kind, e.g. when the user clears the photo.
+ */
+export const cancelCaptures = async (draftId: string, kind: CaptureKind): Promise<void> => {
+  await updateDraft(draftId, draft =>
+    draft ? { ...draft, jobs: draft.jobs.filter(j => j.kind !== kind), updatedAt: Date.now() } : null
+  );
+};
+
+/**
+ * Whether `job` is still queued in the draft with the same input. A new capture replaces the
+ * job of its kind and cancelling removes it, so a result for a job that is gone is stale.
+ */
+export const isJobPending = (draft: PendingDraft, job: CaptureJob): boolean =>
+  draft.jobs.some(j => j.id === job.id && j.kind === job.kind &&
+    j.files.length === job.files.length &&
+    j.files.every((file, i) => file.base64 === job.files[i].base64 && file.mimeType === job.files[i].mimeType));
+
+/**
+ * Applies a provider result to a draft and drops the job. Returns null when the job is no longer
+ * pending, so a result never overwrites newer input. Pure, so the form can apply the same change
+ * to the draft it is editing.
+ */
+export const applyJobResult = (draft: PendingDraft, job: CaptureJob, result: JobResult): PendingDraft | null => {
+  if (!isJobPending(draft, job)) return null;
+  const base = { ...draft, jobs: draft.jobs.filter(j => j.id !== job.id), updatedAt: Date.now() };
+  if (result.kind === 'audio') {
+    return { ...base, record: { ...draft.record, intervention: result.data, dictation: result.dictation } };
+  }
+  return {
+    ...base,
+    review: reconcileReview(buildReview(result.data), draft.scan),
+    record: { ...draft.record, ...extractedRecordFields(result.data), ...draft.scan?.fields },
+  };
+};
+
+const recordFailure = (draft: PendingDraft, jobId: string, error: unknown, now: number): PendingDraft => ({
+  ...draft,
+  jobs: draft.jobs.map(job => {
+    if (job.id !== jobId) return job;
+    const attempts = job.attempts + 1;
+    return {
+      ...job,
+      attempts,
+      nextAttemptAt: now + retryDelayMs(attempts),
+      lastError: error instanceof Error ? error.message : String(error),
+    };
+  }),
+});
+
+const resetJobs = (draft: PendingDraft, now: number): PendingDraft => ({
+  ...draft,
+  jobs: draft.jobs.map(job => ({ ...job, attempts: 0, nextAttemptAt: now })),
+});
+
+/**
+ * Puts stalled jobs of a draft back in the queue.
+ */
+export const retryDraftJobs = async (draftId: string): Promise<void> => {
+  const now = Date.now();
+  await updateDraft(draftId, draft => draft ? resetJobs(draft, now) : null);
+};
+
+/**
+ * Gives every queued job a fresh set of attempts, due now. Called when the device comes back online
+ * and when the vault is opened: failures while the network was unreachable, e.g. behind a captive
+ * portal that still reports the device as online, must not leave a capture stalled for good.
+ */
+export const resumeCaptureJobs = async (): Promise<void> => {
+  const now = Date.now();
+  for (const { id, jobs } of await listDrafts()) {
+    if (jobs.length > 0) await updateDraft(id, draft => draft && draft.jobs.length > 0 ? resetJobs(draft, now) : null);
+  }
+};
+
+const findDueJob = (drafts: PendingDraft[], now: number): { draft: PendingDraft; job: CaptureJob } | null => {
+  for (const draft of drafts) {
+    const job = draft.jobs.find(j => !isJobStalled(j) && j.nextAttemptAt <= now);
+    if (job) return { draft, job };
+  }
+  return null;
+};
+
+/**
+ * Milliseconds until the next job is due, 0 if one is due now, or null if nothing is waiting.
+ */
+export const nextAttemptDelay = (drafts: PendingDraft[], now: number = Date.now()): number | null => {
+  const times = drafts.flatMap(d => d.jobs).filter(j => !isJobStalled(j)).map(j => j.nextAttemptAt);
+  return times.length === 0 ? null : Math.max(0, Math.min(...times) - now);
+};
+
+// The recording moves from the job to the dictations store once it has been understood
+const runJob = async (provider: ExtractionProvider, job: CaptureJob): Promise<JobResult> => {
+  if (job.kind === 'image') return { kind: 'image', data: await provider.extractPatientData(job.files) };
+  const [audio] = job.files;
+  const { intervention, transcript } = await provider.processInterventionAudio(audio.base64, audio.mimeType);
+  return { kind: 'audio', data: intervention, dictation: await storeDictation(audio, transcript) };
+};
+
+/**
+ * Sends the oldest due job to the provider and stores the outcome. Returns null when nothing is due.
+ * The draft is re-read after the call because the user may have edited it meanwhile; if the job
+ * was replaced or cancelled in the meantime, nothing is stored and the outcome is marked stale.
+ */
+export const runDueJob = async (provider: ExtractionProvider): Promise<JobOutcome | null> => {
+  const due = findDueJob(await listDrafts(), Date.now());
+  if (!due) return null;
+  const { draft, job } = due;
+
+  let result: JobResult;
+  try {
+    result = await runJob(provider, job);
+  } catch (error) {
+    console.error(`Capture job ${job.id} failed`, error);
+    const failed = await updateDraft(draft.id, fresh =>
+      fresh && isJobPending(fresh, job) ? recordFailure(fresh, job.id, error, Date.now()) : null
+    );
+    if (!failed) return { draftId: draft.id, job, stale: true };
+    return { draftId: draft.id, job: failed.jobs.find(j => j.id === job.id)!, error };
+  }
+  const updated = await updateDraft(draft.id, fresh => fresh ? applyJobResult(fresh, job, result) : null);
+  if (!updated) return { draftId: draft.id, job, stale: true };
+  return { draftId: draft.id, job, result };
+};
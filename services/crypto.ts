@@ -0,0 +1,60 @@
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const PBKDF2_ITERATIONS = 600_000;
+
+export interface EncryptedPayload {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+export const randomBytes = (length: number): Uint8Array => crypto.getRandomValues(new Uint8Array(length));
+
+/**
+ * Derives a non-extractable AES-GCM key from the passphrase with PBKDF2-SHA256.
+ */
+export const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey("raw", encoder.encode(passphrase), "PBKDF2", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+};
+
+/**
+ * Encrypts a JSON-serializable value with a fresh random IV.
+ */
+export const encryptJson = async (key: CryptoKey, value: unknown): Promise<EncryptedPayload> => {
+  const iv = randomBytes(12);
+  const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, encoder.encode(JSON.stringify(value)));
+  return { iv, data };
+};
+
+/**
+ * Decrypts a payload produced by `encryptJson`. Rejects if the key is wrong or the data was tampered with.
+ */
+export const decryptJson = async <T>(key: CryptoKey, payload: { iv: Uint8Array; data: ArrayBuffer | Uint8Array }): Promise<T> => {
+  const plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv: payload.iv }, key, payload.data);
+  return JSON.parse(decoder.decode(plain)) as T;
+};
+
+export const toBase64 = (bytes: ArrayBuffer | Uint8Array): string => {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = "";
+  for (let i = 0; i < view.length; i += 0x8000) {
+    binary += String.fromCharCode(...view.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const fromBase64 = (value: string): Uint8Array => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
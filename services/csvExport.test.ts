@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { PatientRecord } from '../types';
+import { buildCsv, quoteCsvField, unguardCsvField } from './csvExport';
+import { parseCsv } from './csvParser';
+import { DEFAULT_TAXONOMY } from './taxonomy';
+
+const record = (overrides: Partial<PatientRecord> = {}): PatientRecord => ({
+  id: 'r1',
+  patientName: 'Ana Pérez',
+  clinicalHistoryId: '123456',
+  phoneNumber: '+34600111222',
+  date: '2024-03-01',
+  intervention: null,
+  createdAt: 1_000,
+  ...overrides,
+});
+
+describe('quoteCsvField', () => {
+  it('quotes every field and doubles inner quotes', () => {
+    expect(quoteCsvField('Ana "la jefa"; Pérez')).toBe('"Ana ""la jefa""; Pérez"');
+    expect(quoteCsvField('')).toBe('""');
+  });
+
+  it('prefixes values a spreadsheet would run as a formula', () => {
+    expect(quoteCsvField('=HYPERLINK("http://x","y")')).toBe(`"'=HYPERLINK(""http://x"",""y"")"`);
+    expect(quoteCsvField('+34600111222')).toBe(`"'+34600111222"`);
+    expect(quoteCsvField('-2+3')).toBe(`"'-2+3"`);
+    expect(quoteCsvField('@SUM(A1)')).toBe(`"'@SUM(A1)"`);
+    expect(quoteCsvField('\t=1')).toBe(`"'\t=1"`);
+    expect(quoteCsvField('Rodilla - LCA')).toBe('"Rodilla - LCA"');
+  });
+});
+
+describe('buildCsv', () => {
+  it('writes guarded cells that import back to the original values', () => {
+    const csv = buildCsv([record({ patientName: '=1+1' })], ['patientName', 'phoneNumber', 'date'], ';', DEFAULT_TAXONOMY);
+    const [header, row] = parseCsv(csv, ';');
+    expect(header).toEqual(['Paciente', 'Teléfono', 'Fecha']);
+    expect(row).toEqual(["'=1+1", "'+34600111222", '2024-03-01']);
+    expect(row.map(unguardCsvField)).toEqual(['=1+1', '+34600111222', '2024-03-01']);
+  });
+
+  it('leaves other apostrophes alone when importing', () => {
+    expect(unguardCsvField("'Neill")).toBe("'Neill");
+  });
+});
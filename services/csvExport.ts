@@ -0,0 +1,117 @@
+import { PatientRecord } from "../types";
+import { formatImplants, formatProcedures } from "./interventionModel";
+import { Taxonomy, activeFlags, getFlag } from "./taxonomy";
+import { downloadBlob, todayStamp } from "./download";
+import { DateRange, filterByDateRange } from "./statistics";
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export interface CsvColumn {
+  id: string;
+  header: string;
+  value: (record: PatientRecord) => string;
+}
+
+export interface CsvExportOptions {
+  /** Column ids, in output order. */
+  columns: string[];
+  delimiter: CsvDelimiter;
+  range: DateRange;
+}
+
+const yesNo = (value: boolean | undefined) => (value ? 'Sí' : 'No');
+
+// Flag columns are inserted after the procedures, see getCsvColumns
+const BASE_COLUMNS: CsvColumn[] = [
+  { id: 'id', header: 'ID', value: r => r.id },
+  { id: 'date', header: 'Fecha', value: r => r.date },
+  { id: 'clinicalHistoryId', header: 'HC', value: r => r.clinicalHistoryId },
+  { id: 'patientName', header: 'Paciente', value: r => r.patientName },
+  { id: 'phoneNumber', header: 'Teléfono', value: r => r.phoneNumber || '' },
+  { id: 'description', header: 'Intervención', value: r => r.intervention?.description || '' },
+  { id: 'region', header: 'Región', value: r => r.intervention?.region || '' },
+  { id: 'laterality', header: 'Lateralidad', value: r => r.intervention?.laterality || '' },
+  {
+    id: 'primaryProcedure',
+    header: 'Procedimiento principal',
+    value: r => formatProcedures(r.intervention?.procedures.filter(p => p.isPrimary) ?? []),
+  },
+  {
+    id: 'secondaryProcedures',
+    header: 'Procedimientos secundarios',
+    value: r => formatProcedures(r.intervention?.procedures.filter(p => !p.isPrimary) ?? []),
+  },
+  { id: 'graftType', header: 'Injerto', value: r => r.intervention?.graftType || '' },
+  { id: 'implants', header: 'Implantes', value: r => formatImplants(r.intervention?.implants ?? []) },
+  { id: 'surgeonRole', header: 'Rol del cirujano', value: r => r.intervention?.surgeonRole || '' },
+];
+
+const FLAGS_AFTER = 'secondaryProcedures';
+
+/**
+ * Export columns in canonical order: one yes/no column per enabled flag, headed by its label.
+ */
+export const getCsvColumns = (taxonomy: Taxonomy): CsvColumn[] => {
+  const flagColumns: CsvColumn[] = activeFlags(taxonomy).map(flag => ({
+    id: flag.id,
+    header: flag.label,
+    value: r => yesNo(getFlag(r.intervention, flag.id)),
+  }));
+  const split = BASE_COLUMNS.findIndex(c => c.id === FLAGS_AFTER) + 1;
+  return [...BASE_COLUMNS.slice(0, split), ...flagColumns, ...BASE_COLUMNS.slice(split)];
+};
+
+// UTF-8 byte order mark: without it Excel reads the file as ANSI and mangles accents
+const BOM = '\uFEFF';
+
+// Excel and LibreOffice run a cell starting with one of these as a formula, even inside quotes
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * Quotes a field per RFC 4180: wrapped in double quotes, inner quotes doubled.
+ * Every field is quoted, so delimiters and line breaks inside values never split a row.
+ * Values that would open as a formula (names, notes or AI output starting with =, +, - or @)
+ * get a leading apostrophe, so the spreadsheet shows them as text.
+ */
+export const quoteCsvField = (value: string): string => {
+  const text = FORMULA_START.test(value) ? `'${value}` : value;
+  return `"${text.replace(/"/g, '""')}"`;
+};
+
+/**
+ * Drops the apostrophe `quoteCsvField` adds, so an exported file imports back unchanged.
+ */
+export const unguardCsvField = (value: string): string =>
+  value.startsWith("'") && FORMULA_START.test(value.slice(1)) ? value.slice(1) : value;
+
+/**
+ * Serializes the records to RFC 4180 CSV text (CRLF line endings, no BOM).
+ */
+export const buildCsv = (
+  records: PatientRecord[],
+  columnIds: string[],
+  delimiter: CsvDelimiter,
+  taxonomy: Taxonomy
+): string => {
+  const available = getCsvColumns(taxonomy);
+  const columns = columnIds
+    .map(id => available.find(c => c.id === id))
+    .filter((c): c is CsvColumn => c !== undefined);
+  const lines = [
+    columns.map(c => quoteCsvField(c.header)).join(delimiter),
+    ...records.map(r => columns.map(c => quoteCsvField(c.value(r))).join(delimiter)),
+  ];
+  return lines.join('\r\n') + '\r\n';
+};
+
+/**
+ * Builds the CSV for the selected date range and downloads it.
+ * Returns the number of records exported.
+ */
+export const exportRecordsToCsv = (records: PatientRecord[], options: CsvExportOptions, taxonomy: Taxonomy): number => {
+  const selected = filterByDateRange(records, options.range);
+  const csv = buildCsv(selected, options.columns, options.delimiter, taxonomy);
+  const blob = new Blob([BOM + csv], { type: 'text/csv;charset=utf-8' });
+  downloadBlob(blob, `surgilog_export_${todayStamp()}.csv`);
+  return selected.length;
+};
@@ -0,0 +1,68 @@
+import { CsvDelimiter } from "./csvExport";
+
+const DELIMITER_CANDIDATES: CsvDelimiter[] = [';', ',', '\t'];
+
+/**
+ * Guesses the delimiter from the header line: whichever candidate splits it into the most fields.
+ */
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  let best: CsvDelimiter = ',';
+  let bestCount = 0;
+  for (const candidate of DELIMITER_CANDIDATES) {
+    const count = firstLine.split(candidate).length;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+/**
+ * Parses RFC 4180 CSV: quoted fields may contain delimiters, doubled quotes and line breaks.
+ * Accepts CRLF or LF line endings and strips a leading UTF-8 BOM. Blank lines are skipped.
+ */
+export const parseCsv = (input: string, delimiter: CsvDelimiter = detectDelimiter(input)): string[][] => {
+  const text = input.charCodeAt(0) === 0xfeff ? input.slice(1) : input;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+};
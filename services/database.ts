@@ -0,0 +1,145 @@
+import { PatientRecord } from "../types";
+
+const DB_NAME = "surgilog";
+
+export const RECORDS_STORE = "records";
+export const META_STORE = "meta";
+export const DRAFTS_STORE = "drafts";
+export const DICTATIONS_STORE = "dictations";
+export const PATIENTS_STORE = "patients";
+
+// Key used by the first versions of the app, which kept every record in a single localStorage blob.
+const LEGACY_STORAGE_KEY = "surgilog_db";
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+/**
+ * Schema migrations, in order. Entry N upgrades the database from version N to N + 1,
+ * so the current schema version is always `MIGRATIONS.length`.
+ * Never edit a migration that has shipped; append a new one instead.
+ */
+const MIGRATIONS: Migration[] = [
+  // v1: records store with the indexes used by the repository queries,
+  // seeded from the legacy localStorage blob.
+  (db, tx) => {
+    const store = db.createObjectStore(RECORDS_STORE, { keyPath: "id" });
+    store.createIndex("date", "date");
+    store.createIndex("clinicalHistoryId", "clinicalHistoryId");
+    store.createIndex("region", "intervention.region");
+    store.createIndex("createdAt", "createdAt");
+
+    for (const record of readLegacyRecords()) {
+      tx.objectStore(RECORDS_STORE).put(record);
+    }
+  },
+  // v2: soft deletion. Only trashed records carry `deletedAt`, so the index lists the trash bin.
+  (_db, tx) => {
+    tx.objectStore(RECORDS_STORE).createIndex("deletedAt", "deletedAt");
+  },
+  // v3: encryption at rest. Records become encrypted envelopes, so the plaintext indexes would
+  // only leak patient data and are dropped. The meta store holds the vault salt and verifier.
+  (db, tx) => {
+    const store = tx.objectStore(RECORDS_STORE);
+    store.deleteIndex("date");
+    store.deleteIndex("clinicalHistoryId");
+    store.deleteIndex("region");
+    db.createObjectStore(META_STORE);
+  },
+  // v4: offline capture queue. Drafts waiting for AI processing, each with its pending
+  // photos and dictations, stored encrypted like the records.
+  (db) => {
+    db.createObjectStore(DRAFTS_STORE, { keyPath: "id" });
+  },
+  // v5: dictation audio kept with the saved records, encrypted, with the creation time
+  // in clear so retention can purge it without decrypting.
+  (db) => {
+    db.createObjectStore(DICTATIONS_STORE, { keyPath: "id" }).createIndex("createdAt", "createdAt");
+  },
+  // v6: patients owning several interventions. Records are encrypted, so they are grouped by HC
+  // after unlock (see linkPatients) rather than here.
+  (db) => {
+    db.createObjectStore(PATIENTS_STORE, { keyPath: "id" });
+  },
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+const readLegacyRecords = (): PatientRecord[] => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed.filter(r => r && typeof r.id === "string") : [];
+  } catch (e) {
+    console.error("Failed to parse legacy local database", e);
+    return [];
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and upgrades if needed) the local IndexedDB database.
+ * The connection is shared for the lifetime of the page.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let migratedLegacy = false;
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        MIGRATIONS[version](db, tx);
+      }
+      migratedLegacy = event.oldVersion === 0;
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // The upgrade transaction has committed by now, so the legacy blob is safe to drop.
+      if (migratedLegacy) {
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+      }
+      // Another tab upgraded the schema: release our connection so it can proceed.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+
+    request.onblocked = () => {
+      console.warn("Database upgrade blocked by another open tab.");
+    };
+  });
+
+  return dbPromise;
+};
+
+/**
+ * Wraps an IDBRequest in a promise.
+ */
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Resolves once the transaction has committed, rejects if it fails or is aborted.
+ */
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException("Transaction aborted", "AbortError"));
+  });
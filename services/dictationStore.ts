@@ -0,0 +1,82 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DictationInfo, MediaFile, PatientRecord } from "../types";
+import { EncryptedPayload, decryptJson, encryptJson } from "./crypto";
+import { DICTATIONS_STORE, openDatabase, promisifyRequest, transactionDone } from "./database";
+import { mediaFileToBlob } from "./imagePreprocessing";
+import { getVaultKey } from "./vault";
+
+interface SealedDictation extends EncryptedPayload {
+  id: string;
+  createdAt: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Audio nothing points to (a discarded draft, a replaced dictation) is dropped after a day,
+// which leaves time for a draft that is being saved to pick it up.
+const ORPHAN_GRACE_MS = DAY_MS;
+
+/**
+ * Keeps the audio of a processed dictation and returns the reference stored with the record.
+ */
+export const storeDictation = async (audio: MediaFile, transcript: string): Promise<DictationInfo> => {
+  const info: DictationInfo = { audioId: uuidv4(), mimeType: audio.mimeType, transcript, recordedAt: Date.now() };
+  const { iv, data } = await encryptJson(getVaultKey(), audio.base64);
+  const db = await openDatabase();
+  const tx = db.transaction(DICTATIONS_STORE, "readwrite");
+  tx.objectStore(DICTATIONS_STORE).put({ id: info.audioId, createdAt: info.recordedAt, iv, data });
+  await transactionDone(tx);
+  return info;
+};
+
+/**
+ * The recorded audio, or null if retention has purged it or it was never on this device
+ * (records restored from a backup carry the transcript only).
+ */
+export const loadDictationAudio = async (info: DictationInfo): Promise<Blob | null> => {
+  const key = getVaultKey();
+  const db = await openDatabase();
+  const store = db.transaction(DICTATIONS_STORE, "readonly").objectStore(DICTATIONS_STORE);
+  const sealed = await promisifyRequest<SealedDictation | undefined>(store.get(info.audioId));
+  if (!sealed) return null;
+  return mediaFileToBlob({ base64: await decryptJson<string>(key, sealed), mimeType: info.mimeType });
+};
+
+/**
+ * Audio ids referenced by saved records or drafts.
+ */
+export const referencedDictations = (records: Partial<PatientRecord>[]): Set<string> =>
+  new Set(records.flatMap(record => (record.dictation ? [record.dictation.audioId] : [])));
+
+/**
+ * Deletes audio older than the retention period (0 keeps it forever) and audio no record or
+ * draft refers to. Transcripts live in the records and are never purged. Returns how many were deleted.
+ */
+export const purgeDictations = async (retentionDays: number, referenced: Set<string>): Promise<number> => {
+  const db = await openDatabase();
+  const tx = db.transaction(DICTATIONS_STORE, "readwrite");
+  const store = tx.objectStore(DICTATIONS_STORE);
+  const done = transactionDone(tx);
+  const now = Date.now();
+  let purged = 0;
+  // A key cursor reads only ids and timestamps, never the audio itself
+  await new Promise<void>((resolve, reject) => {
+    const request = store.index("createdAt").openKeyCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve();
+      const createdAt = cursor.key as number;
+      const id = cursor.primaryKey as string;
+      const expired = retentionDays > 0 && createdAt < now - retentionDays * DAY_MS;
+      const orphaned = !referenced.has(id) && createdAt < now - ORPHAN_GRACE_MS;
+      if (expired || orphaned) {
+        store.delete(id);
+        purged++;
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+  await done;
+  return purged;
+};
@@ -0,0 +1,20 @@
+/**
+ * Saves a Blob through a temporary object URL. Unlike data: URIs this has no
+ * size limit and needs no escaping of the content.
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Today's date as YYYY-MM-DD, for export file names.
+ */
+export const todayStamp = (): string => new Date().toISOString().split("T")[0];
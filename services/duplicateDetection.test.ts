@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { Laterality, PatientRecord, SurgicalIntervention } from '../types';
+import { defaultMergeChoices, duplicateReasons, findDuplicatePairs, findDuplicatesOf, mergeRecords, nameSimilarity } from './duplicateDetection';
+
+const intervention = (region: string, laterality = Laterality.RIGHT) =>
+  ({ description: 'Artroscopia', region, laterality }) as SurgicalIntervention;
+
+const record = (id: string, overrides: Partial<PatientRecord> = {}): PatientRecord => ({
+  id,
+  patientName: 'María García López',
+  clinicalHistoryId: '123456',
+  date: '2024-03-01',
+  intervention: intervention('Rodilla'),
+  createdAt: Number(id.replace(/\D/g, '')) || 1,
+  ...overrides,
+});
+
+describe('nameSimilarity', () => {
+  it('ignores word order, accents and initials', () => {
+    expect(nameSimilarity('GARCIA LOPEZ, MARIA', 'María García López')).toBe(1);
+    expect(nameSimilarity('J. de la Fuente Ruiz', 'José Fuente Ruiz')).toBe(1);
+  });
+
+  it('tolerates small typos but not a shared surname alone', () => {
+    expect(nameSimilarity('María Garcia Lopes', 'María García López')).toBeGreaterThanOrEqual(0.85);
+    expect(nameSimilarity('García', 'María García López')).toBeLessThan(0.85);
+  });
+});
+
+describe('duplicateReasons', () => {
+  it('matches the same HC on the same date', () => {
+    expect(duplicateReasons(record('1'), record('2', { patientName: 'Otra Persona' }))).toContain('Misma HC');
+  });
+
+  it('matches a similar name when the HC differs or is unknown', () => {
+    const reasons = duplicateReasons(record('1'), record('2', { clinicalHistoryId: 'S/N', patientName: 'Maria Garcia Lopez' }));
+    expect(reasons).toContain('Mismo nombre');
+  });
+
+  it('keeps different dates, regions or sides apart', () => {
+    expect(duplicateReasons(record('1'), record('2', { date: '2024-03-02' }))).toBeNull();
+    expect(duplicateReasons(record('1'), record('2', { intervention: intervention('Hombro') }))).toBeNull();
+    expect(duplicateReasons(record('1'), record('2', { intervention: intervention('Rodilla', Laterality.LEFT) }))).toBeNull();
+    expect(duplicateReasons(record('1'), record('2', { intervention: intervention('Rodilla', Laterality.NOT_SPECIFIED) }))).not.toBeNull();
+  });
+});
+
+describe('findDuplicatesOf', () => {
+  it('skips the candidate itself and lists same-HC matches first', () => {
+    const byName = record('2', { clinicalHistoryId: '999999' });
+    const byHc = record('3');
+    const matches = findDuplicatesOf(record('1'), [record('1'), byName, byHc]);
+    expect(matches.map(match => match.record.id)).toEqual(['3', '2']);
+  });
+});
+
+describe('findDuplicatePairs', () => {
+  it('pairs records of the same date, oldest kept', () => {
+    const pairs = findDuplicatePairs([record('3'), record('1'), record('2', { date: '2024-01-01' })]);
+    expect(pairs.map(pair => [pair.kept.id, pair.other.id])).toEqual([['1', '3']]);
+  });
+});
+
+describe('mergeRecords', () => {
+  it('fills empty fields from the other record by default and keeps the kept identity', () => {
+    const kept = record('1', { phoneNumber: '' });
+    const other = record('2', { phoneNumber: '+34600111222', patientName: 'M. García' });
+    const merged = mergeRecords(kept, other, defaultMergeChoices(kept, other));
+    expect(merged).toMatchObject({ id: '1', createdAt: 1, phoneNumber: '+34600111222', patientName: 'María García López' });
+    expect(merged.updatedAt).toBeDefined();
+  });
+});
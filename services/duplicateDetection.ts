@@ -0,0 +1,166 @@
+import { Laterality, PatientRecord } from "../types";
+import { patientKey } from "./patientRepository";
+import { normalizeText } from "./recordSearch";
+
+/** Names at least this similar (0..1) are taken to be the same patient. */
+export const NAME_MATCH_THRESHOLD = 0.85;
+
+export interface DuplicateMatch {
+  record: PatientRecord;
+  /** Why the records look like the same case, for the comparison view. */
+  reasons: string[];
+}
+
+export interface DuplicatePair {
+  /** The older record, whose id survives a merge. */
+  kept: PatientRecord;
+  other: PatientRecord;
+  reasons: string[];
+}
+
+/** Fields the user picks from either side when merging two records. */
+export const MERGE_FIELDS = ['patientName', 'clinicalHistoryId', 'phoneNumber', 'date', 'intervention', 'dictation'] as const;
+
+export type MergeField = typeof MERGE_FIELDS[number];
+
+export type MergeChoices = Record<MergeField, 'kept' | 'other'>;
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const similarity = (a: string, b: string): number =>
+  a === b ? 1 : 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+
+// Initials and particles are dropped: "J. de la Fuente" and "José Fuente" should still meet
+const nameTokens = (name: string): string[] =>
+  normalizeText(name).replace(/[^a-z\s]/g, ' ').split(/\s+/).filter(token => token.length > 2);
+
+/**
+ * 0..1 similarity of two patient names, independent of word order ("GARCIA LOPEZ, MARIA")
+ * and tolerant of accents, initials and small typos. Each word of the shorter name is paired
+ * with its closest unused word in the longer one.
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  const tokensA = nameTokens(a);
+  const tokensB = nameTokens(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+  const [shorter, longer] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+  const used = new Set<number>();
+  let total = 0;
+  for (const token of shorter) {
+    let best = 0;
+    let bestIndex = -1;
+    longer.forEach((candidate, index) => {
+      const score = used.has(index) ? 0 : similarity(token, candidate);
+      if (score > best) {
+        best = score;
+        bestIndex = index;
+      }
+    });
+    if (bestIndex >= 0) used.add(bestIndex);
+    total += best;
+  }
+  // A lone surname must not match every patient who shares it
+  return total / Math.max(shorter.length, Math.min(longer.length, 2));
+};
+
+/**
+ * Reasons two records look like the same operation, or null if they do not. They must share the
+ * date, be the same patient (same HC or a similar name) and not contradict each other on the
+ * region or side, since a knee and a shoulder on the same day are two cases.
+ */
+export const duplicateReasons = (a: Partial<PatientRecord>, b: Partial<PatientRecord>): string[] | null => {
+  if (!a.date || a.date !== b.date) return null;
+
+  const hcA = patientKey(a.clinicalHistoryId);
+  const hcB = patientKey(b.clinicalHistoryId);
+  const sameHc = hcA !== '' && hcA === hcB;
+  const nameScore = nameSimilarity(a.patientName ?? '', b.patientName ?? '');
+  if (!sameHc && nameScore < NAME_MATCH_THRESHOLD) return null;
+
+  const regionA = a.intervention?.region;
+  const regionB = b.intervention?.region;
+  if (regionA && regionB && regionA !== regionB) return null;
+  const sideA = a.intervention?.laterality;
+  const sideB = b.intervention?.laterality;
+  const sided = (side?: Laterality) => !!side && side !== Laterality.NOT_SPECIFIED;
+  if (sided(sideA) && sided(sideB) && sideA !== sideB) return null;
+
+  const reasons: string[] = [];
+  if (sameHc) reasons.push('Misma HC');
+  else if (hcA && hcB) reasons.push('HC distinta');
+  if (nameScore >= NAME_MATCH_THRESHOLD) {
+    reasons.push(nameScore === 1 ? 'Mismo nombre' : `Nombre similar (${Math.round(nameScore * 100)} %)`);
+  }
+  reasons.push('Misma fecha');
+  if (regionA && regionA === regionB) reasons.push(`Misma región (${regionA})`);
+  return reasons;
+};
+
+/**
+ * Saved records that look like the same case as `candidate`, strongest first.
+ * The candidate's own id is skipped, so an edited record does not match itself.
+ */
+export const findDuplicatesOf = (candidate: Partial<PatientRecord>, records: PatientRecord[]): DuplicateMatch[] =>
+  records
+    .filter(record => record.id !== candidate.id)
+    .map(record => ({ record, reasons: duplicateReasons(candidate, record) }))
+    .filter((match): match is DuplicateMatch => match.reasons !== null)
+    .sort((a, b) => Number(b.reasons.includes('Misma HC')) - Number(a.reasons.includes('Misma HC')));
+
+/**
+ * Every pair of likely duplicates in the database. Only records sharing a date are compared,
+ * which keeps this fast on a large logbook.
+ */
+export const findDuplicatePairs = (records: PatientRecord[]): DuplicatePair[] => {
+  const byDate = new Map<string, PatientRecord[]>();
+  for (const record of records) {
+    byDate.set(record.date, [...(byDate.get(record.date) ?? []), record]);
+  }
+  const pairs: DuplicatePair[] = [];
+  for (const group of byDate.values()) {
+    const sorted = [...group].sort((a, b) => a.createdAt - b.createdAt);
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length; j++) {
+        const reasons = duplicateReasons(sorted[i], sorted[j]);
+        if (reasons) pairs.push({ kept: sorted[i], other: sorted[j], reasons });
+      }
+    }
+  }
+  return pairs.sort((a, b) => b.kept.date.localeCompare(a.kept.date));
+};
+
+export const pairKey = (pair: DuplicatePair): string => `${pair.kept.id}|${pair.other.id}`;
+
+const isBlank = (value: unknown): boolean => value === undefined || value === null || value === '';
+
+/**
+ * Starts from the kept record and takes the other side only where the kept one is empty.
+ */
+export const defaultMergeChoices = (kept: Partial<PatientRecord>, other: Partial<PatientRecord>): MergeChoices =>
+  Object.fromEntries(MERGE_FIELDS.map(field => [
+    field,
+    isBlank(kept[field]) && !isBlank(other[field]) ? 'other' : 'kept',
+  ])) as MergeChoices;
+
+/**
+ * The kept record, under its own id and creation time, with each field taken from the chosen side.
+ */
+export const mergeRecords = (kept: PatientRecord, other: Partial<PatientRecord>, choices: MergeChoices): PatientRecord => {
+  const merged: PatientRecord = { ...kept, updatedAt: Date.now() };
+  for (const field of MERGE_FIELDS) {
+    if (choices[field] === 'other') Object.assign(merged, { [field]: other[field] });
+  }
+  // The parsed phones follow the phone text they came from
+  if (choices.phoneNumber === 'other') merged.phones = other.phones;
+  return merged;
+};
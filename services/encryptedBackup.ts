@@ -0,0 +1,105 @@
+import { PatientRecord } from "../types";
+import { PBKDF2_ITERATIONS, decryptJson, deriveKey, encryptJson, fromBase64, randomBytes, toBase64 } from "./crypto";
+import { BackupFile, buildBackup, validateBackup } from "./backupFormat";
+import { AppSettings } from "./settingsService";
+import { downloadBlob, todayStamp } from "./download";
+
+export const ENCRYPTED_BACKUP_FORMAT = "surgilog-encrypted-backup";
+export const ENCRYPTED_BACKUP_VERSION = 1;
+export const ENCRYPTED_BACKUP_EXTENSION = ".surgilog";
+
+// Key derivation cost accepted from a file: a tampered count must not hang the browser or weaken the key
+const MIN_KDF_ITERATIONS = 100_000;
+const MAX_KDF_ITERATIONS = 10 * PBKDF2_ITERATIONS;
+const MIN_SALT_BYTES = 16;
+
+const decodedLength = (value: unknown): number => {
+  if (typeof value !== "string") return 0;
+  try {
+    return fromBase64(value).length;
+  } catch {
+    return 0;
+  }
+};
+
+const hasSafeKdf = ({ kdf }: EncryptedBackupFile): boolean =>
+  Number.isInteger(kdf.iterations) && kdf.iterations >= MIN_KDF_ITERATIONS && kdf.iterations <= MAX_KDF_ITERATIONS
+  && decodedLength(kdf.salt) >= MIN_SALT_BYTES;
+
+/**
+ * On-disk container. Everything needed to re-derive the key is stored next to the
+ * ciphertext, so the file can be restored on any device with just the password.
+ * The decrypted payload is a regular `BackupFile`.
+ */
+export interface EncryptedBackupFile {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: number;
+  createdAt: string; // ISO timestamp, left in clear so the user can tell copies apart
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string };
+  cipher: { name: "AES-GCM"; iv: string };
+  data: string; // base64 ciphertext
+}
+
+/**
+ * Encrypts every record plus the app settings into a single versioned file and downloads it.
+ */
+export const downloadEncryptedBackup = async (
+  records: PatientRecord[],
+  settings: AppSettings,
+  password: string
+): Promise<void> => {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, PBKDF2_ITERATIONS);
+  const { iv, data } = await encryptJson(key, buildBackup(records, settings));
+  const file: EncryptedBackupFile = {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: ENCRYPTED_BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    kdf: { name: "PBKDF2", hash: "SHA-256", iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: "AES-GCM", iv: toBase64(iv) },
+    data: toBase64(data),
+  };
+  const blob = new Blob([JSON.stringify(file)], { type: "application/octet-stream" });
+  downloadBlob(blob, `surgilog_copia_${todayStamp()}${ENCRYPTED_BACKUP_EXTENSION}`);
+};
+
+/**
+ * Checks the container without decrypting it, so format problems are reported before asking for the password.
+ */
+export const parseEncryptedBackup = (text: string): EncryptedBackupFile => {
+  let file: Partial<EncryptedBackupFile> | null;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error("El archivo no es una copia de seguridad válida.");
+  }
+  if (!file || file.format !== ENCRYPTED_BACKUP_FORMAT) {
+    throw new Error("El archivo no es una copia de seguridad cifrada de SurgiLog.");
+  }
+  if (typeof file.version !== "number" || file.version > ENCRYPTED_BACKUP_VERSION) {
+    throw new Error(`Versión de copia no compatible (${file.version}). Actualice la aplicación.`);
+  }
+  if (file.kdf?.name !== "PBKDF2" || file.kdf.hash !== "SHA-256" || file.cipher?.name !== "AES-GCM" || typeof file.data !== "string") {
+    throw new Error("La copia de seguridad está dañada o usa un cifrado desconocido.");
+  }
+  if (!hasSafeKdf(file as EncryptedBackupFile) || typeof file.cipher.iv !== "string") {
+    throw new Error("La copia de seguridad está dañada o usa un cifrado desconocido.");
+  }
+  return file as EncryptedBackupFile;
+};
+
+/**
+ * Decrypts a container checked by `parseEncryptedBackup` and validates the backup inside.
+ * Malformed base64 is reported like a wrong password: neither can be told apart from a damaged file.
+ */
+export const decryptBackup = async (file: EncryptedBackupFile, password: string): Promise<BackupFile> => {
+  if (!hasSafeKdf(file)) throw new Error("La copia de seguridad está dañada o usa un cifrado desconocido.");
+  let payload: unknown;
+  try {
+    const key = await deriveKey(password, fromBase64(file.kdf.salt), file.kdf.iterations);
+    payload = await decryptJson(key, { iv: fromBase64(file.cipher.iv), data: fromBase64(file.data) });
+  } catch {
+    throw new Error("Contraseña incorrecta o archivo dañado.");
+  }
+  return validateBackup(payload);
+};
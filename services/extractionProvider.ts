@@ -0,0 +1,121 @@
+import { ExtractedField, MediaFile, PatientDataExtraction, SurgicalIntervention } from "../types";
+import { normalizeIntervention } from "./interventionModel";
+import { Taxonomy, activeFlags } from "./taxonomy";
+import { normalizeDate } from "./validation";
+
+export type ProviderKind = 'gemini' | 'openai' | 'mock';
+
+export interface ProviderConfig {
+  kind: ProviderKind;
+  /** Chat/vision model name. Empty uses the provider default. */
+  model: string;
+  /** OpenAI-compatible only: API root, e.g. "https://api.openai.com/v1" or "http://localhost:11434/v1". */
+  baseUrl: string;
+  /** Overrides the build-time key. Local endpoints usually need none. */
+  apiKey: string;
+  /** OpenAI-compatible only: speech-to-text model used before classification. */
+  transcriptionModel: string;
+}
+
+/**
+ * Everything the capture flow needs from an AI backend.
+ * Implementations throw on network or parsing errors; the UI shows a generic message.
+ */
+export interface ExtractionProvider {
+  readonly kind: ProviderKind;
+  /** All pages of one capture go in a single call, so the model can combine them. */
+  extractPatientData(pages: MediaFile[]): Promise<PatientDataExtraction>;
+  processInterventionAudio(base64Audio: string, mimeType: string): Promise<DictationResult>;
+}
+
+/** A classified dictation together with the model's verbatim transcript of it. */
+export interface DictationResult {
+  intervention: SurgicalIntervention;
+  transcript: string;
+}
+
+export const PATIENT_DATA_PROMPT = `Analiza las páginas adjuntas de documentación médica de un mismo paciente. Cada página va precedida de su etiqueta ("Página 1", "Página 2"...); un PDF cuenta como una sola página.
+            Combina la información de todas ellas y extrae:
+            1. Nombre del Paciente (Patient Name).
+            2. Número de Historia Clínica (Clinical History / HC / ID).
+            3. Fecha del documento (Date).
+            4. Números de Teléfono (Phone Numbers). Si encuentras más de uno (ej. casa y móvil), inclúyelos todos separados por " / ".
+
+            Para cada dato devuelve:
+            - "value": el valor extraído. Si no es visible, una cadena vacía.
+            - "confidence": tu confianza en que el valor es exacto, entre 0 y 1. Usa valores bajos si el texto está borroso, cortado o es ambiguo.
+            - "source": el fragmento de texto literal del documento del que lo has leído, tal cual aparece.
+            - "page": el número de la página de la que lo has leído, o 0 si no aparece en ninguna.
+
+            Formatea la fecha como YYYY-MM-DD si es posible.`;
+
+/**
+ * One line per enabled flag: `- "id": description`. Shared by both prompt styles.
+ */
+export const describeFlags = (taxonomy: Taxonomy): string =>
+  activeFlags(taxonomy).map(flag => `- "${flag.id}" (${flag.label}): ${flag.description}`).join("\n");
+
+export const buildInterventionPrompt = (taxonomy: Taxonomy): string => `Escucha este audio donde un cirujano describe una intervención quirúrgica.
+            Tu tarea es:
+            1. Transcribir la descripción de la intervención (nombre de la intervención).
+            2. Clasificar la región del cuerpo (${taxonomy.regions.join(", ")}).
+            3. Indicar la lateralidad (Izquierda, Derecha, Bilateral o No especificada si no se menciona).
+            4. Listar los procedimientos realizados, marcando como principal solo uno. Para cada uno, el código ICD-10-PCS y el CIE-9-MC si se dictan o si estás seguro de ellos; si no, déjalos vacíos.
+            5. Si es una plastia de LCA, el tipo de injerto (Isquiotibiales, Hueso-tendón-hueso, Cuadricipital, Aloinjerto u Otro).
+            6. Los implantes utilizados (nombre, fabricante y referencia si se mencionan).
+            7. El papel del cirujano que dicta (Cirujano principal, Primer ayudante o Segundo ayudante). Si no lo indica, Cirujano principal.
+            8. Marcar como true o false cada una de estas características:
+${describeFlags(taxonomy)}
+
+            Incluye también en "transcript" la transcripción literal de todo el audio, sin corregir ni resumir.
+            Devuelve un objeto JSON.`;
+
+const asString = (value: unknown): string => (typeof value === "string" ? value : "");
+
+/** Label sent before each attached page, matching the numbers the model reports back. */
+export const pageLabel = (index: number): string => `Página ${index + 1}`;
+
+/**
+ * Accepts `{ value, confidence, source }` or a bare string. A bare string carries no
+ * evidence, so it gets zero confidence and always needs a human check.
+ */
+const toExtractedField = (raw: unknown, pageCount: number): ExtractedField => {
+  if (typeof raw === "string") return { value: raw, confidence: 0, source: "", page: 0 };
+  const field = (raw ?? {}) as Record<string, unknown>;
+  const confidence = typeof field.confidence === "number" ? field.confidence : 0;
+  const page = typeof field.page === "number" && Number.isInteger(field.page) ? field.page : 0;
+  return {
+    value: asString(field.value),
+    confidence: Math.min(1, Math.max(0, confidence)),
+    source: asString(field.source),
+    page: page >= 1 && page <= pageCount ? page : 0,
+  };
+};
+
+// Models return dates in whatever format the document uses; anything unreadable is dropped
+const toExtractedDate = (raw: unknown, pageCount: number): ExtractedField => {
+  const field = toExtractedField(raw, pageCount);
+  const date = normalizeDate(field.value);
+  return date ? { ...field, value: date } : { ...field, value: "", confidence: 0 };
+};
+
+/**
+ * Normalizes a model's JSON answer for the patient-data prompt.
+ * Page numbers outside the attached pages are dropped.
+ */
+export const toPatientData = (raw: unknown, pageCount: number): PatientDataExtraction => {
+  const data = (raw ?? {}) as Record<string, unknown>;
+  return {
+    patientName: toExtractedField(data.patientName, pageCount),
+    clinicalHistoryId: toExtractedField(data.clinicalHistoryId, pageCount),
+    date: toExtractedDate(data.date, pageCount),
+    phoneNumber: toExtractedField(data.phoneNumber, pageCount),
+  };
+};
+
+/**
+ * Normalizes a model's JSON answer for the intervention prompt.
+ * Unknown regions fall back to "Otro" rather than failing the whole dictation.
+ */
+export const toIntervention = (raw: unknown, taxonomy: Taxonomy): SurgicalIntervention =>
+  normalizeIntervention(raw, taxonomy);
@@ -0,0 +1,60 @@
+import { PatientDataExtraction } from "../types";
+
+/** Extracted fields that are copied into the capture form. The document date is not applied. */
+export const REVIEWED_FIELDS = ['patientName', 'clinicalHistoryId', 'phoneNumber'] as const;
+
+export type ReviewedField = typeof REVIEWED_FIELDS[number];
+
+/**
+ * Below these scores a value must be confirmed by hand before saving.
+ * The HC is stricter: a misread number files the case under another patient.
+ */
+export const CONFIDENCE_THRESHOLDS: Record<ReviewedField, number> = {
+  patientName: 0.8,
+  clinicalHistoryId: 0.95,
+  phoneNumber: 0.8,
+};
+
+export interface FieldReview {
+  /** What the model read, kept so later corrections (e.g. a scanned code) can be compared with it. */
+  value: string;
+  confidence: number;
+  source: string;
+  page: number;
+  confirmed: boolean;
+}
+
+export type ExtractionReview = Partial<Record<ReviewedField, FieldReview>>;
+
+export const isLowConfidence = (field: ReviewedField, confidence: number): boolean =>
+  confidence < CONFIDENCE_THRESHOLDS[field];
+
+/**
+ * Starts a review for a fresh extraction. Empty values have nothing to confirm.
+ */
+export const buildReview = (data: PatientDataExtraction): ExtractionReview => {
+  const review: ExtractionReview = {};
+  for (const field of REVIEWED_FIELDS) {
+    const { value, confidence, source, page } = data[field];
+    review[field] = {
+      value,
+      confidence,
+      source,
+      page,
+      confirmed: !value.trim() || !isLowConfidence(field, confidence),
+    };
+  }
+  return review;
+};
+
+/**
+ * Marks a field as checked by a human, either explicitly or by typing over it.
+ */
+export const confirmField = (review: ExtractionReview, field: ReviewedField): ExtractionReview => {
+  const current = review[field];
+  if (!current || current.confirmed) return review;
+  return { ...review, [field]: { ...current, confirmed: true } };
+};
+
+export const pendingFields = (review: ExtractionReview): ReviewedField[] =>
+  REVIEWED_FIELDS.filter(field => review[field] && !review[field]!.confirmed);
@@ -1,129 +1,168 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { BodyRegion, SurgicalIntervention } from "../types";
+import { GraftType, Laterality, MediaFile, SurgeonRole } from "../types";
+import {
+  ExtractionProvider,
+  PATIENT_DATA_PROMPT,
+  ProviderConfig,
+  buildInterventionPrompt,
+  pageLabel,
+  toIntervention,
+  toPatientData
+} from "./extractionProvider";
+import { Taxonomy, activeFlags } from "./taxonomy";
 
-// Initialize Gemini Client
-const ai = new GoogleGenAI({ apiKey: import.meta.env.VITE_API_KEY });
+export const DEFAULT_GEMINI_MODEL = import.meta.env.VITE_GEMINI_MODEL || "gemini-2.5-flash";
 
-const MODEL_NAME = "gemini-2.5-flash";
+const EXTRACTED_FIELD_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    value: { type: Type.STRING },
+    confidence: { type: Type.NUMBER, description: "Confidence that the value is exact, from 0 to 1" },
+    source: { type: Type.STRING, description: "Verbatim snippet of the document the value was read from" },
+    page: { type: Type.INTEGER, description: "Number of the labelled page the value was read from, 0 if none" },
+  },
+  required: ["value", "confidence", "source", "page"],
+};
 
 /**
- * Extracts patient data from an image using Gemini Vision capabilities.
+ * Gemini implementation of the extraction provider, using structured JSON output.
  */
-export const extractPatientDataFromImage = async (
-  base64Image: string,
-  mimeType: string
-): Promise<{ patientName: string; clinicalHistoryId: string; date: string; phoneNumber: string }> => {
-  try {
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Image,
+export const createGeminiProvider = (config: ProviderConfig, taxonomy: Taxonomy): ExtractionProvider => {
+  const ai = new GoogleGenAI({ apiKey: config.apiKey || import.meta.env.VITE_API_KEY });
+  const model = config.model || DEFAULT_GEMINI_MODEL;
+
+  /**
+   * Extracts patient data from photos and PDFs using Gemini Vision capabilities.
+   * Each page is preceded by its label so the model can say where a value came from.
+   */
+  const extractPatientData: ExtractionProvider['extractPatientData'] = async (pages: MediaFile[]) => {
+    try {
+      const response = await ai.models.generateContent({
+        model,
+        contents: {
+          parts: [
+            ...pages.flatMap((page, index) => [
+              { text: pageLabel(index) },
+              {
+                inlineData: {
+                  mimeType: page.mimeType,
+                  data: page.base64,
+                },
+              },
+            ]),
+            {
+              text: PATIENT_DATA_PROMPT,
             },
+          ],
+        },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              patientName: EXTRACTED_FIELD_SCHEMA,
+              clinicalHistoryId: EXTRACTED_FIELD_SCHEMA,
+              date: EXTRACTED_FIELD_SCHEMA,
+              phoneNumber: EXTRACTED_FIELD_SCHEMA,
+            },
+            required: ["patientName", "clinicalHistoryId", "date", "phoneNumber"],
           },
-          {
-            text: `Analiza esta imagen de un documento médico. Extrae la siguiente información:
-            1. Nombre del Paciente (Patient Name).
-            2. Número de Historia Clínica (Clinical History / HC / ID).
-            3. Fecha del documento (Date).
-            4. Números de Teléfono (Phone Numbers). Si encuentras más de uno (ej. casa y móvil), inclúyelos todos separados por " / ".
-            
-            Si algún dato no es visible, devuelve una cadena vacía. Formatea la fecha como YYYY-MM-DD si es posible.`,
-          },
-        ],
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            patientName: { type: Type.STRING },
-            clinicalHistoryId: { type: Type.STRING },
-            date: { type: Type.STRING },
-            phoneNumber: { type: Type.STRING },
-          },
-          required: ["patientName", "clinicalHistoryId", "date", "phoneNumber"],
         },
-      },
-    });
+      });
 
-    if (response.text) {
-      return JSON.parse(response.text);
+      if (response.text) {
+        return toPatientData(JSON.parse(response.text), pages.length);
+      }
+      throw new Error("No response text from Gemini.");
+    } catch (error) {
+      console.error("Error extracting patient data:", error);
+      throw error;
     }
-    throw new Error("No response text from Gemini.");
-  } catch (error) {
-    console.error("Error extracting patient data:", error);
-    throw error;
-  }
-};
+  };
 
-/**
- * Transcribes audio and classifies the intervention.
- */
-export const processInterventionAudio = async (
-  base64Audio: string,
-  mimeType: string
-): Promise<SurgicalIntervention> => {
-  try {
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Audio,
+  /**
+   * Transcribes audio and classifies the intervention.
+   */
+  const processInterventionAudio: ExtractionProvider['processInterventionAudio'] = async (base64Audio, mimeType) => {
+    const flags = activeFlags(taxonomy);
+    try {
+      const response = await ai.models.generateContent({
+        model,
+        contents: {
+          parts: [
+            {
+              inlineData: {
+                mimeType: mimeType,
+                data: base64Audio,
+              },
             },
-          },
-          {
-            text: `Escucha este audio donde un cirujano describe una intervención quirúrgica. 
-            Tu tarea es:
-            1. Transcribir la descripción de la intervención (nombre de la intervención).
-            2. Clasificar la región del cuerpo (Hombro, Rodilla, Codo, Muñeca, Pie/Tobillo, Cadera, u Otro).
-            3. Identificar si es una cirugía artroscópica (arthroscopic).
-            4. Identificar específicamente si implica el LCA (Ligamento Cruzado Anterior / ACL).
-            5. Identificar si es una cirugía de rodilla en general.
-            
-            Devuelve un objeto JSON.`,
-          },
-        ],
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            description: { type: Type.STRING, description: "Transcription of the surgery description" },
-            region: { 
-              type: Type.STRING, 
-              enum: [
-                BodyRegion.SHOULDER,
-                BodyRegion.KNEE,
-                BodyRegion.ELBOW,
-                BodyRegion.WRIST,
-                BodyRegion.FOOT_ANKLE,
-                BodyRegion.HIP,
-                BodyRegion.OTHER
-              ] 
+            {
+              text: buildInterventionPrompt(taxonomy),
             },
-            isArthroscopic: { type: Type.BOOLEAN },
-            isLCA: { type: Type.BOOLEAN },
-            isKneeRelated: { type: Type.BOOLEAN },
+          ],
+        },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              transcript: { type: Type.STRING, description: "Verbatim transcription of the whole dictation" },
+              description: { type: Type.STRING, description: "Transcription of the surgery description" },
+              region: {
+                type: Type.STRING,
+                enum: taxonomy.regions
+              },
+              laterality: { type: Type.STRING, enum: Object.values(Laterality) },
+              procedures: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    description: { type: Type.STRING },
+                    isPrimary: { type: Type.BOOLEAN },
+                    icd10pcs: { type: Type.STRING, description: "ICD-10-PCS code, empty if not known" },
+                    cie9mc: { type: Type.STRING, description: "CIE-9-MC (ICD-9-CM) code, empty if not known" },
+                  },
+                  required: ["description", "isPrimary", "icd10pcs", "cie9mc"],
+                },
+              },
+              ...Object.fromEntries(flags.map(flag => [flag.id, { type: Type.BOOLEAN, description: flag.description }])),
+              graftType: { type: Type.STRING, enum: Object.values(GraftType), nullable: true },
+              implants: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    name: { type: Type.STRING },
+                    manufacturer: { type: Type.STRING },
+                    reference: { type: Type.STRING },
+                  },
+                  required: ["name"],
+                },
+              },
+              surgeonRole: { type: Type.STRING, enum: Object.values(SurgeonRole) },
+            },
+            required: [
+              "transcript", "description", "region", "laterality", "procedures", "implants", "surgeonRole",
+              ...flags.map(flag => flag.id)
+            ],
           },
-          required: ["description", "region", "isArthroscopic", "isLCA", "isKneeRelated"],
         },
-      },
-    });
+      });
 
-    if (response.text) {
-      return JSON.parse(response.text);
+      if (response.text) {
+        const raw = JSON.parse(response.text);
+        return {
+          intervention: toIntervention(raw, taxonomy),
+          transcript: typeof raw?.transcript === "string" ? raw.transcript : "",
+        };
+      }
+      throw new Error("No response text from Gemini audio processing.");
+    } catch (error) {
+      console.error("Error processing audio:", error);
+      throw error;
     }
-    throw new Error("No response text from Gemini audio processing.");
-  } catch (error) {
-    console.error("Error processing audio:", error);
-    throw error;
-  }
+  };
+
+  return { kind: 'gemini', extractPatientData, processInterventionAudio };
 };
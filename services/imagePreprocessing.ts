@@ -0,0 +1,227 @@
+import { MediaFile } from "../types";
+
+export type QuarterTurn = 0 | 90 | 180 | 270;
+
+/** Crop rectangle as fractions (0..1) of the image after rotation. */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PreprocessOptions {
+  rotation: QuarterTurn;
+  crop: CropRect | null;
+  /** Straightens text lines tilted by up to MAX_SKEW_DEGREES. */
+  deskew: boolean;
+  /** Stretches the tonal range, which helps with dim or washed-out photos. */
+  contrast: boolean;
+}
+
+export interface PreprocessResult {
+  page: MediaFile;
+  width: number;
+  height: number;
+  /** Size of the encoded JPEG, to show the saving over the original. */
+  bytes: number;
+}
+
+export const DEFAULT_PREPROCESS: PreprocessOptions = { rotation: 0, crop: null, deskew: false, contrast: false };
+
+// Enough resolution for small print on a label while keeping uploads fast on mobile data
+const MAX_DIMENSION = 2048;
+const TARGET_BYTES = 800 * 1024;
+const JPEG_QUALITIES = [0.85, 0.75, 0.65, 0.55];
+// Source images are reduced to this before any other step, so 12 MP photos do not exhaust memory
+const MAX_WORKING_DIMENSION = 4096;
+const MAX_SKEW_DEGREES = 8;
+const SKEW_STEP_DEGREES = 0.5;
+const SKEW_SAMPLE_WIDTH = 600;
+
+const createCanvas = (width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable.");
+  return [canvas, ctx];
+};
+
+/**
+ * Decodes an image with its EXIF orientation applied, so phone photos come out upright.
+ */
+export const loadImage = (blob: Blob): Promise<ImageBitmap> =>
+  createImageBitmap(blob, { imageOrientation: 'from-image' });
+
+export const mediaFileToBlob = async (file: MediaFile): Promise<Blob> =>
+  (await fetch(`data:${file.mimeType};base64,${file.base64}`)).blob();
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const toBlob = (canvas: HTMLCanvasElement, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Image encoding failed."))), 'image/jpeg', quality));
+
+/**
+ * Draws the source turned by a multiple of 90° and scaled so neither side exceeds `maxSide`.
+ */
+export const drawRotated = (source: CanvasImageSource & { width: number; height: number }, rotation: QuarterTurn, maxSide = MAX_WORKING_DIMENSION): HTMLCanvasElement => {
+  const scale = Math.min(1, maxSide / Math.max(source.width, source.height));
+  const w = source.width * scale;
+  const h = source.height * scale;
+  const sideways = rotation === 90 || rotation === 270;
+  const [canvas, ctx] = createCanvas(sideways ? h : w, sideways ? w : h);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate((rotation * Math.PI) / 180);
+  ctx.drawImage(source, -w / 2, -h / 2, w, h);
+  return canvas;
+};
+
+const cropAndScale = (source: HTMLCanvasElement, crop: CropRect | null): HTMLCanvasElement => {
+  const rect = crop ?? { x: 0, y: 0, width: 1, height: 1 };
+  const sx = rect.x * source.width;
+  const sy = rect.y * source.height;
+  const sw = rect.width * source.width;
+  const sh = rect.height * source.height;
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(sw, sh));
+  const [canvas, ctx] = createCanvas(sw * scale, sh * scale);
+  ctx.drawImage(source, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const luminance = (data: Uint8ClampedArray, i: number) => 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+
+/**
+ * Estimates text tilt with a projection profile: dark pixels are projected onto rows
+ * for each candidate angle, and straight lines of text give the sharpest profile.
+ * Returns degrees, positive when lines fall to the right.
+ */
+export const estimateSkew = (source: HTMLCanvasElement): number => {
+  const scale = Math.min(1, SKEW_SAMPLE_WIDTH / source.width);
+  const [sample, ctx] = createCanvas(source.width * scale, source.height * scale);
+  ctx.drawImage(source, 0, 0, sample.width, sample.height);
+  const { data, width, height } = ctx.getImageData(0, 0, sample.width, sample.height);
+
+  let total = 0;
+  for (let i = 0; i < data.length; i += 4) total += luminance(data, i);
+  const threshold = (total / (width * height)) * 0.75;
+  const dark: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (luminance(data, (y * width + x) * 4) < threshold) dark.push(x, y);
+    }
+  }
+  if (dark.length === 0) return 0;
+
+  let best = { angle: 0, score: -1 };
+  for (let angle = -MAX_SKEW_DEGREES; angle <= MAX_SKEW_DEGREES; angle += SKEW_STEP_DEGREES) {
+    const tan = Math.tan((angle * Math.PI) / 180);
+    const rows = new Map<number, number>();
+    for (let i = 0; i < dark.length; i += 2) {
+      const row = Math.round(dark[i + 1] - dark[i] * tan);
+      rows.set(row, (rows.get(row) ?? 0) + 1);
+    }
+    let score = 0;
+    rows.forEach(count => { score += count * count; });
+    if (score > best.score) best = { angle, score };
+  }
+  return best.angle;
+};
+
+const rotateBy = (source: HTMLCanvasElement, degrees: number): HTMLCanvasElement => {
+  if (degrees === 0) return source;
+  const [canvas, ctx] = createCanvas(source.width, source.height);
+  // Corners uncovered by the rotation are filled white, like paper
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate((degrees * Math.PI) / 180);
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  return canvas;
+};
+
+/**
+ * Linear stretch between the 2nd and 98th luminance percentiles, in place.
+ */
+const stretchContrast = (canvas: HTMLCanvasElement): void => {
+  const ctx = canvas.getContext('2d')!;
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = image;
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < data.length; i += 4) histogram[Math.round(luminance(data, i))]++;
+
+  const pixels = data.length / 4;
+  const percentile = (fraction: number) => {
+    let seen = 0;
+    for (let v = 0; v < 256; v++) {
+      seen += histogram[v];
+      if (seen >= pixels * fraction) return v;
+    }
+    return 255;
+  };
+  const low = percentile(0.02);
+  const high = percentile(0.98);
+  if (high - low < 10) return;
+
+  const factor = 255 / (high - low);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = (data[i] - low) * factor;
+    data[i + 1] = (data[i + 1] - low) * factor;
+    data[i + 2] = (data[i + 2] - low) * factor;
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+/**
+ * Re-encodes as JPEG, lowering quality and then resolution until the file fits TARGET_BYTES.
+ */
+const encode = async (source: HTMLCanvasElement): Promise<{ blob: Blob; canvas: HTMLCanvasElement }> => {
+  let canvas = source;
+  for (;;) {
+    let blob: Blob | null = null;
+    for (const quality of JPEG_QUALITIES) {
+      blob = await toBlob(canvas, quality);
+      if (blob.size <= TARGET_BYTES) return { blob, canvas };
+    }
+    if (Math.max(canvas.width, canvas.height) < 800) return { blob: blob!, canvas };
+    const [smaller, ctx] = createCanvas(canvas.width * 0.8, canvas.height * 0.8);
+    ctx.drawImage(canvas, 0, 0, smaller.width, smaller.height);
+    canvas = smaller;
+  }
+};
+
+/**
+ * Runs the whole pipeline on a decoded photo: rotate, crop, optional deskew and contrast,
+ * then downscale and compress for upload.
+ */
+export const preprocessImage = async (image: ImageBitmap, options: PreprocessOptions): Promise<PreprocessResult> => {
+  let canvas = cropAndScale(drawRotated(image, options.rotation), options.crop);
+  if (options.deskew) canvas = rotateBy(canvas, -estimateSkew(canvas));
+  if (options.contrast) stretchContrast(canvas);
+  const encoded = await encode(canvas);
+  return {
+    page: { base64: await blobToBase64(encoded.blob), mimeType: 'image/jpeg' },
+    width: encoded.canvas.width,
+    height: encoded.canvas.height,
+    bytes: encoded.blob.size,
+  };
+};
+
+/**
+ * Automatic pass applied to every photo on upload: upright, downscaled and compressed.
+ */
+export const preprocessFile = async (file: Blob): Promise<MediaFile> => {
+  const image = await loadImage(file);
+  try {
+    return (await preprocessImage(image, DEFAULT_PREPROCESS)).page;
+  } finally {
+    image.close();
+  }
+};
@@ -0,0 +1,125 @@
+import { GraftType, Implant, Laterality, Procedure, SurgeonRole, SurgicalIntervention } from "../types";
+import { FALLBACK_REGION, Taxonomy, isBuiltInFlag } from "./taxonomy";
+
+const asString = (value: unknown): string => (typeof value === "string" ? value.trim() : "");
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  typeof value === "object" && value !== null ? (value as Record<string, unknown>) : {};
+
+const pickEnum = <T extends string>(values: T[], value: unknown): T | null =>
+  values.find(v => v === value) ?? null;
+
+const toProcedure = (raw: unknown): Procedure => {
+  const data = asRecord(raw);
+  return {
+    description: asString(data.description),
+    isPrimary: data.isPrimary === true,
+    icd10pcs: asString(data.icd10pcs).toUpperCase(),
+    cie9mc: asString(data.cie9mc),
+  };
+};
+
+const toImplant = (raw: unknown): Implant => {
+  const data = asRecord(raw);
+  return {
+    name: asString(data.name),
+    manufacturer: asString(data.manufacturer),
+    reference: asString(data.reference),
+  };
+};
+
+/**
+ * Keeps exactly one primary procedure when there are any: the first flagged one, else the first listed.
+ */
+export const withSinglePrimary = (procedures: Procedure[], primaryIndex?: number): Procedure[] => {
+  const index = primaryIndex ?? Math.max(0, procedures.findIndex(p => p.isPrimary));
+  return procedures.map((p, i) => ({ ...p, isPrimary: i === index }));
+};
+
+const toCustomFlags = (data: Record<string, unknown>, taxonomy?: Taxonomy): Record<string, boolean> => {
+  const flags: Record<string, boolean> = {};
+  for (const [id, value] of Object.entries(asRecord(data.customFlags))) {
+    if (typeof value === "boolean") flags[id] = value;
+  }
+  // Model answers carry custom flags as top-level keys, one per taxonomy flag
+  for (const flag of taxonomy?.flags ?? []) {
+    if (!isBuiltInFlag(flag.id) && typeof data[flag.id] === "boolean") flags[flag.id] = data[flag.id] as boolean;
+  }
+  return flags;
+};
+
+/**
+ * Coerces anything intervention-shaped into a full SurgicalIntervention.
+ * Used for model answers and for records saved before the detailed fields existed,
+ * so missing values get neutral defaults instead of failing.
+ * With a taxonomy, regions outside it fall back to "Otro"; without one, stored labels are kept.
+ */
+export const normalizeIntervention = (raw: unknown, taxonomy?: Taxonomy): SurgicalIntervention => {
+  const data = asRecord(raw);
+  const isLCA = data.isLCA === true;
+  const region = asString(data.region);
+  const procedures = Array.isArray(data.procedures)
+    ? data.procedures.map(toProcedure).filter(p => p.description || p.icd10pcs || p.cie9mc)
+    : [];
+  return {
+    description: asString(data.description),
+    region: (taxonomy ? pickEnum(taxonomy.regions, region) : region) || FALLBACK_REGION,
+    laterality: pickEnum(Object.values(Laterality), data.laterality) ?? Laterality.NOT_SPECIFIED,
+    procedures: withSinglePrimary(procedures),
+    isArthroscopic: data.isArthroscopic === true,
+    isLCA,
+    isKneeRelated: data.isKneeRelated === true,
+    customFlags: toCustomFlags(data, taxonomy),
+    graftType: isLCA ? pickEnum(Object.values(GraftType), data.graftType) : null,
+    implants: Array.isArray(data.implants) ? data.implants.map(toImplant).filter(i => i.name) : [],
+    surgeonRole: pickEnum(Object.values(SurgeonRole), data.surgeonRole) ?? SurgeonRole.PRIMARY,
+  };
+};
+
+export const emptyProcedure = (isPrimary: boolean): Procedure => ({ description: '', isPrimary, icd10pcs: '', cie9mc: '' });
+
+export const emptyImplant = (): Implant => ({ name: '', manufacturer: '', reference: '' });
+
+// Text forms used by CSV export and import. Lists are joined with " | ".
+const LIST_SEPARATOR = ' | ';
+
+/**
+ * "Description [ICD-10-PCS: 0SRC0JZ; CIE-9-MC: 81.45]". The bracket is omitted when there are no codes.
+ */
+export const formatProcedure = (procedure: Procedure): string => {
+  const codes = [
+    procedure.icd10pcs && `ICD-10-PCS: ${procedure.icd10pcs}`,
+    procedure.cie9mc && `CIE-9-MC: ${procedure.cie9mc}`,
+  ].filter(Boolean);
+  return codes.length > 0 ? `${procedure.description} [${codes.join('; ')}]` : procedure.description;
+};
+
+export const formatProcedures = (procedures: Procedure[]): string =>
+  procedures.map(formatProcedure).join(LIST_SEPARATOR);
+
+export const parseProcedures = (text: string, isPrimary: boolean): Procedure[] =>
+  text.split('|').map(part => part.trim()).filter(Boolean).map(part => {
+    const match = part.match(/^(.*?)\s*\[([^\]]*)\]$/);
+    const procedure = emptyProcedure(isPrimary);
+    procedure.description = (match ? match[1] : part).trim();
+    for (const code of (match ? match[2] : '').split(';')) {
+      const [system, value = ''] = code.split(':').map(s => s.trim());
+      if (system.toUpperCase() === 'ICD-10-PCS') procedure.icd10pcs = value.toUpperCase();
+      if (system.toUpperCase() === 'CIE-9-MC') procedure.cie9mc = value;
+    }
+    return procedure;
+  });
+
+/**
+ * "Name; Manufacturer; Reference" per implant. Empty trailing parts are dropped.
+ */
+export const formatImplants = (implants: Implant[]): string =>
+  implants
+    .map(i => [i.name, i.manufacturer, i.reference].join('; ').replace(/(; )+$/, ''))
+    .join(LIST_SEPARATOR);
+
+export const parseImplants = (text: string): Implant[] =>
+  text.split('|').map(part => part.trim()).filter(Boolean).map(part => {
+    const [name = '', manufacturer = '', reference = ''] = part.split(';').map(s => s.trim());
+    return { name, manufacturer, reference };
+  });
@@ -0,0 +1,125 @@
+import { BodyRegion, GraftType, Laterality, PatientDataExtraction, SurgeonRole, SurgicalIntervention } from "../types";
+import { ExtractionProvider } from "./extractionProvider";
+import { normalizeIntervention } from "./interventionModel";
+import { Taxonomy } from "./taxonomy";
+
+const field = (value: string, confidence: number, source = value) => ({ value, confidence, source, page: value ? 1 : 0 });
+
+// Each fixture has at least one low-confidence field so the review flow can be exercised
+const PATIENTS: PatientDataExtraction[] = [
+  {
+    patientName: field("María García López", 0.97, "GARCIA LOPEZ, MARIA"),
+    clinicalHistoryId: field("100234", 0.62, "NHC: 1OO234"),
+    date: field("2024-03-12", 0.9, "12/03/2024"),
+    phoneNumber: field("600 111 222 / 91 555 0101", 0.85, "Tel. 600111222 - 915550101"),
+  },
+  {
+    patientName: field("José Martínez Ruiz", 0.55, "J. MART... RUIZ"),
+    clinicalHistoryId: field("100587", 0.98, "HC 100587"),
+    date: field("2024-04-02", 0.93, "02-04-2024"),
+    phoneNumber: field("611 333 444", 0.9, "Móvil: 611 333 444"),
+  },
+  {
+    patientName: field("Lucía Fernández Gómez", 0.99, "FERNANDEZ GOMEZ, LUCIA"),
+    clinicalHistoryId: field("101112", 0.7, "Nº Historia: 101l12"),
+    date: field("2024-05-20", 0.95, "20 may 2024"),
+    phoneNumber: field("", 0, ""),
+  },
+];
+
+const INTERVENTIONS: SurgicalIntervention[] = [
+  {
+    description: "Reconstrucción artroscópica del LCA con injerto de isquiotibiales",
+    region: BodyRegion.KNEE,
+    laterality: Laterality.RIGHT,
+    procedures: [
+      { description: "Reconstrucción del LCA", isPrimary: true, icd10pcs: "0MRN0KZ", cie9mc: "81.45" },
+      { description: "Meniscectomía parcial interna", isPrimary: false, icd10pcs: "0SBC4ZZ", cie9mc: "80.6" },
+    ],
+    isArthroscopic: true,
+    isLCA: true,
+    isKneeRelated: true,
+    customFlags: {},
+    graftType: GraftType.HAMSTRING,
+    implants: [
+      { name: "Botón cortical ajustable", manufacturer: "Arthrex", reference: "AR-1588RT" },
+      { name: "Tornillo interferencial 9x25", manufacturer: "Smith & Nephew", reference: "72201592" },
+    ],
+    surgeonRole: SurgeonRole.PRIMARY,
+  },
+  {
+    description: "Reparación artroscópica del manguito rotador",
+    region: BodyRegion.SHOULDER,
+    laterality: Laterality.LEFT,
+    procedures: [
+      { description: "Reparación del supraespinoso", isPrimary: true, icd10pcs: "0LQ14ZZ", cie9mc: "83.63" },
+      { description: "Acromioplastia", isPrimary: false, icd10pcs: "", cie9mc: "" },
+    ],
+    isArthroscopic: true,
+    isLCA: false,
+    isKneeRelated: false,
+    customFlags: {},
+    graftType: null,
+    implants: [{ name: "Anclaje de sutura 5.5 mm", manufacturer: "", reference: "" }],
+    surgeonRole: SurgeonRole.FIRST_ASSISTANT,
+  },
+  {
+    description: "Osteosíntesis de fractura de radio distal con placa volar",
+    region: BodyRegion.WRIST,
+    laterality: Laterality.NOT_SPECIFIED,
+    procedures: [{ description: "Reducción abierta y fijación interna de radio distal", isPrimary: true, icd10pcs: "", cie9mc: "79.32" }],
+    isArthroscopic: false,
+    isLCA: false,
+    isKneeRelated: false,
+    customFlags: {},
+    graftType: null,
+    implants: [{ name: "Placa volar de bloqueo", manufacturer: "", reference: "" }],
+    surgeonRole: SurgeonRole.PRIMARY,
+  },
+];
+
+// What the surgeon "said" for each intervention fixture, in the same order
+const TRANSCRIPTS: string[] = [
+  "Rodilla derecha. Reconstrucción artroscópica del ligamento cruzado anterior con isquiotibiales, botón cortical ajustable de Arthrex y tornillo interferencial de nueve por veinticinco de Smith and Nephew. Se asocia meniscectomía parcial interna.",
+  "Hombro izquierdo, actúo como primer ayudante. Reparación artroscópica del manguito rotador, supraespinoso, con un anclaje de cinco coma cinco, y acromioplastia.",
+  "Fractura de radio distal. Reducción abierta y osteosíntesis con placa volar de bloqueo.",
+];
+
+// Short pause so loading states are visible during UI work
+const LATENCY_MS = 400;
+
+/**
+ * Stable, cheap hash so the same capture always yields the same fixture.
+ */
+const pick = <T>(items: T[], payload: string): T => {
+  let hash = 0;
+  for (let i = 0; i < payload.length; i += 97) {
+    hash = (hash * 31 + payload.charCodeAt(i)) | 0;
+  }
+  return items[Math.abs(hash) % items.length];
+};
+
+const delay = () => new Promise(resolve => setTimeout(resolve, LATENCY_MS));
+
+/**
+ * Offline provider returning canned data. Needs no API key or network, for development and demos.
+ */
+export const createMockProvider = (taxonomy: Taxonomy): ExtractionProvider => ({
+  kind: 'mock',
+  extractPatientData: async (pages) => {
+    await delay();
+    // The first page picks the patient; phone numbers are read from the last page, as on a two-sheet admission
+    const data = structuredClone(pick(PATIENTS, pages[0]?.base64 ?? ''));
+    if (data.phoneNumber.value) data.phoneNumber.page = pages.length;
+    return data;
+  },
+  processInterventionAudio: async (base64Audio) => {
+    await delay();
+    const index = INTERVENTIONS.indexOf(pick(INTERVENTIONS, base64Audio));
+    return {
+      // Same path as real answers, so regions missing from the taxonomy fall back like they would
+      intervention: normalizeIntervention(structuredClone(INTERVENTIONS[index]), taxonomy),
+      transcript: TRANSCRIPTS[index],
+    };
+  },
+});
@@ -0,0 +1,126 @@
+import { GraftType, Laterality, MediaFile, SurgeonRole } from "../types";
+import {
+  ExtractionProvider,
+  PATIENT_DATA_PROMPT,
+  ProviderConfig,
+  describeFlags,
+  pageLabel,
+  toIntervention,
+  toPatientData
+} from "./extractionProvider";
+import { Taxonomy } from "./taxonomy";
+
+export const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+export const DEFAULT_OPENAI_MODEL = "gpt-4o-mini";
+export const DEFAULT_TRANSCRIPTION_MODEL = "whisper-1";
+
+const quoted = (values: string[]) => values.map(v => `"${v}"`).join(", ");
+
+// Without a response schema the keys and allowed values have to be spelled out in the prompt
+const PATIENT_DATA_JSON_HINT = `Responde solo con un objeto JSON con las claves "patientName", "clinicalHistoryId", "date" y "phoneNumber". Cada una es un objeto con "value" (texto), "confidence" (número entre 0 y 1) y "source" (texto) y "page" (número entero).`;
+
+const buildClassificationPrompt = (taxonomy: Taxonomy) => `A continuación tienes la transcripción del dictado de un cirujano sobre una intervención quirúrgica.
+Devuelve solo un objeto JSON con estas claves:
+- "description": la descripción de la intervención, corregida ortográficamente.
+- "region": una de ${quoted(taxonomy.regions)}.
+- "laterality": una de ${quoted(Object.values(Laterality))}.
+- "procedures": lista de objetos con "description", "isPrimary" (true solo en el principal), "icd10pcs" y "cie9mc" (códigos si se dictan o si estás seguro; si no, cadena vacía).
+- "graftType": si es una plastia de LCA, una de ${quoted(Object.values(GraftType))}; si no, null.
+- "implants": lista de objetos con "name", "manufacturer" y "reference" (cadena vacía si no se mencionan).
+- "surgeonRole": una de ${quoted(Object.values(SurgeonRole))}. Si no se indica, "${SurgeonRole.PRIMARY}".
+Y una clave booleana (true o false) por cada una de estas características:
+${describeFlags(taxonomy)}`;
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  "audio/webm": "webm",
+  "audio/mp4": "m4a",
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+  "audio/ogg": "ogg",
+};
+
+// Vision endpoints take images as data URLs; PDFs go as file parts where supported
+const pageContent = (page: MediaFile, index: number) =>
+  page.mimeType === "application/pdf"
+    ? { type: "file", file: { filename: `pagina-${index + 1}.pdf`, file_data: `data:${page.mimeType};base64,${page.base64}` } }
+    : { type: "image_url", image_url: { url: `data:${page.mimeType};base64,${page.base64}` } };
+
+const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+/**
+ * Provider for any endpoint speaking the OpenAI REST API: OpenAI itself, Azure-style
+ * gateways, or local servers such as Ollama, LM Studio or LocalAI.
+ * Audio is transcribed first and the transcript is then classified by the chat model.
+ */
+export const createOpenAiCompatibleProvider = (config: ProviderConfig, taxonomy: Taxonomy): ExtractionProvider => {
+  const baseUrl = (config.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, "");
+  const model = config.model || DEFAULT_OPENAI_MODEL;
+  const transcriptionModel = config.transcriptionModel || DEFAULT_TRANSCRIPTION_MODEL;
+  const authHeaders: Record<string, string> = config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+
+  const post = async (path: string, body: BodyInit, headers: Record<string, string> = {}) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: { ...authHeaders, ...headers },
+      body,
+    });
+    if (!response.ok) {
+      throw new Error(`${path} failed with HTTP ${response.status}: ${await response.text()}`);
+    }
+    return response.json();
+  };
+
+  const chatJson = async (content: unknown[]): Promise<unknown> => {
+    const data = await post("/chat/completions", JSON.stringify({
+      model,
+      messages: [{ role: "user", content }],
+      response_format: { type: "json_object" },
+      temperature: 0,
+    }), { "Content-Type": "application/json" });
+    const text = data?.choices?.[0]?.message?.content;
+    if (typeof text !== "string") throw new Error("No response text from chat completion.");
+    return JSON.parse(text);
+  };
+
+  const extractPatientData: ExtractionProvider['extractPatientData'] = async (pages: MediaFile[]) => {
+    try {
+      return toPatientData(await chatJson([
+        ...pages.flatMap((page, index) => [{ type: "text", text: pageLabel(index) }, pageContent(page, index)]),
+        { type: "text", text: `${PATIENT_DATA_PROMPT}\n${PATIENT_DATA_JSON_HINT}` },
+      ]), pages.length);
+    } catch (error) {
+      console.error("Error extracting patient data:", error);
+      throw error;
+    }
+  };
+
+  const processInterventionAudio: ExtractionProvider['processInterventionAudio'] = async (base64Audio, mimeType) => {
+    try {
+      const form = new FormData();
+      const extension = AUDIO_EXTENSIONS[mimeType.split(";")[0]] ?? "webm";
+      form.append("file", base64ToBlob(base64Audio, mimeType), `dictado.${extension}`);
+      form.append("model", transcriptionModel);
+      form.append("language", "es");
+      const transcription = await post("/audio/transcriptions", form);
+      const transcript = typeof transcription?.text === "string" ? transcription.text : "";
+      if (!transcript.trim()) throw new Error("Empty transcription.");
+
+      const intervention = toIntervention(await chatJson([
+        { type: "text", text: `${buildClassificationPrompt(taxonomy)}\n\nTranscripción:\n${transcript}` },
+      ]), taxonomy);
+      return { intervention, transcript };
+    } catch (error) {
+      console.error("Error processing audio:", error);
+      throw error;
+    }
+  };
+
+  return { kind: 'openai', extractPatientData, processInterventionAudio };
+};
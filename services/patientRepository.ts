@@ -0,0 +1,244 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Patient, PatientRecord } from "../types";
+import { EncryptedPayload, decryptJson, encryptJson } from "./crypto";
+import { PATIENTS_STORE, RECORDS_STORE, openDatabase, promisifyRequest, transactionDone } from "./database";
+import { SealedRecord, openRecord, sealRecord } from "./recordCipher";
+import { getVaultKey } from "./vault";
+
+interface SealedPatient extends EncryptedPayload {
+  id: string;
+  createdAt: number;
+}
+
+export interface PatientLinks {
+  /** Live records, newest first. */
+  records: PatientRecord[];
+  /** Records in the trash bin, newest first. */
+  trashed: PatientRecord[];
+  patients: Patient[];
+}
+
+/**
+ * Comparable form of a clinical history number. Empty when it is unknown ("S/N"),
+ * so records without an HC are never grouped together.
+ */
+export const patientKey = (clinicalHistoryId: string | undefined): string => {
+  const value = (clinicalHistoryId ?? '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return value === 'SN' ? '' : value;
+};
+
+type Demographics = Pick<PatientRecord, 'patientName' | 'clinicalHistoryId' | 'phoneNumber' | 'phones'>;
+
+const demographics = ({ patientName, clinicalHistoryId, phoneNumber, phones }: Demographics) =>
+  ({ patientName, clinicalHistoryId, phoneNumber: phoneNumber ?? '', phones });
+
+const sameDemographics = (a: Demographics, b: Demographics): boolean =>
+  a.patientName === b.patientName &&
+  a.clinicalHistoryId === b.clinicalHistoryId &&
+  (a.phoneNumber ?? '') === (b.phoneNumber ?? '') &&
+  JSON.stringify(a.phones ?? []) === JSON.stringify(b.phones ?? []);
+
+const lastChange = (item: { createdAt: number; updatedAt?: number }) => item.updatedAt ?? item.createdAt;
+
+// Every write seals with a fresh IV, so it tells whether a record changed since it was read
+const recordVersion = (sealed: SealedRecord): string => Array.from(sealed.iv).join(',');
+
+// Plans retried when cases keep being saved while the patients are linked
+const MAX_WRITE_ATTEMPTS = 5;
+
+interface PatientWrite<T> {
+  patients: Patient[];
+  removedIds: string[];
+  records: PatientRecord[];
+  result: T;
+}
+
+// Linking and patient edits read and rewrite the same data; running them one at a time keeps
+// two overlapping runs from creating the same patient twice or undoing each other's writes
+let pending: Promise<unknown> = Promise.resolve();
+
+const serialized = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = pending.then(task, task);
+  pending = run.catch(() => undefined);
+  return run;
+};
+
+interface StoredData {
+  sealedRecords: SealedRecord[];
+  records: PatientRecord[];
+  patients: Patient[];
+}
+
+const readAll = async (db: IDBDatabase, key: CryptoKey): Promise<StoredData> => {
+  const tx = db.transaction([RECORDS_STORE, PATIENTS_STORE], "readonly");
+  const [sealedRecords, sealedPatients] = await Promise.all([
+    promisifyRequest<SealedRecord[]>(tx.objectStore(RECORDS_STORE).getAll()),
+    promisifyRequest<SealedPatient[]>(tx.objectStore(PATIENTS_STORE).getAll()),
+  ]);
+  const [records, patients] = await Promise.all([
+    Promise.all(sealedRecords.map(sealed => openRecord(key, sealed))),
+    Promise.all(sealedPatients.map(sealed => decryptJson<Patient>(key, sealed))),
+  ]);
+  return { sealedRecords, records, patients };
+};
+
+/**
+ * Reads every record and patient, lets `plan` decide what to change and writes patients and
+ * records in a single transaction. WebCrypto is async, so reading and writing are separate
+ * transactions; if a record to be written was saved or purged in between, the plan starts over.
+ */
+const writeAtomically = <T>(plan: (records: PatientRecord[], patients: Patient[]) => PatientWrite<T>): Promise<T> =>
+  serialized(async () => {
+    const db = await openDatabase();
+    for (let attempt = 1; ; attempt++) {
+      const key = getVaultKey();
+      const { sealedRecords, records, patients } = await readAll(db, key);
+      const versions = new Map(sealedRecords.map(sealed => [sealed.id, recordVersion(sealed)]));
+
+      const write = plan(records, patients);
+      if (write.patients.length === 0 && write.removedIds.length === 0 && write.records.length === 0) return write.result;
+      const [patientsToPut, recordsToPut] = await Promise.all([
+        Promise.all(write.patients.map(async patient => ({
+          id: patient.id,
+          createdAt: patient.createdAt,
+          ...(await encryptJson(key, patient)),
+        }))),
+        Promise.all(write.records.map(record => sealRecord(key, record))),
+      ]);
+
+      const tx = db.transaction([RECORDS_STORE, PATIENTS_STORE], "readwrite");
+      const recordStore = tx.objectStore(RECORDS_STORE);
+      const current = await Promise.all(write.records.map(record =>
+        promisifyRequest<SealedRecord | undefined>(recordStore.get(record.id))
+      ));
+      if (current.some((sealed, i) => !sealed || recordVersion(sealed) !== versions.get(write.records[i].id))) {
+        tx.abort();
+        await transactionDone(tx).catch(() => undefined);
+        if (attempt === MAX_WRITE_ATTEMPTS) throw new Error("Los registros cambiaron mientras se agrupaban por paciente.");
+        continue;
+      }
+      const patientStore = tx.objectStore(PATIENTS_STORE);
+      for (const sealed of patientsToPut) {
+        patientStore.put(sealed);
+      }
+      for (const id of write.removedIds) {
+        patientStore.delete(id);
+      }
+      for (const sealed of recordsToPut) {
+        recordStore.put(sealed);
+      }
+      await transactionDone(tx);
+      return write.result;
+    }
+  });
+
+const newestFirst = (a: PatientRecord, b: PatientRecord) => b.createdAt - a.createdAt;
+
+/**
+ * Links every record with a known HC to the patient holding that HC, creating patients as needed,
+ * and removes patients left without records. The first run after the upgrade groups all existing
+ * records; later runs only touch records whose HC was added or changed, or restored from a backup.
+ * Demographics live on the patient: a case edited after its patient updates the patient, and
+ * every case is then brought in line with its patient. Trashed cases stay linked, so a patient
+ * keeps its id while they can still be restored. Runs after records are saved, imported or restored;
+ * nothing is written when every case is already linked and in line.
+ */
+export const linkPatients = (): Promise<void> => writeAtomically(
+  (records, stored) => {
+    const byId = new Map(stored.map(p => [p.id, p]));
+    const byKey = new Map(stored.map(p => [patientKey(p.clinicalHistoryId), p]));
+    const created: Patient[] = [];
+    const assigned = new Map<string, string | undefined>();
+
+    for (const record of [...records].sort((a, b) => lastChange(b) - lastChange(a))) {
+      const key = patientKey(record.clinicalHistoryId);
+      const current = record.patientId ? byId.get(record.patientId) : undefined;
+      if (!key || (current && patientKey(current.clinicalHistoryId) === key)) {
+        assigned.set(record.id, key ? record.patientId : undefined);
+        continue;
+      }
+      let patient = byKey.get(key);
+      if (!patient) {
+        patient = {
+          // Records restored from a backup keep the patient id they were saved with
+          id: record.patientId && !byId.has(record.patientId) ? record.patientId : uuidv4(),
+          ...demographics(record),
+          createdAt: Date.now(),
+        };
+        byId.set(patient.id, patient);
+        byKey.set(key, patient);
+        created.push(patient);
+      }
+      assigned.set(record.id, patient.id);
+    }
+
+    const withIds: PatientRecord[] = records.map(record => {
+      const patientId = assigned.get(record.id);
+      if (patientId === record.patientId) return record;
+      const { patientId: _previous, ...rest } = record;
+      return patientId ? { ...rest, patientId } : rest;
+    });
+
+    // The most recently edited case of each patient, if it was edited after the patient
+    const updatedAt = Date.now();
+    const changedPatients = new Set<Patient>(created);
+    for (const record of [...withIds].sort((a, b) => lastChange(b) - lastChange(a))) {
+      const patient = record.patientId ? byId.get(record.patientId) : undefined;
+      if (!patient || changedPatients.has(patient) || lastChange(record) <= lastChange(patient)) continue;
+      if (sameDemographics(record, patient)) continue;
+      const next: Patient = { ...patient, ...demographics(record), updatedAt };
+      byId.set(next.id, next);
+      changedPatients.add(next);
+    }
+
+    const linked = withIds.map(record => {
+      const patient = record.patientId ? byId.get(record.patientId) : undefined;
+      return patient && !sameDemographics(record, patient) ? { ...record, ...demographics(patient), updatedAt } : record;
+    });
+    const used = new Set(linked.map(record => record.patientId));
+    return {
+      patients: [...changedPatients],
+      removedIds: stored.filter(p => !used.has(p.id)).map(p => p.id),
+      records: linked.filter((record, i) => record !== records[i]),
+      result: undefined,
+    };
+  }
+);
+
+/**
+ * Live and trashed records with the patients they belong to, read in one transaction without
+ * writing anything. Patients whose last case was deleted for good are left out until the next link.
+ */
+export const loadPatientLinks = async (): Promise<PatientLinks> => {
+  const db = await openDatabase();
+  const { records, patients } = await readAll(db, getVaultKey());
+  const used = new Set(records.map(record => record.patientId));
+  return {
+    records: records.filter(record => record.deletedAt === undefined).sort(newestFirst),
+    trashed: records.filter(record => record.deletedAt !== undefined).sort(newestFirst),
+    patients: patients.filter(p => used.has(p.id)),
+  };
+};
+
+/**
+ * Corrects a patient's demographics and copies them to every case of that patient, trashed ones
+ * included, in one transaction. Returns false, changing nothing, if the new HC already belongs
+ * to another patient.
+ */
+export const updatePatient = (patient: Patient): Promise<boolean> => writeAtomically(
+  (records, stored) => {
+    const key = patientKey(patient.clinicalHistoryId);
+    if (stored.some(p => p.id !== patient.id && patientKey(p.clinicalHistoryId) === key)) {
+      return { patients: [], removedIds: [], records: [], result: false };
+    }
+    const updatedAt = Date.now();
+    return {
+      patients: [{ ...patient, updatedAt }],
+      removedIds: [],
+      records: records
+        .filter(record => record.patientId === patient.id)
+        .map(record => ({ ...record, ...demographics(patient), updatedAt })),
+      result: true,
+    };
+  }
+);
@@ -0,0 +1,171 @@
+/**
+ * Minimal PDF writer for the printable reports: text in the standard Helvetica fonts, lines and
+ * filled rectangles on A4 pages. The standard fonts need no embedding, which keeps the files small
+ * and the code free of dependencies. Text is limited to the WinAnsi character set, which covers
+ * Spanish; anything else prints as "?".
+ */
+
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+/** Grey level, 0 (black) to 1 (white). */
+export type Gray = number;
+
+export type PdfOp =
+  | { kind: 'text'; x: number; y: number; text: string; size: number; bold?: boolean; gray?: Gray }
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number; width?: number; gray?: Gray }
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; fill: Gray };
+
+/** Drawing operations of one page. Coordinates are points from the top-left corner. */
+export type PdfPage = PdfOp[];
+
+// Advance widths in 1/1000 em for characters 32..126, from the standard Adobe font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Characters outside Latin-1 that WinAnsi places in 128..159
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 128, '‚': 130, '…': 133, '‘': 145, '’': 146, '“': 147, '”': 148, '•': 149, '–': 150, '—': 151,
+};
+
+// Widths of the non-ASCII characters the reports use that are not an accented ASCII letter
+const EXTRA_WIDTHS: Record<string, number> = {
+  '¿': 611, '¡': 333, 'º': 365, 'ª': 370, '·': 278, '°': 400, '«': 556, '»': 556,
+  '€': 556, '…': 1000, '‘': 222, '’': 222, '“': 333, '”': 333, '•': 350, '–': 556, '—': 1000,
+};
+
+const toWinAnsi = (char: string): number => {
+  const code = char.charCodeAt(0);
+  if (code >= 32 && code <= 126) return code;
+  if (code >= 160 && code <= 255) return code;
+  return WIN_ANSI_EXTRAS[char] ?? 63; // "?"
+};
+
+const charWidth = (char: string, bold: boolean): number => {
+  const table = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const code = char.charCodeAt(0);
+  if (code >= 32 && code <= 126) return table[code - 32];
+  if (EXTRA_WIDTHS[char] !== undefined) return EXTRA_WIDTHS[char];
+  // Accented letters are as wide as their base letter
+  const base = char.normalize('NFD').charCodeAt(0);
+  return base >= 32 && base <= 126 ? table[base - 32] : 556;
+};
+
+/** Width of `text` in points at the given font size. */
+export const textWidth = (text: string, size: number, bold = false): number =>
+  [...text].reduce((sum, char) => sum + charWidth(char, bold), 0) * size / 1000;
+
+/**
+ * Breaks text into lines no wider than `maxWidth`, at spaces where possible. Explicit line
+ * breaks are kept; words longer than a line are split.
+ */
+export const wrapText = (text: string, maxWidth: number, size: number, bold = false): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, bold) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = '';
+      let rest = word;
+      while (textWidth(rest, size, bold) > maxWidth) {
+        let cut = rest.length - 1;
+        while (cut > 1 && textWidth(rest.slice(0, cut), size, bold) > maxWidth) cut--;
+        lines.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      line = rest;
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+/** Shortens text with "…" so it fits in `maxWidth`. */
+export const truncateText = (text: string, maxWidth: number, size: number, bold = false): string => {
+  if (textWidth(text, size, bold) <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && textWidth(`${text.slice(0, end)}…`, size, bold) > maxWidth) end--;
+  return `${text.slice(0, end)}…`;
+};
+
+// A PDF literal string; bytes outside ASCII are written as octal escapes so the file stays ASCII
+const pdfString = (text: string): string => {
+  let out = '(';
+  for (const char of text) {
+    const code = toWinAnsi(char);
+    if (char === '(' || char === ')' || char === '\\') out += `\\${char}`;
+    else if (code > 126) out += `\\${code.toString(8).padStart(3, '0')}`;
+    else out += String.fromCharCode(code);
+  }
+  return `${out})`;
+};
+
+const num = (value: number): string => String(Math.round(value * 100) / 100);
+
+const renderOp = (op: PdfOp): string => {
+  switch (op.kind) {
+    case 'text':
+      return `BT ${num(op.gray ?? 0)} g /${op.bold ? 'F2' : 'F1'} ${num(op.size)} Tf ` +
+        `${num(op.x)} ${num(PAGE_HEIGHT - op.y)} Td ${pdfString(op.text)} Tj ET`;
+    case 'line':
+      return `${num(op.gray ?? 0)} G ${num(op.width ?? 0.5)} w ` +
+        `${num(op.x1)} ${num(PAGE_HEIGHT - op.y1)} m ${num(op.x2)} ${num(PAGE_HEIGHT - op.y2)} l S`;
+    case 'rect':
+      return `${num(op.fill)} g ${num(op.x)} ${num(PAGE_HEIGHT - op.y - op.height)} ` +
+        `${num(op.width)} ${num(op.height)} re f`;
+  }
+};
+
+/**
+ * Serializes the pages to a PDF 1.4 file.
+ */
+export const renderPdf = (pages: PdfPage[], title: string): Blob => {
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  pages.forEach((page, i) => {
+    const content = page.map(renderOp).join('\n');
+    objects[pageIds[i]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(PAGE_WIDTH)} ${num(PAGE_HEIGHT)}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+  const infoId = objects.length;
+  objects[infoId] = `<< /Title ${pdfString(title)} /Producer (SurgiLog) >>`;
+
+  let file = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = file.length;
+    file += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = file.length;
+  file += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    file += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  file += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return new Blob([file], { type: 'application/pdf' });
+};
@@ -0,0 +1,347 @@
+import { PatientRecord, SurgeonRole } from "../types";
+import { downloadBlob, todayStamp } from "./download";
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfPage, renderPdf, textWidth, truncateText, wrapText } from "./pdfDocument";
+import { DateRange, computeStatistics, filterByDateRange } from "./statistics";
+import { Taxonomy, activeFlags, getFlag } from "./taxonomy";
+import { localToday } from "./validation";
+
+/** Printed at the top of every report. */
+export interface ReportHeader {
+  surgeonName: string;
+  hospital: string;
+}
+
+export interface ReportOptions {
+  header: ReportHeader;
+  /** Replaces patient names with a code and leaves out HC, phones and the dictation transcript. */
+  pseudonymize: boolean;
+}
+
+export interface LogbookOptions extends ReportOptions {
+  range: DateRange;
+}
+
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+// Lowest baseline for content; the footer sits below it
+const CONTENT_BOTTOM = PAGE_HEIGHT - 70;
+const BODY_SIZE = 9;
+const LINE_HEIGHT = 1.35;
+
+const ROLE_ABBREVIATIONS: Record<SurgeonRole, string> = {
+  [SurgeonRole.PRIMARY]: 'Principal',
+  [SurgeonRole.FIRST_ASSISTANT]: '1.er ayud.',
+  [SurgeonRole.SECOND_ASSISTANT]: '2.º ayud.',
+};
+
+/**
+ * Stable code for the patient of a record: the same patient gets the same code in every report,
+ * and only someone with access to the database can tell who it is.
+ */
+export const pseudonym = (record: PatientRecord): string =>
+  `P-${(record.patientId ?? record.id).replace(/-/g, '').slice(0, 8).toUpperCase()}`;
+
+const formatDate = (iso: string): string => {
+  const [year, month, day] = iso.split('-');
+  return year && month && day ? `${day}/${month}/${year}` : iso;
+};
+
+const periodLabel = (range: DateRange, records: PatientRecord[]): string => {
+  const dates = records.map(r => r.date).sort();
+  const from = range.from || dates[0];
+  const to = range.to || dates[dates.length - 1];
+  if (!from && !to) return 'Sin casos';
+  return `${from ? formatDate(from) : '…'} – ${to ? formatDate(to) : '…'}`;
+};
+
+/** Pages being laid out, with the baseline of the next line on the last one. */
+interface Cursor {
+  pages: PdfPage[];
+  y: number;
+}
+
+const currentPage = (cursor: Cursor): PdfPage => cursor.pages[cursor.pages.length - 1];
+
+const addPage = (cursor: Cursor): void => {
+  cursor.pages.push([]);
+  cursor.y = MARGIN;
+};
+
+/** Starts a new page unless `height` more points fit on this one. Returns true if it did. */
+const ensureSpace = (cursor: Cursor, height: number): boolean => {
+  if (cursor.y + height <= CONTENT_BOTTOM) return false;
+  addPage(cursor);
+  return true;
+};
+
+const writeLine = (cursor: Cursor, x: number, text: string, size = BODY_SIZE, bold = false, gray = 0): void => {
+  ensureSpace(cursor, size * LINE_HEIGHT);
+  cursor.y += size * LINE_HEIGHT;
+  currentPage(cursor).push({ kind: 'text', x, y: cursor.y, text, size, bold, gray });
+};
+
+const writeParagraph = (cursor: Cursor, x: number, width: number, text: string, size = BODY_SIZE, bold = false): void => {
+  for (const line of wrapText(text, width, size, bold)) writeLine(cursor, x, line, size, bold);
+};
+
+const rule = (cursor: Cursor, gap = 6, gray = 0.75): void => {
+  cursor.y += gap;
+  currentPage(cursor).push({ kind: 'line', x1: MARGIN, y1: cursor.y, x2: PAGE_WIDTH - MARGIN, y2: cursor.y, gray });
+};
+
+const sectionTitle = (cursor: Cursor, title: string): void => {
+  ensureSpace(cursor, 40);
+  cursor.y += 10;
+  writeLine(cursor, MARGIN, title, 11, true);
+  rule(cursor, 3);
+};
+
+/** A "Label: value" line with the value wrapped beside the label. Empty values are skipped. */
+const field = (cursor: Cursor, label: string, value: string, labelWidth = 120): void => {
+  if (!value) return;
+  const lines = wrapText(value, CONTENT_WIDTH - labelWidth, BODY_SIZE);
+  ensureSpace(cursor, BODY_SIZE * LINE_HEIGHT);
+  writeLine(cursor, MARGIN, label, BODY_SIZE, true, 0.35);
+  currentPage(cursor).push({ kind: 'text', x: MARGIN + labelWidth, y: cursor.y, text: lines[0], size: BODY_SIZE });
+  for (const line of lines.slice(1)) writeLine(cursor, MARGIN + labelWidth, line);
+};
+
+const writeHeader = (cursor: Cursor, title: string, header: ReportHeader, period?: string): void => {
+  writeLine(cursor, MARGIN, title, 16, true);
+  cursor.y += 4;
+  field(cursor, 'Cirujano', header.surgeonName || '—', 80);
+  field(cursor, 'Centro', header.hospital || '—', 80);
+  if (period) field(cursor, 'Periodo', period, 80);
+  field(cursor, 'Emitido el', formatDate(localToday()), 80);
+  rule(cursor, 8, 0.4);
+};
+
+const signatures = (cursor: Cursor, labels: string[]): void => {
+  ensureSpace(cursor, 90);
+  cursor.y += 60;
+  const width = (CONTENT_WIDTH - 40 * (labels.length - 1)) / labels.length;
+  labels.forEach((label, i) => {
+    const x = MARGIN + i * (width + 40);
+    currentPage(cursor).push({ kind: 'line', x1: x, y1: cursor.y, x2: x + width, y2: cursor.y, gray: 0.3 });
+    currentPage(cursor).push({ kind: 'text', x, y: cursor.y + 12, text: label, size: 8, gray: 0.35 });
+  });
+  cursor.y += 12;
+};
+
+const addFooters = (pages: PdfPage[], title: string, header: ReportHeader): void => {
+  const left = [title, header.surgeonName, header.hospital].filter(Boolean).join(' · ');
+  const y = PAGE_HEIGHT - 40;
+  pages.forEach((page, i) => {
+    const pageLabel = `Página ${i + 1} de ${pages.length}`;
+    page.push(
+      { kind: 'line', x1: MARGIN, y1: y - 12, x2: PAGE_WIDTH - MARGIN, y2: y - 12, gray: 0.8 },
+      { kind: 'text', x: MARGIN, y, text: truncateText(left, CONTENT_WIDTH - 100, 7), size: 7, gray: 0.45 },
+      { kind: 'text', x: PAGE_WIDTH - MARGIN - textWidth(pageLabel, 7), y, text: pageLabel, size: 7, gray: 0.45 },
+    );
+  });
+};
+
+const patientLabel = (record: PatientRecord, options: ReportOptions): string =>
+  options.pseudonymize ? pseudonym(record) : record.patientName;
+
+const primaryProcedure = (record: PatientRecord): string =>
+  record.intervention?.procedures.find(p => p.isPrimary)?.description ?? '';
+
+/**
+ * Lays out the sheet of one case: patient, intervention, procedures with their codes, flags,
+ * implants and, unless pseudonymized, the dictation transcript, with room for a signature.
+ */
+export const buildCaseSheet = (record: PatientRecord, taxonomy: Taxonomy, options: ReportOptions): PdfPage[] => {
+  const cursor: Cursor = { pages: [], y: 0 };
+  addPage(cursor);
+  writeHeader(cursor, 'Hoja quirúrgica', options.header);
+
+  sectionTitle(cursor, 'Paciente');
+  field(cursor, 'Paciente', patientLabel(record, options));
+  if (!options.pseudonymize) {
+    field(cursor, 'Historia clínica', record.clinicalHistoryId);
+    field(cursor, 'Teléfono', record.phoneNumber ?? '');
+  }
+  field(cursor, 'Fecha de la intervención', formatDate(record.date));
+
+  const intervention = record.intervention;
+  sectionTitle(cursor, 'Intervención');
+  if (!intervention) {
+    writeLine(cursor, MARGIN, 'Sin intervención registrada.');
+  } else {
+    field(cursor, 'Región', intervention.region);
+    field(cursor, 'Lateralidad', intervention.laterality);
+    field(cursor, 'Rol del cirujano', intervention.surgeonRole);
+    field(cursor, 'Descripción', intervention.description);
+    field(cursor, 'Características', activeFlags(taxonomy)
+      .filter(flag => getFlag(intervention, flag.id))
+      .map(flag => flag.label)
+      .join(', ') || 'Ninguna');
+    if (intervention.isLCA) field(cursor, 'Injerto', intervention.graftType ?? 'No especificado');
+
+    if (intervention.procedures.length > 0) {
+      sectionTitle(cursor, 'Procedimientos');
+      for (const procedure of intervention.procedures) {
+        const codes = [
+          procedure.icd10pcs && `ICD-10-PCS ${procedure.icd10pcs}`,
+          procedure.cie9mc && `CIE-9-MC ${procedure.cie9mc}`,
+        ].filter(Boolean).join(' · ');
+        writeParagraph(cursor, MARGIN, CONTENT_WIDTH,
+          `• ${procedure.description}${procedure.isPrimary ? ' (principal)' : ''}${codes ? ` — ${codes}` : ''}`);
+      }
+    }
+
+    if (intervention.implants.length > 0) {
+      sectionTitle(cursor, 'Implantes');
+      for (const implant of intervention.implants) {
+        writeParagraph(cursor, MARGIN, CONTENT_WIDTH,
+          `• ${[implant.name, implant.manufacturer, implant.reference && `ref. ${implant.reference}`].filter(Boolean).join(' · ')}`);
+      }
+    }
+  }
+
+  // The transcript is verbatim and may name the patient
+  if (record.dictation && !options.pseudonymize) {
+    sectionTitle(cursor, 'Transcripción del dictado');
+    writeParagraph(cursor, MARGIN, CONTENT_WIDTH, record.dictation.transcript);
+  }
+
+  signatures(cursor, ['Firma del cirujano']);
+  addFooters(cursor.pages, 'Hoja quirúrgica', options.header);
+  return cursor.pages;
+};
+
+interface Column {
+  header: string;
+  width: number;
+  value: (record: PatientRecord, index: number) => string;
+  /** Wrapped over several lines instead of cut short. */
+  wrap?: boolean;
+}
+
+const logbookColumns = (options: ReportOptions): Column[] => {
+  const columns: Column[] = [
+    { header: 'Nº', width: 22, value: (_, i) => String(i + 1) },
+    { header: 'Fecha', width: 54, value: r => formatDate(r.date) },
+    { header: 'Paciente', width: options.pseudonymize ? 62 : 90, wrap: true, value: r => patientLabel(r, options) },
+  ];
+  if (!options.pseudonymize) columns.push({ header: 'HC', width: 56, value: r => r.clinicalHistoryId });
+  columns.push(
+    { header: 'Región · Lado', width: 70, wrap: true, value: r => r.intervention ? `${r.intervention.region} · ${r.intervention.laterality}` : '' },
+    { header: 'Rol', width: 48, value: r => r.intervention ? ROLE_ABBREVIATIONS[r.intervention.surgeonRole] ?? r.intervention.surgeonRole : '' },
+  );
+  const used = columns.reduce((sum, c) => sum + c.width, 0);
+  columns.splice(columns.length - 1, 0, {
+    header: 'Intervención',
+    width: CONTENT_WIDTH - used,
+    wrap: true,
+    value: r => {
+      const primary = primaryProcedure(r);
+      return [r.intervention?.description, primary && `Proc. principal: ${primary}`].filter(Boolean).join('\n');
+    },
+  });
+  return columns;
+};
+
+const CELL_PADDING = 3;
+
+const tableHeader = (cursor: Cursor, columns: Column[]): void => {
+  const height = BODY_SIZE * LINE_HEIGHT + 2 * CELL_PADDING;
+  currentPage(cursor).push({ kind: 'rect', x: MARGIN, y: cursor.y, width: CONTENT_WIDTH, height, fill: 0.9 });
+  let x = MARGIN;
+  for (const column of columns) {
+    currentPage(cursor).push({ kind: 'text', x: x + CELL_PADDING, y: cursor.y + CELL_PADDING + BODY_SIZE, text: column.header, size: 8, bold: true });
+    x += column.width;
+  }
+  cursor.y += height;
+};
+
+const caseTable = (cursor: Cursor, records: PatientRecord[], options: ReportOptions): void => {
+  const columns = logbookColumns(options);
+  const lineHeight = BODY_SIZE * LINE_HEIGHT;
+  ensureSpace(cursor, 3 * lineHeight);
+  tableHeader(cursor, columns);
+  records.forEach((record, index) => {
+    const cells = columns.map(column => {
+      const text = column.value(record, index);
+      const width = column.width - 2 * CELL_PADDING;
+      return column.wrap ? wrapText(text, width, BODY_SIZE) : [truncateText(text, width, BODY_SIZE)];
+    });
+    const height = Math.max(...cells.map(lines => lines.length)) * lineHeight + 2 * CELL_PADDING;
+    // Rows are never split; a new page repeats the column headers
+    if (ensureSpace(cursor, height)) tableHeader(cursor, columns);
+    if (index % 2 === 1) {
+      currentPage(cursor).push({ kind: 'rect', x: MARGIN, y: cursor.y, width: CONTENT_WIDTH, height, fill: 0.97 });
+    }
+    let x = MARGIN;
+    cells.forEach((lines, i) => {
+      lines.forEach((line, l) => currentPage(cursor).push({
+        kind: 'text', x: x + CELL_PADDING, y: cursor.y + CELL_PADDING + BODY_SIZE + l * lineHeight, text: line, size: BODY_SIZE,
+      }));
+      x += columns[i].width;
+    });
+    cursor.y += height;
+  });
+  rule(cursor, 0, 0.6);
+};
+
+const percent = (part: number, total: number): string =>
+  total === 0 ? '0 %' : `${Math.round((part / total) * 100)} %`;
+
+/**
+ * Lays out the logbook for a date range: totals per region, arthroscopic, open and LCA counts,
+ * cases per surgeon role, and every case in date order, with room for the signatures.
+ */
+export const buildLogbook = (records: PatientRecord[], regions: string[], options: LogbookOptions): PdfPage[] => {
+  const cases = filterByDateRange(records, options.range)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt - b.createdAt);
+  const stats = computeStatistics(cases, { from: '', to: '' }, regions);
+  const cursor: Cursor = { pages: [], y: 0 };
+  addPage(cursor);
+  writeHeader(cursor, 'Libro de registro quirúrgico', options.header, periodLabel(options.range, cases));
+
+  sectionTitle(cursor, 'Resumen');
+  const classified = stats.arthroscopic + stats.open;
+  const lca = stats.lcaPerYear.reduce((sum, year) => sum + year.count, 0);
+  field(cursor, 'Casos', String(stats.total));
+  field(cursor, 'Artroscópicos', `${stats.arthroscopic} (${percent(stats.arthroscopic, classified)})`);
+  field(cursor, 'Abiertos', `${stats.open} (${percent(stats.open, classified)})`);
+  field(cursor, 'Reconstrucciones LCA', String(lca));
+  for (const role of Object.values(SurgeonRole)) {
+    const count = cases.filter(r => r.intervention?.surgeonRole === role).length;
+    if (count > 0) field(cursor, `Como ${role.toLowerCase()}`, `${count} (${percent(count, stats.total)})`);
+  }
+
+  sectionTitle(cursor, 'Casos por región');
+  const withCases = stats.perRegion.filter(region => region.count > 0);
+  if (withCases.length === 0) writeLine(cursor, MARGIN, 'Sin casos en el periodo.');
+  for (const region of withCases) {
+    field(cursor, region.label, `${region.count} (${percent(region.count, stats.total)})`);
+  }
+
+  if (cases.length > 0) {
+    sectionTitle(cursor, 'Relación de casos');
+    caseTable(cursor, cases, options);
+  }
+
+  signatures(cursor, ['Firma del cirujano', 'Visto bueno (tutor o jefe de servicio)']);
+  addFooters(cursor.pages, 'Libro de registro quirúrgico', options.header);
+  return cursor.pages;
+};
+
+/**
+ * Builds the sheet of one case and downloads it.
+ */
+export const downloadCaseSheet = (record: PatientRecord, taxonomy: Taxonomy, options: ReportOptions): void => {
+  const title = 'Hoja quirúrgica';
+  downloadBlob(renderPdf(buildCaseSheet(record, taxonomy, options), title), `surgilog_caso_${record.date}.pdf`);
+};
+
+/**
+ * Builds the logbook for the selected range and downloads it. Returns the number of cases included.
+ */
+export const downloadLogbook = (records: PatientRecord[], regions: string[], options: LogbookOptions): number => {
+  const title = 'Libro de registro quirúrgico';
+  downloadBlob(renderPdf(buildLogbook(records, regions, options), title), `surgilog_libro_${todayStamp()}.pdf`);
+  return filterByDateRange(records, options.range).length;
+};
@@ -0,0 +1,31 @@
+import { ExtractionProvider, ProviderConfig, ProviderKind } from "./extractionProvider";
+import { createGeminiProvider } from "./geminiService";
+import { createMockProvider } from "./mockProvider";
+import { createOpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+import { Taxonomy } from "./taxonomy";
+
+const PROVIDER_KINDS: ProviderKind[] = ['gemini', 'openai', 'mock'];
+
+const envProvider = import.meta.env.VITE_AI_PROVIDER as ProviderKind | undefined;
+
+export const DEFAULT_PROVIDER_CONFIG: ProviderConfig = {
+  kind: envProvider && PROVIDER_KINDS.includes(envProvider) ? envProvider : 'gemini',
+  model: '',
+  baseUrl: '',
+  apiKey: '',
+  transcriptionModel: '',
+};
+
+/**
+ * Builds the provider selected in the settings. The taxonomy shapes the intervention schema.
+ */
+export const createExtractionProvider = (config: ProviderConfig, taxonomy: Taxonomy): ExtractionProvider => {
+  switch (config.kind) {
+    case 'openai':
+      return createOpenAiCompatibleProvider(config, taxonomy);
+    case 'mock':
+      return createMockProvider(taxonomy);
+    default:
+      return createGeminiProvider(config, taxonomy);
+  }
+};
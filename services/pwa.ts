@@ -0,0 +1,75 @@
+/** Chrome's install prompt event; not in the DOM typings yet. */
+interface BeforeInstallPromptEvent extends Event {
+  prompt(): Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+// Deployed builds are checked for updates at most this often while the app stays open
+const UPDATE_CHECK_MS = 60 * 60_000;
+
+/**
+ * Registers the service worker built into /sw.js (production builds only) and calls
+ * `onUpdateReady` when a new version is installed and waiting. Calling the given
+ * `activate` switches to it and reloads the page. Returns a cleanup function.
+ */
+export const registerServiceWorker = (onUpdateReady: (activate: () => void) => void): (() => void) => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return () => {};
+
+  let interval: number | undefined;
+  let reloading = false;
+  const onControllerChange = () => {
+    // Only reload for an update the user accepted, not for the very first install
+    if (!reloading) return;
+    window.location.reload();
+  };
+
+  const notify = (worker: ServiceWorker) =>
+    onUpdateReady(() => {
+      reloading = true;
+      worker.postMessage({ type: 'SKIP_WAITING' });
+    });
+
+  navigator.serviceWorker.addEventListener('controllerchange', onControllerChange);
+  navigator.serviceWorker.register('/sw.js').then(registration => {
+    // An update may already be waiting from a previous visit
+    if (registration.waiting && navigator.serviceWorker.controller) notify(registration.waiting);
+    registration.addEventListener('updatefound', () => {
+      const installing = registration.installing;
+      installing?.addEventListener('statechange', () => {
+        if (installing.state === 'installed' && navigator.serviceWorker.controller) notify(installing);
+      });
+    });
+    interval = window.setInterval(() => registration.update().catch(() => {}), UPDATE_CHECK_MS);
+  }).catch(e => console.error("Service worker registration failed", e));
+
+  return () => {
+    window.clearInterval(interval);
+    navigator.serviceWorker.removeEventListener('controllerchange', onControllerChange);
+  };
+};
+
+/**
+ * Calls `onAvailable` when the browser offers to install the app. The given `install`
+ * shows the native prompt and resolves to whether the user accepted.
+ * `onInstalled` fires once the app is installed. Returns a cleanup function.
+ */
+export const listenForInstallPrompt = (
+  onAvailable: (install: () => Promise<boolean>) => void,
+  onInstalled: () => void
+): (() => void) => {
+  const handlePrompt = (event: Event) => {
+    // Keep the browser's mini-infobar away; the header shows its own button
+    event.preventDefault();
+    const prompt = event as BeforeInstallPromptEvent;
+    onAvailable(async () => {
+      await prompt.prompt();
+      return (await prompt.userChoice).outcome === 'accepted';
+    });
+  };
+  window.addEventListener('beforeinstallprompt', handlePrompt);
+  window.addEventListener('appinstalled', onInstalled);
+  return () => {
+    window.removeEventListener('beforeinstallprompt', handlePrompt);
+    window.removeEventListener('appinstalled', onInstalled);
+  };
+};
@@ -0,0 +1,35 @@
+import { PatientRecord } from "../types";
+import { EncryptedPayload, decryptJson, encryptJson } from "./crypto";
+import { normalizeIntervention } from "./interventionModel";
+
+/**
+ * What the records store actually holds once the vault is set up.
+ * Only the fields needed for ordering and purging stay in clear.
+ */
+export interface SealedRecord extends EncryptedPayload {
+  id: string;
+  createdAt: number;
+  deletedAt?: number;
+}
+
+export const isSealedRecord = (value: unknown): value is SealedRecord =>
+  typeof value === "object" && value !== null && (value as SealedRecord).data instanceof ArrayBuffer;
+
+export const sealRecord = async (key: CryptoKey, record: PatientRecord): Promise<SealedRecord> => {
+  const { iv, data } = await encryptJson(key, record);
+  return {
+    id: record.id,
+    createdAt: record.createdAt,
+    ...(record.deletedAt !== undefined && { deletedAt: record.deletedAt }),
+    iv,
+    data,
+  };
+};
+
+/**
+ * Decrypts a record. Interventions saved before the detailed fields existed are filled with defaults.
+ */
+export const openRecord = async (key: CryptoKey, sealed: SealedRecord): Promise<PatientRecord> => {
+  const record = await decryptJson<PatientRecord>(key, sealed);
+  return record.intervention ? { ...record, intervention: normalizeIntervention(record.intervention) } : record;
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { PatientRecord } from '../types';
+import { BACKUP_FORMAT, BACKUP_VERSION, BackupFile } from './backupFormat';
+import { guessMapping, markDuplicates, recordsToImport, rowsFromBackup, rowsFromCsv } from './recordImport';
+import { DEFAULT_TAXONOMY } from './taxonomy';
+
+const rules = { hcPatterns: [{ hospital: 'Hospital A', pattern: '\\d{6}' }], defaultCountryCode: '34' };
+
+const backupOf = (records: unknown[]): BackupFile =>
+  ({ format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: '2024-06-01T00:00:00.000Z', records: records as PatientRecord[] });
+
+const saved = (overrides: Partial<PatientRecord> = {}): PatientRecord => ({
+  id: 'r1',
+  patientName: 'Ana Pérez',
+  clinicalHistoryId: '123456',
+  phoneNumber: '+34600111222',
+  date: '2024-03-01',
+  intervention: null,
+  createdAt: 1_000,
+  ...overrides,
+});
+
+describe('rowsFromCsv', () => {
+  const header = ['Nombre', 'NHC', 'Teléfono', 'Fecha', 'Descripción', 'Zona'];
+
+  it('maps columns by header and normalizes the patient fields', () => {
+    const rows = [header, ['Ana Pérez', ' 123456 ', '600 111 222', '01/03/2024', 'Artroscopia de rodilla', 'Rodilla']];
+    const [row] = rowsFromCsv(rows, guessMapping(header, DEFAULT_TAXONOMY), DEFAULT_TAXONOMY, rules);
+    expect(row.index).toBe(2);
+    expect(row.errors).toEqual([]);
+    expect(row.record).toMatchObject({
+      patientName: 'Ana Pérez',
+      clinicalHistoryId: '123456',
+      phoneNumber: '+34600111222',
+      date: '2024-03-01',
+      intervention: { description: 'Artroscopia de rodilla', region: 'Rodilla' },
+    });
+  });
+
+  it('reports missing names, bad dates and HC numbers that break the configured format', () => {
+    const rows = [header, ['', '12', '', '31/02/2024', '', '']];
+    const [row] = rowsFromCsv(rows, guessMapping(header, DEFAULT_TAXONOMY), DEFAULT_TAXONOMY, rules);
+    expect(row.record).toBeNull();
+    expect(row.errors.length).toBeGreaterThanOrEqual(3);
+  });
+});
+
+describe('rowsFromBackup', () => {
+  it('keeps ids, timestamps, trash state, dictation and patient link', () => {
+    const dictation = { audioId: 'audio-1', mimeType: 'audio/webm', transcript: 'texto', recordedAt: 900 };
+    const [row] = rowsFromBackup(
+      backupOf([saved({ updatedAt: 2_000, deletedAt: 3_000, dictation, patientId: 'p1' })]),
+      DEFAULT_TAXONOMY,
+      rules
+    );
+    expect(row.errors).toEqual([]);
+    expect(row.record).toMatchObject({ id: 'r1', createdAt: 1_000, updatedAt: 2_000, deletedAt: 3_000, dictation, patientId: 'p1' });
+  });
+
+  it('leaves live records live', () => {
+    const [row] = rowsFromBackup(backupOf([saved()]), DEFAULT_TAXONOMY, rules);
+    expect(row.record).not.toHaveProperty('deletedAt');
+  });
+
+  it('restores records that would fail the stricter CSV checks', () => {
+    const [row] = rowsFromBackup(backupOf([saved({ clinicalHistoryId: 'OTRO-FORMATO', date: '1900-01-01' })]), DEFAULT_TAXONOMY, rules);
+    expect(row.record).toMatchObject({ clinicalHistoryId: 'OTRO-FORMATO', date: '1900-01-01' });
+  });
+
+  it('keeps regions removed from the taxonomy since the backup was made', () => {
+    const intervention = { description: 'Mano', region: 'Mano' } as PatientRecord['intervention'];
+    const [row] = rowsFromBackup(backupOf([saved({ intervention })]), DEFAULT_TAXONOMY, rules);
+    expect(row.record?.intervention?.region).toBe('Mano');
+  });
+});
+
+describe('markDuplicates', () => {
+  it('flags rows matching an existing record or an earlier row by id or by HC and date', () => {
+    const rows = [saved({ id: 'x' }), saved({ id: 'y' }), saved({ id: 'z', date: '2024-04-01' }), saved({ id: 'w', clinicalHistoryId: 'S/N' })]
+      .map((record, i) => ({ index: i + 1, record, errors: [] }));
+    const marked = markDuplicates(rows, [saved({ id: 'z', date: '2020-01-01' })]);
+    expect(marked.map(row => row.duplicateOf?.id)).toEqual([undefined, 'x', 'z', undefined]);
+    expect(recordsToImport(marked).map(r => r.id)).toEqual(['x', 'w']);
+  });
+});
@@ -0,0 +1,282 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DictationInfo, GraftType, Laterality, PatientRecord, SurgeonRole } from "../types";
+import { CsvColumn, getCsvColumns, unguardCsvField } from "./csvExport";
+import { BackupFile } from "./backupFormat";
+import { normalizeIntervention, parseImplants, parseProcedures, withSinglePrimary } from "./interventionModel";
+import { normalizeText } from "./recordSearch";
+import { FALLBACK_REGION, Taxonomy, activeFlags, isBuiltInFlag } from "./taxonomy";
+import { ValidationRules, normalizeDate, normalizePatientFields, validatePatientFields } from "./validation";
+
+/** A CSV column id: a fixed field or a taxonomy flag id. */
+export type ImportFieldId = string;
+
+/** Target field id -> index of the source column, or null when not imported. */
+export type ColumnMapping = Record<ImportFieldId, number | null>;
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportRow {
+  /** 1-based position in the source file, for error messages. */
+  index: number;
+  record: PatientRecord | null;
+  errors: string[];
+  /** Set when a record with the same id, or the same HC and date, already exists. */
+  duplicateOf?: PatientRecord;
+}
+
+type RawFields = Partial<Record<ImportFieldId, string | boolean | undefined>>;
+
+export const REQUIRED_FIELDS: ImportFieldId[] = ['patientName', 'date'];
+
+/** Fields offered in the column-mapping step. CSV ids are never imported. */
+export const getMappableFields = (taxonomy: Taxonomy): CsvColumn[] =>
+  getCsvColumns(taxonomy).filter(c => c.id !== 'id');
+
+// Extra header spellings recognised when guessing the mapping, besides our own export headers
+const HEADER_SYNONYMS: Record<string, ImportFieldId> = {
+  'nombre': 'patientName',
+  'paciente': 'patientName',
+  'patient': 'patientName',
+  'historia clinica': 'clinicalHistoryId',
+  'historia': 'clinicalHistoryId',
+  'nhc': 'clinicalHistoryId',
+  'telefono': 'phoneNumber',
+  'telefonos': 'phoneNumber',
+  'fecha cirugia': 'date',
+  'descripcion': 'description',
+  'procedimiento': 'description',
+  'cirugia': 'description',
+  'zona': 'region',
+  'lado': 'laterality',
+  'procedimiento principal': 'primaryProcedure',
+  'procedimientos': 'secondaryProcedures',
+  'artroscopica': 'isArthroscopic',
+  'acl': 'isLCA',
+  'injerto lca': 'graftType',
+  'material': 'implants',
+  'rol': 'surgeonRole',
+  'funcion': 'surgeonRole',
+};
+
+/**
+ * Maps source headers to fields by name: our own export headers, field ids and common synonyms.
+ */
+export const guessMapping = (headers: string[], taxonomy: Taxonomy): ColumnMapping => {
+  const normalized = headers.map(h => normalizeText(h.trim()));
+  const mapping = {} as ColumnMapping;
+  for (const column of getMappableFields(taxonomy)) {
+    const names = [
+      normalizeText(column.header),
+      normalizeText(column.id),
+      ...Object.entries(HEADER_SYNONYMS).filter(([, id]) => id === column.id).map(([name]) => name),
+    ];
+    const index = normalized.findIndex(h => names.includes(h));
+    mapping[column.id] = index === -1 ? null : index;
+  }
+  return mapping;
+};
+
+const parseBoolean = (value: string | boolean | undefined): boolean | null => {
+  if (typeof value === 'boolean') return value;
+  const normalized = normalizeText((value ?? '').trim());
+  if (['si', 's', 'yes', 'y', 'true', '1', 'x'].includes(normalized)) return true;
+  if (['no', 'n', 'false', '0', ''].includes(normalized)) return false;
+  return null;
+};
+
+const parseEnum = <T extends string>(values: T[], value: string): T | null => {
+  const normalized = normalizeText(value.trim());
+  return values.find(v => normalizeText(v) === normalized) ?? null;
+};
+
+const asText = (value: string | boolean | undefined): string =>
+  typeof value === 'string' ? value.trim() : '';
+
+/**
+ * Validates one source row against the PatientRecord shape and normalizes its HC, phones and date.
+ * Backups pass `lenient` to skip the HC, phone and date range checks, so every saved record can be
+ * restored. `base` carries identity fields and the trash state preserved from JSON backups.
+ */
+const toRecord = (
+  fields: RawFields,
+  taxonomy: Taxonomy,
+  rules: ValidationRules,
+  lenient: boolean,
+  base: Partial<Pick<PatientRecord, 'id' | 'createdAt' | 'updatedAt' | 'deletedAt'>> = {}
+): { record: PatientRecord | null; errors: string[] } => {
+  const errors: string[] = [];
+
+  const patientName = asText(fields.patientName);
+  if (!patientName) errors.push('Falta el nombre del paciente.');
+
+  const date = normalizeDate(asText(fields.date));
+  if (!date) errors.push(`Fecha no válida: "${asText(fields.date)}".`);
+
+  if (!lenient) {
+    const clinicalHistoryId = asText(fields.clinicalHistoryId);
+    const fieldErrors = validatePatientFields({ clinicalHistoryId, phoneNumber: asText(fields.phoneNumber), date: date ?? '' }, rules);
+    if (date && fieldErrors.date) errors.push(`${fieldErrors.date.slice(0, -1)}: ${date}.`);
+    if (fieldErrors.clinicalHistoryId) errors.push(`HC "${clinicalHistoryId}": ${fieldErrors.clinicalHistoryId}`);
+    if (fieldErrors.phoneNumber) errors.push(fieldErrors.phoneNumber);
+  }
+
+  const description = asText(fields.description);
+  const regionText = asText(fields.region);
+  const region = regionText ? parseEnum(taxonomy.regions, regionText) : FALLBACK_REGION;
+  if (!region) errors.push(`Región desconocida: "${regionText}".`);
+
+  const lateralityText = asText(fields.laterality);
+  const laterality = lateralityText ? parseEnum(Object.values(Laterality), lateralityText) : Laterality.NOT_SPECIFIED;
+  if (!laterality) errors.push(`Lateralidad desconocida: "${lateralityText}".`);
+
+  const graftText = asText(fields.graftType);
+  const graftType = graftText ? parseEnum(Object.values(GraftType), graftText) : null;
+  if (graftText && !graftType) errors.push(`Tipo de injerto desconocido: "${graftText}".`);
+
+  const roleText = asText(fields.surgeonRole);
+  const surgeonRole = roleText ? parseEnum(Object.values(SurgeonRole), roleText) : SurgeonRole.PRIMARY;
+  if (!surgeonRole) errors.push(`Rol del cirujano desconocido: "${roleText}".`);
+
+  const flags: Record<string, boolean> = {};
+  for (const flag of activeFlags(taxonomy)) {
+    const value = parseBoolean(fields[flag.id]);
+    if (value === null) errors.push(`Valor no reconocido en ${flag.label}: "${asText(fields[flag.id])}".`);
+    else flags[flag.id] = value;
+  }
+  const customFlags = Object.fromEntries(Object.entries(flags).filter(([id]) => !isBuiltInFlag(id)));
+
+  if (errors.length > 0) return { record: null, errors };
+
+  const hasIntervention = description !== '' || regionText !== '';
+  return {
+    record: normalizePatientFields({
+      id: base.id ?? uuidv4(),
+      patientName,
+      clinicalHistoryId: asText(fields.clinicalHistoryId) || 'S/N',
+      phoneNumber: asText(fields.phoneNumber),
+      date: date!,
+      intervention: hasIntervention
+        ? {
+            description,
+            region: region!,
+            laterality: laterality!,
+            procedures: withSinglePrimary([
+              ...parseProcedures(asText(fields.primaryProcedure), true),
+              ...parseProcedures(asText(fields.secondaryProcedures), false),
+            ]),
+            isArthroscopic: flags.isArthroscopic ?? false,
+            isLCA: flags.isLCA ?? false,
+            isKneeRelated: flags.isKneeRelated ?? false,
+            customFlags,
+            graftType: flags.isLCA ? graftType : null,
+            implants: parseImplants(asText(fields.implants)),
+            surgeonRole: surgeonRole!,
+          }
+        : null,
+      createdAt: base.createdAt ?? Date.now(),
+      ...(base.updatedAt !== undefined && { updatedAt: base.updatedAt }),
+      ...(base.deletedAt !== undefined && { deletedAt: base.deletedAt }),
+    }, rules),
+    errors,
+  };
+};
+
+const duplicateKey = (record: PatientRecord): string | null => {
+  const hc = record.clinicalHistoryId.trim().toLowerCase();
+  // Unknown HC numbers can't identify a patient, so they never count as duplicates
+  return hc && hc !== 's/n' ? `${hc}|${record.date}` : null;
+};
+
+/**
+ * Flags rows that match an existing record, or an earlier row of the same file.
+ * When replacing the database, pass an empty `existing` list so only in-file repeats count.
+ */
+export const markDuplicates = (rows: ImportRow[], existing: PatientRecord[]): ImportRow[] => {
+  const byId = new Map(existing.map(r => [r.id, r]));
+  const byKey = new Map<string, PatientRecord>();
+  for (const record of existing) {
+    const key = duplicateKey(record);
+    if (key) byKey.set(key, record);
+  }
+  return rows.map(row => {
+    if (!row.record) return row;
+    const key = duplicateKey(row.record);
+    const duplicateOf = byId.get(row.record.id) ?? (key ? byKey.get(key) : undefined);
+    byId.set(row.record.id, row.record);
+    if (key && !byKey.has(key)) byKey.set(key, row.record);
+    return duplicateOf ? { ...row, duplicateOf } : row;
+  });
+};
+
+/**
+ * Builds import rows from parsed CSV data (header row first) using the chosen mapping.
+ */
+export const rowsFromCsv = (rows: string[][], mapping: ColumnMapping, taxonomy: Taxonomy, rules: ValidationRules): ImportRow[] =>
+  rows.slice(1).map((cells, i) => {
+    const fields: RawFields = {};
+    for (const [field, column] of Object.entries(mapping)) {
+      if (column !== null) fields[field as ImportFieldId] = unguardCsvField(cells[column] ?? '');
+    }
+    // CSV rows always get a fresh id, so they can never clobber records from another device
+    return { index: i + 2, ...toRecord(fields, taxonomy, rules, false) };
+  });
+
+const isDictationInfo = (value: unknown): value is DictationInfo => {
+  const d = value as Partial<DictationInfo> | null | undefined;
+  return typeof d?.audioId === 'string' && typeof d.mimeType === 'string'
+    && typeof d.transcript === 'string' && typeof d.recordedAt === 'number';
+};
+
+/**
+ * Builds import rows from a JSON backup, keeping the original ids, timestamps and trash state.
+ */
+export const rowsFromBackup = (backup: BackupFile, taxonomy: Taxonomy, rules: ValidationRules): ImportRow[] => {
+  // Regions removed from the taxonomy since the backup was made are kept rather than rejected
+  const backupRegions = backup.records
+    .map(candidate => (candidate as Partial<PatientRecord> | null)?.intervention?.region)
+    .filter((region): region is string => typeof region === 'string');
+  const lenientTaxonomy = { ...taxonomy, regions: [...new Set([...taxonomy.regions, ...backupRegions])] };
+  return backup.records.map((candidate, i) => {
+    const r = (candidate ?? {}) as Partial<PatientRecord>;
+    const fields: RawFields = {
+      patientName: r.patientName,
+      clinicalHistoryId: r.clinicalHistoryId,
+      phoneNumber: r.phoneNumber,
+      date: r.date,
+      description: r.intervention?.description,
+      region: r.intervention?.region,
+      isArthroscopic: r.intervention?.isArthroscopic ?? false,
+      isLCA: r.intervention?.isLCA ?? false,
+      isKneeRelated: r.intervention?.isKneeRelated ?? false,
+    };
+    const base = {
+      id: typeof r.id === 'string' && r.id ? r.id : undefined,
+      createdAt: typeof r.createdAt === 'number' ? r.createdAt : undefined,
+      updatedAt: typeof r.updatedAt === 'number' ? r.updatedAt : undefined,
+      // Trashed records go back to the trash bin, as a restore from the backup dialog does
+      deletedAt: typeof r.deletedAt === 'number' ? r.deletedAt : undefined,
+    };
+    const { record, errors } = toRecord(fields, lenientTaxonomy, rules, true, base);
+    // Everything but the validated text fields is already structured in a backup, so it skips the
+    // text parsing. This also keeps flags that are currently disabled in the taxonomy.
+    if (record?.intervention) {
+      const { description, region } = record.intervention;
+      record.intervention = normalizeIntervention({ ...r.intervention, description, region });
+    }
+    // Backups carry the dictation transcript; the audio stays on the device it was recorded on
+    if (record && isDictationInfo(r.dictation)) {
+      record.dictation = r.dictation;
+    }
+    // Restored cases rejoin the patient they were grouped under, see linkPatients
+    if (record && typeof r.patientId === 'string' && r.patientId) {
+      record.patientId = r.patientId;
+    }
+    return { index: i + 1, record, errors };
+  });
+};
+
+/**
+ * Records that will actually be written: valid rows that are not duplicates.
+ */
+export const recordsToImport = (rows: ImportRow[]): PatientRecord[] =>
+  rows.filter(row => row.record && !row.duplicateOf).map(row => row.record!);
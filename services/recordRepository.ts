@@ -0,0 +1,166 @@
+import { PatientRecord } from "../types";
+import { openDatabase, promisifyRequest, RECORDS_STORE, transactionDone } from "./database";
+import { SealedRecord, openRecord, sealRecord } from "./recordCipher";
+import { getVaultKey } from "./vault";
+
+export interface RecordQuery {
+  /** Inclusive lower bound, YYYY-MM-DD. */
+  from?: string;
+  /** Inclusive upper bound, YYYY-MM-DD. */
+  to?: string;
+  region?: string;
+  clinicalHistoryId?: string;
+  /** Return only records in the trash bin instead of only live ones. */
+  deleted?: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const matchesQuery = (record: PatientRecord, query: RecordQuery): boolean => {
+  if (Boolean(query.deleted) !== (record.deletedAt !== undefined)) return false;
+  if (query.from && record.date < query.from) return false;
+  if (query.to && record.date > query.to) return false;
+  if (query.region && record.intervention?.region !== query.region) return false;
+  if (query.clinicalHistoryId && record.clinicalHistoryId !== query.clinicalHistoryId) return false;
+  return true;
+};
+
+/**
+ * Returns the records matching the query, newest first.
+ * Records are stored encrypted, so everything except the trash flag is filtered after decryption.
+ */
+export const queryRecords = async (query: RecordQuery = {}): Promise<PatientRecord[]> => {
+  const key = getVaultKey();
+  const db = await openDatabase();
+  const store = db.transaction(RECORDS_STORE, "readonly").objectStore(RECORDS_STORE);
+  // Only trashed records carry `deletedAt`, so its index is the trash bin
+  const sealed = await promisifyRequest<SealedRecord[]>(
+    query.deleted ? store.index("deletedAt").getAll() : store.getAll()
+  );
+  const records = await Promise.all(sealed.map(s => openRecord(key, s)));
+  return records
+    .filter(r => matchesQuery(r, query))
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getRecord = async (id: string): Promise<PatientRecord | undefined> => {
+  const key = getVaultKey();
+  const db = await openDatabase();
+  const store = db.transaction(RECORDS_STORE, "readonly").objectStore(RECORDS_STORE);
+  const sealed = await promisifyRequest<SealedRecord | undefined>(store.get(id));
+  return sealed && openRecord(key, sealed);
+};
+
+/**
+ * Writes already-sealed records in a single readwrite transaction.
+ */
+const writeSealed = async (sealed: SealedRecord[], mode: 'add' | 'put'): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(RECORDS_STORE, "readwrite");
+  const store = tx.objectStore(RECORDS_STORE);
+  for (const item of sealed) {
+    store[mode](item);
+  }
+  await transactionDone(tx);
+};
+
+/**
+ * Inserts a new record. Fails if a record with the same id already exists.
+ */
+export const createRecord = async (record: PatientRecord): Promise<PatientRecord> => {
+  await writeSealed([await sealRecord(getVaultKey(), record)], 'add');
+  return record;
+};
+
+/**
+ * Applies `change` to the stored record and saves the result.
+ * Encryption is async, so the read and the write run in separate transactions.
+ */
+const patchRecord = async (id: string, change: (record: PatientRecord) => PatientRecord): Promise<PatientRecord> => {
+  const key = getVaultKey();
+  const existing = await getRecord(id);
+  if (!existing) {
+    throw new Error(`Record ${id} not found.`);
+  }
+  const updated = change(existing);
+  await writeSealed([await sealRecord(key, updated)], 'put');
+  return updated;
+};
+
+/**
+ * Replaces an existing record. Fails if no record with that id exists.
+ */
+export const updateRecord = (record: PatientRecord): Promise<PatientRecord> =>
+  patchRecord(record.id, () => record);
+
+/**
+ * Replaces several records in a single transaction.
+ */
+export const updateRecords = async (records: PatientRecord[]): Promise<void> => {
+  const key = getVaultKey();
+  await writeSealed(await Promise.all(records.map(r => sealRecord(key, r))), 'put');
+};
+
+/**
+ * Soft-deletes a record by moving it to the trash bin.
+ */
+export const trashRecord = (id: string): Promise<PatientRecord> =>
+  patchRecord(id, record => ({ ...record, deletedAt: Date.now() }));
+
+/**
+ * Brings a record back from the trash bin.
+ */
+export const restoreRecord = (id: string): Promise<PatientRecord> =>
+  patchRecord(id, ({ deletedAt, ...record }) => record);
+
+/**
+ * Trashed records that `purgeExpiredRecords` would remove with this retention period.
+ */
+export const expiredRecords = (trashed: PatientRecord[], retentionDays: number, now = Date.now()): PatientRecord[] =>
+  trashed.filter(record => record.deletedAt !== undefined && record.deletedAt <= now - retentionDays * DAY_MS);
+
+/**
+ * Permanently removes trashed records older than the retention period.
+ * Works on the clear-text `deletedAt`, so no decryption is needed.
+ * Returns the number of records purged.
+ */
+export const purgeExpiredRecords = async (retentionDays: number): Promise<number> => {
+  const db = await openDatabase();
+  const tx = db.transaction(RECORDS_STORE, "readwrite");
+  const index = tx.objectStore(RECORDS_STORE).index("deletedAt");
+  const done = transactionDone(tx);
+  const cutoff = Date.now() - retentionDays * DAY_MS;
+  const keys = await promisifyRequest(index.getAllKeys(IDBKeyRange.upperBound(cutoff)));
+  for (const key of keys) {
+    tx.objectStore(RECORDS_STORE).delete(key);
+  }
+  await done;
+  return keys.length;
+};
+
+/**
+ * Writes imported records in a single transaction, so a failed import leaves the database untouched.
+ * In "replace" mode every live record is moved to the trash bin first, keeping it recoverable.
+ */
+export const importRecords = async (records: PatientRecord[], mode: 'merge' | 'replace'): Promise<void> => {
+  const key = getVaultKey();
+  const toWrite = [...records];
+  if (mode === 'replace') {
+    const deletedAt = Date.now();
+    const current = await queryRecords();
+    const importedIds = new Set(records.map(r => r.id));
+    // A record being replaced by its own imported copy does not need a trashed duplicate
+    toWrite.unshift(...current.filter(r => !importedIds.has(r.id)).map(r => ({ ...r, deletedAt })));
+  }
+  await writeSealed(await Promise.all(toWrite.map(r => sealRecord(key, r))), 'put');
+};
+
+/**
+ * Permanently removes a record. Prefer `trashRecord` for user-initiated deletes.
+ */
+export const deleteRecord = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(RECORDS_STORE, "readwrite");
+  tx.objectStore(RECORDS_STORE).delete(id);
+  await transactionDone(tx);
+};
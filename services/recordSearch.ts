@@ -0,0 +1,105 @@
+import { PatientRecord } from "../types";
+import { getFlag } from "./taxonomy";
+
+export type FlagFilter = 'any' | 'yes' | 'no';
+
+export interface RecordFilters {
+  text: string;
+  region: string;
+  /** By taxonomy flag id. Missing flags are not filtered. */
+  flags: Record<string, FlagFilter>;
+  /** Inclusive lower bound, YYYY-MM-DD. */
+  from: string;
+  /** Inclusive upper bound, YYYY-MM-DD. */
+  to: string;
+}
+
+export type SortKey = 'date' | 'patientName' | 'clinicalHistoryId' | 'region' | 'createdAt';
+
+export interface SortOrder {
+  key: SortKey;
+  direction: 'asc' | 'desc';
+}
+
+export const EMPTY_FILTERS: RecordFilters = {
+  text: '',
+  region: '',
+  flags: {},
+  from: '',
+  to: '',
+};
+
+/**
+ * Lowercases and strips accents so "Muñoz" matches "munoz".
+ */
+export const normalizeText = (value: string): string =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const matchesFlag = (value: boolean, filter: FlagFilter): boolean =>
+  filter === 'any' || (filter === 'yes') === value;
+
+const matchesFilters = (record: PatientRecord, filters: RecordFilters, terms: string[]): boolean => {
+  if (filters.from && record.date < filters.from) return false;
+  if (filters.to && record.date > filters.to) return false;
+  if (filters.region && record.intervention?.region !== filters.region) return false;
+  for (const [flag, filter] of Object.entries(filters.flags)) {
+    if (!matchesFlag(getFlag(record.intervention, flag), filter)) return false;
+  }
+  if (terms.length > 0) {
+    const haystack = normalizeText(
+      [
+        record.patientName,
+        record.clinicalHistoryId,
+        record.intervention?.description ?? '',
+        // Procedure names and codes, so a billing code finds its cases
+        ...(record.intervention?.procedures ?? []).flatMap(p => [p.description, p.icd10pcs, p.cie9mc]),
+      ].join(' ')
+    );
+    if (!terms.every(term => haystack.includes(term))) return false;
+  }
+  return true;
+};
+
+/**
+ * Applies the table filters. Every word of the free-text search must appear
+ * in the patient name, HC or description.
+ */
+export const filterRecords = (records: PatientRecord[], filters: RecordFilters): PatientRecord[] => {
+  const terms = normalizeText(filters.text).split(/\s+/).filter(Boolean);
+  return records.filter(r => matchesFilters(r, filters, terms));
+};
+
+const sortValue = (record: PatientRecord, key: SortKey): string | number => {
+  switch (key) {
+    case 'region':
+      return record.intervention?.region ?? '';
+    case 'createdAt':
+      return record.createdAt;
+    default:
+      return record[key];
+  }
+};
+
+const collator = new Intl.Collator('es', { sensitivity: 'base', numeric: true });
+
+/**
+ * Returns a sorted copy. Ties fall back to newest first so the order is stable across renders.
+ */
+export const sortRecords = (records: PatientRecord[], order: SortOrder): PatientRecord[] => {
+  const sign = order.direction === 'asc' ? 1 : -1;
+  return [...records].sort((a, b) => {
+    const va = sortValue(a, order.key);
+    const vb = sortValue(b, order.key);
+    const cmp = typeof va === 'number' && typeof vb === 'number'
+      ? va - vb
+      : collator.compare(String(va), String(vb));
+    return cmp !== 0 ? cmp * sign : b.createdAt - a.createdAt;
+  });
+};
+
+export const hasActiveFilters = (filters: RecordFilters): boolean =>
+  filters.text.trim() !== '' ||
+  filters.region !== '' ||
+  filters.from !== '' ||
+  filters.to !== '' ||
+  Object.values(filters.flags).some(f => f !== 'any');
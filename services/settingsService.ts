@@ -0,0 +1,73 @@
+import { CsvDelimiter, getCsvColumns } from "./csvExport";
+import { ProviderConfig } from "./extractionProvider";
+import { ReportHeader } from "./pdfReports";
+import { DEFAULT_PROVIDER_CONFIG } from "./providerFactory";
+import { DEFAULT_TAXONOMY, Taxonomy, normalizeTaxonomy } from "./taxonomy";
+import { HcPattern } from "./validation";
+
+const SETTINGS_STORAGE_KEY = "surgilog_settings";
+
+export interface AppSettings {
+  /** Days a deleted record stays in the trash bin before it is purged for good. */
+  trashRetentionDays: number;
+  /** Days the audio of a dictation is kept with its record. 0 keeps it forever; transcripts always stay. */
+  dictationRetentionDays: number;
+  /** Last column selection used for CSV export, in output order. */
+  csvColumns: string[];
+  /** ";" suits Excel with a Spanish locale, where "," is the decimal separator. */
+  csvDelimiter: CsvDelimiter;
+  /** Minutes without interaction before the database locks itself. 0 disables auto-lock. */
+  autoLockMinutes: number;
+  /** AI backend used for document extraction and dictation. */
+  provider: ProviderConfig;
+  /** Body regions and classification flags used for extraction, the form, the table and exports. */
+  taxonomy: Taxonomy;
+  /** Accepted clinical history formats, one per hospital. Empty accepts any HC. */
+  hcPatterns: HcPattern[];
+  /** Country calling code, without "+", assumed for phones written without one. */
+  defaultCountryCode: string;
+  /** Surgeon and hospital printed on PDF reports, as last entered. */
+  reportHeader: ReportHeader;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  trashRetentionDays: 30,
+  dictationRetentionDays: 0,
+  csvColumns: getCsvColumns(DEFAULT_TAXONOMY).map(c => c.id),
+  csvDelimiter: ';',
+  autoLockMinutes: 5,
+  provider: DEFAULT_PROVIDER_CONFIG,
+  taxonomy: DEFAULT_TAXONOMY,
+  hcPatterns: [],
+  defaultCountryCode: '34',
+  reportHeader: { surgeonName: '', hospital: '' },
+};
+
+/**
+ * Fills in defaults for settings saved by older versions or restored from a backup.
+ */
+export const normalizeSettings = (raw: Partial<AppSettings>): AppSettings => ({
+  ...DEFAULT_SETTINGS,
+  ...raw,
+  provider: { ...DEFAULT_PROVIDER_CONFIG, ...raw.provider },
+  taxonomy: normalizeTaxonomy(raw.taxonomy ?? DEFAULT_TAXONOMY),
+  reportHeader: { ...DEFAULT_SETTINGS.reportHeader, ...raw.reportHeader },
+});
+
+/**
+ * Reads the user settings, falling back to defaults for anything missing or unreadable.
+ */
+export const loadSettings = (): AppSettings => {
+  const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+  if (!saved) return { ...DEFAULT_SETTINGS };
+  try {
+    return normalizeSettings(JSON.parse(saved));
+  } catch (e) {
+    console.error("Failed to load settings", e);
+    return { ...DEFAULT_SETTINGS };
+  }
+};
+
+export const saveSettings = (settings: AppSettings): void => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
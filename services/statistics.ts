@@ -0,0 +1,113 @@
+import { BodyRegion, PatientRecord } from "../types";
+import { EARLIEST_SURGERY_DATE, localToday, normalizeDate } from "./validation";
+
+export interface DateRange {
+  /** Inclusive lower bound, YYYY-MM-DD. Empty for no bound. */
+  from: string;
+  /** Inclusive upper bound, YYYY-MM-DD. Empty for no bound. */
+  to: string;
+}
+
+export interface CountBucket {
+  key: string;
+  label: string;
+  count: number;
+}
+
+export interface CaseStatistics {
+  total: number;
+  perMonth: CountBucket[];
+  perRegion: CountBucket[];
+  arthroscopic: number;
+  open: number;
+  lcaPerYear: CountBucket[];
+}
+
+const MONTH_LABELS = ['Ene', 'Feb', 'Mar', 'Abr', 'May', 'Jun', 'Jul', 'Ago', 'Sep', 'Oct', 'Nov', 'Dic'];
+
+const monthLabel = (key: string): string => {
+  const [year, month] = key.split('-');
+  return `${MONTH_LABELS[Number(month) - 1]} ${year.slice(2)}`;
+};
+
+/**
+ * Lists every YYYY-MM from `first` to `last` inclusive, so months without cases still show up as zero.
+ */
+const monthRange = (first: string, last: string): string[] => {
+  const keys: string[] = [];
+  let [year, month] = first.split('-').map(Number);
+  const [lastYear, lastMonth] = last.split('-').map(Number);
+  while (year < lastYear || (year === lastYear && month <= lastMonth)) {
+    keys.push(`${year}-${String(month).padStart(2, '0')}`);
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+  return keys;
+};
+
+const countBy = (records: PatientRecord[], keyOf: (r: PatientRecord) => string | null): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const record of records) {
+    const key = keyOf(record);
+    if (key !== null) counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+};
+
+export const filterByDateRange = (records: PatientRecord[], range: DateRange): PatientRecord[] =>
+  records.filter(r => (!range.from || r.date >= range.from) && (!range.to || r.date <= range.to));
+
+/**
+ * Aggregates the case log for the dashboard. Records without a valid date, or dated before
+ * EARLIEST_SURGERY_DATE or in the future, are counted in the total but left out of the time
+ * series, so one mistyped year cannot stretch the chart over centuries.
+ */
+export const computeStatistics = (
+  records: PatientRecord[],
+  range: DateRange,
+  regionOrder: string[] = Object.values(BodyRegion)
+): CaseStatistics => {
+  const inRange = filterByDateRange(records, range);
+  const today = localToday();
+  const dated = inRange.filter(r => normalizeDate(r.date) === r.date && r.date >= EARLIEST_SURGERY_DATE && r.date <= today);
+
+  const months = countBy(dated, r => r.date.slice(0, 7));
+  const monthKeys = [...months.keys()].sort();
+  const perMonth = monthKeys.length === 0
+    ? []
+    : monthRange(monthKeys[0], monthKeys[monthKeys.length - 1]).map(key => ({
+        key,
+        label: monthLabel(key),
+        count: months.get(key) ?? 0,
+      }));
+
+  const regions = countBy(inRange, r => r.intervention?.region ?? null);
+  // Regions no longer in the taxonomy still show up while cases use them
+  const perRegion = [...new Set([...regionOrder, ...regions.keys()])].map(region => ({
+    key: region,
+    label: region,
+    count: regions.get(region) ?? 0,
+  }));
+
+  const withIntervention = inRange.filter(r => r.intervention);
+  const arthroscopic = withIntervention.filter(r => r.intervention!.isArthroscopic).length;
+
+  const lcaYears = countBy(dated.filter(r => r.intervention?.isLCA), r => r.date.slice(0, 4));
+  const lcaPerYear = [...lcaYears.keys()].sort().map(year => ({
+    key: year,
+    label: year,
+    count: lcaYears.get(year)!,
+  }));
+
+  return {
+    total: inRange.length,
+    perMonth,
+    perRegion,
+    arthroscopic,
+    open: withIntervention.length - arthroscopic,
+    lcaPerYear,
+  };
+};
@@ -0,0 +1,106 @@
+import { BodyRegion, SurgicalIntervention } from "../types";
+import { normalizeText } from "./recordSearch";
+
+/** Flags stored as top-level intervention fields. Statistics and the LCA graft depend on them. */
+export type BuiltInFlagId = 'isArthroscopic' | 'isLCA' | 'isKneeRelated';
+
+export interface FlagDefinition {
+  /** Built-in ids, or "custom_<slug>" for user flags. Also the CSV column id. */
+  id: string;
+  label: string;
+  /** Tells the model when the flag applies. */
+  description: string;
+  /** Disabled flags are left out of extraction, the form, the table and exports. */
+  enabled: boolean;
+}
+
+/**
+ * User-editable classification: body regions and yes/no flags.
+ * Records keep region labels as plain text, so renaming a region does not touch saved cases.
+ */
+export interface Taxonomy {
+  regions: string[];
+  flags: FlagDefinition[];
+}
+
+/** Always present: unknown or unclassifiable regions end up here. */
+export const FALLBACK_REGION: string = BodyRegion.OTHER;
+
+export const BUILT_IN_FLAGS: FlagDefinition[] = [
+  { id: 'isArthroscopic', label: 'Artroscopia', description: 'Es una cirugía artroscópica.', enabled: true },
+  { id: 'isLCA', label: 'LCA', description: 'Implica el LCA (Ligamento Cruzado Anterior / ACL).', enabled: true },
+  { id: 'isKneeRelated', label: 'Rodilla', description: 'Es una cirugía de rodilla en general.', enabled: true },
+];
+
+export const DEFAULT_TAXONOMY: Taxonomy = {
+  regions: Object.values(BodyRegion),
+  flags: BUILT_IN_FLAGS,
+};
+
+export const isBuiltInFlag = (id: string): id is BuiltInFlagId =>
+  BUILT_IN_FLAGS.some(flag => flag.id === id);
+
+export const activeFlags = (taxonomy: Taxonomy): FlagDefinition[] =>
+  taxonomy.flags.filter(flag => flag.enabled);
+
+export const getFlag = (intervention: SurgicalIntervention | null | undefined, id: string): boolean => {
+  if (!intervention) return false;
+  return isBuiltInFlag(id) ? intervention[id] : intervention.customFlags[id] === true;
+};
+
+export const setFlag = (intervention: SurgicalIntervention, id: string, value: boolean): SurgicalIntervention =>
+  isBuiltInFlag(id)
+    ? { ...intervention, [id]: value }
+    : { ...intervention, customFlags: { ...intervention.customFlags, [id]: value } };
+
+/**
+ * Stable id for a new custom flag, derived from its label and unique within the taxonomy.
+ */
+export const customFlagId = (label: string, existing: FlagDefinition[]): string => {
+  const slug = normalizeText(label).replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'flag';
+  let id = `custom_${slug}`;
+  for (let n = 2; existing.some(flag => flag.id === id); n++) {
+    id = `custom_${slug}_${n}`;
+  }
+  return id;
+};
+
+/**
+ * Repairs a saved or restored taxonomy: trims and dedupes regions, keeps the fallback region,
+ * and makes sure every built-in flag is present exactly once.
+ */
+export const normalizeTaxonomy = (raw: unknown): Taxonomy => {
+  const data = (typeof raw === "object" && raw !== null ? raw : {}) as Partial<Taxonomy>;
+
+  const regions = Array.isArray(data.regions)
+    ? data.regions.filter((r): r is string => typeof r === "string").map(r => r.trim()).filter(Boolean)
+    : [...DEFAULT_TAXONOMY.regions];
+  const uniqueRegions = [...new Set(regions)].filter(r => r !== FALLBACK_REGION);
+
+  const saved = Array.isArray(data.flags)
+    ? data.flags.filter((f): f is FlagDefinition =>
+        typeof f === "object" && f !== null && typeof f.id === "string" && typeof f.label === "string")
+    : [];
+  const builtIns = BUILT_IN_FLAGS.map(flag => {
+    const override = saved.find(f => f.id === flag.id);
+    return override
+      ? {
+          ...flag,
+          label: override.label.trim() || flag.label,
+          description: typeof override.description === "string" ? override.description : flag.description,
+          enabled: override.enabled !== false,
+        }
+      : flag;
+  });
+  const custom = saved
+    .filter(f => !isBuiltInFlag(f.id) && f.id.startsWith('custom_') && f.label.trim())
+    .filter((f, i, all) => all.findIndex(other => other.id === f.id) === i)
+    .map(f => ({
+      id: f.id,
+      label: f.label.trim(),
+      description: typeof f.description === "string" ? f.description : '',
+      enabled: f.enabled !== false,
+    }));
+
+  return { regions: [...uniqueRegions, FALLBACK_REGION], flags: [...builtIns, ...custom] };
+};
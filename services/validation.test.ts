@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { PhoneType } from '../types';
+import {
+  UNKNOWN_HC,
+  normalizeDate,
+  normalizeHc,
+  normalizePatientFields,
+  parsePhone,
+  parsePhones,
+  validateHc,
+  validateSurgeryDate,
+} from './validation';
+
+const rules = { hcPatterns: [], defaultCountryCode: '34' };
+
+describe('normalizeHc', () => {
+  it('trims, upper-cases and drops inner spaces', () => {
+    expect(normalizeHc(' ab 123 ')).toBe('AB123');
+  });
+
+  it('maps blanks and any spelling of S/N to the placeholder', () => {
+    for (const value of ['', undefined, 's/n', 'SN', 's.n.']) {
+      expect(normalizeHc(value)).toBe(UNKNOWN_HC);
+    }
+  });
+});
+
+describe('validateHc', () => {
+  const patterns = [{ hospital: 'Hospital A', pattern: '\\d{6}' }];
+
+  it('accepts any HC when no pattern is configured', () => {
+    expect(validateHc('anything', [])).toBeNull();
+  });
+
+  it('checks the whole value against the patterns', () => {
+    expect(validateHc('123456', patterns)).toBeNull();
+    expect(validateHc('1234567', patterns)).toContain('Hospital A');
+  });
+
+  it('never flags an unknown HC or a pattern that does not compile', () => {
+    expect(validateHc('S/N', patterns)).toBeNull();
+    expect(validateHc('abc', [{ hospital: 'Roto', pattern: '(' }])).toBeNull();
+  });
+});
+
+describe('parsePhone', () => {
+  it('adds the default country code and types Spanish numbers by their first digit', () => {
+    expect(parsePhone('600 111 222', '34')).toEqual({ type: PhoneType.MOBILE, number: '+34600111222' });
+    expect(parsePhone('0034 912-345-678', '34')).toEqual({ type: PhoneType.LANDLINE, number: '+34912345678' });
+  });
+
+  it('rejects Spanish numbers of the wrong length', () => {
+    expect(parsePhone('60011122', '34')).toBeNull();
+  });
+
+  it('takes the type from a label outside Spain', () => {
+    expect(parsePhone('Móvil: +44 7700 900123', '34')).toEqual({ type: PhoneType.MOBILE, number: '+447700900123' });
+  });
+});
+
+describe('parsePhones', () => {
+  it('splits on the usual separators, drops repeats and keeps invalid pieces as written', () => {
+    expect(parsePhones('600111222 / 600 111 222 y 912345678; llamar tarde', '34')).toEqual({
+      phones: [
+        { type: PhoneType.MOBILE, number: '+34600111222' },
+        { type: PhoneType.LANDLINE, number: '+34912345678' },
+      ],
+      invalid: ['llamar tarde'],
+    });
+  });
+});
+
+describe('normalizeDate', () => {
+  it('accepts ISO and day-first dates', () => {
+    expect(normalizeDate('2024-3-7')).toBe('2024-03-07');
+    expect(normalizeDate('07/03/2024')).toBe('2024-03-07');
+    expect(normalizeDate('7-3-2024')).toBe('2024-03-07');
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(normalizeDate('2023-02-29')).toBeNull();
+    expect(normalizeDate('2024-13-01')).toBeNull();
+    expect(normalizeDate('ayer')).toBeNull();
+  });
+});
+
+describe('validateSurgeryDate', () => {
+  it('rejects future and implausibly old dates', () => {
+    expect(validateSurgeryDate('2024-05-01', '2024-06-01')).toBeNull();
+    expect(validateSurgeryDate('2024-06-02', '2024-06-01')).not.toBeNull();
+    expect(validateSurgeryDate('1949-12-31', '2024-06-01')).not.toBeNull();
+  });
+});
+
+describe('normalizePatientFields', () => {
+  it('normalizes the HC, the phones and the date of a record', () => {
+    expect(normalizePatientFields({ clinicalHistoryId: ' hc 1 ', phoneNumber: '600111222', date: '01/02/2024' }, rules)).toEqual({
+      clinicalHistoryId: 'HC1',
+      phoneNumber: '+34600111222',
+      phones: [{ type: PhoneType.MOBILE, number: '+34600111222' }],
+      date: '2024-02-01',
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { PatientRecord, PhoneNumber, PhoneType } from "../types";
+
+/** A hospital's clinical history number format, as a regular expression matched against the whole HC. */
+export interface HcPattern {
+  hospital: string;
+  pattern: string;
+}
+
+export interface ValidationRules {
+  /** An HC is valid if it matches any pattern. With none configured every HC is accepted. */
+  hcPatterns: HcPattern[];
+  /** Country calling code, without "+", for numbers written without one. */
+  defaultCountryCode: string;
+}
+
+export type ValidatedField = 'clinicalHistoryId' | 'phoneNumber' | 'date';
+
+export type FieldErrors = Partial<Record<ValidatedField, string>>;
+
+/** Placeholder stored when the HC is unknown. */
+export const UNKNOWN_HC = 'S/N';
+
+/** Surgeries dated before this are taken to be typing mistakes. */
+export const EARLIEST_SURGERY_DATE = '1950-01-01';
+
+// Separators between several phones in one field: "/", ",", ";", " - " and " y "
+const PHONE_SEPARATOR = /[/,;]|\s-\s|\sy\s/i;
+
+/**
+ * Trimmed, upper case and without inner spaces. Blank or any spelling of "S/N" becomes UNKNOWN_HC.
+ */
+export const normalizeHc = (value: string | undefined): string => {
+  const hc = (value ?? '').trim().toUpperCase().replace(/\s+/g, '');
+  return hc === '' || hc.replace(/[^A-Z]/g, '') === 'SN' ? UNKNOWN_HC : hc;
+};
+
+/** The pattern as a whole-value, case-insensitive RegExp, or null if it does not compile. */
+export const compileHcPattern = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(`^(?:${pattern})$`, 'i');
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Error message for an HC that matches none of the configured patterns. Patterns that do not
+ * compile are ignored here; the settings dialog refuses to save them.
+ */
+export const validateHc = (value: string | undefined, patterns: HcPattern[]): string | null => {
+  const hc = normalizeHc(value);
+  if (hc === UNKNOWN_HC) return null;
+  const usable = patterns.filter(p => p.pattern.trim() && compileHcPattern(p.pattern));
+  if (usable.length === 0 || usable.some(p => compileHcPattern(p.pattern)!.test(hc))) return null;
+  return `No coincide con el formato de HC de ${usable.map(p => p.hospital || p.pattern).join(' / ')}.`;
+};
+
+// Words written next to a number that say what kind it is
+const typeFromLabel = (text: string): PhoneType | null => {
+  const lower = text.toLowerCase();
+  if (/m[oó]vil|cel/.test(lower)) return PhoneType.MOBILE;
+  if (/fijo|casa|trabajo/.test(lower)) return PhoneType.LANDLINE;
+  return null;
+};
+
+/**
+ * One phone written in any common way ("600 111 222", "0034 600111222", "Móvil: +34 600-111-222")
+ * as an E.164 number. Numbers without a country code get `defaultCountryCode`. Spanish numbers are
+ * checked for length and typed by their first digit; elsewhere the type comes from a label, if any.
+ */
+export const parsePhone = (text: string, defaultCountryCode: string): PhoneNumber | null => {
+  let digits = text.replace(/[^\d+]/g, '');
+  if (digits.startsWith('00')) digits = `+${digits.slice(2)}`;
+  if (digits.lastIndexOf('+') > 0) return null;
+  const number = digits.startsWith('+') ? digits : `+${defaultCountryCode}${digits}`;
+  if (!/^\+[1-9]\d{7,14}$/.test(number)) return null;
+
+  if (number.startsWith('+34')) {
+    const national = number.slice(3);
+    if (!/^[6-9]\d{8}$/.test(national)) return null;
+    return { type: /^[67]/.test(national) ? PhoneType.MOBILE : PhoneType.LANDLINE, number };
+  }
+  return { type: typeFromLabel(text) ?? PhoneType.OTHER, number };
+};
+
+/**
+ * Splits a phone field into numbers. Pieces that are not a valid phone are returned as written.
+ */
+export const parsePhones = (text: string | undefined, defaultCountryCode: string): { phones: PhoneNumber[]; invalid: string[] } => {
+  const phones: PhoneNumber[] = [];
+  const invalid: string[] = [];
+  for (const piece of (text ?? '').split(PHONE_SEPARATOR).map(p => p.trim()).filter(Boolean)) {
+    const phone = parsePhone(piece, defaultCountryCode);
+    if (!phone) invalid.push(piece);
+    else if (!phones.some(p => p.number === phone.number)) phones.push(phone);
+  }
+  return { phones, invalid };
+};
+
+/** The " / "-separated text stored in `phoneNumber`. */
+export const formatPhones = (phones: PhoneNumber[], invalid: string[] = []): string =>
+  [...phones.map(p => p.number), ...invalid].join(' / ');
+
+/**
+ * Accepts YYYY-MM-DD, DD/MM/YYYY and DD-MM-YYYY. Returns YYYY-MM-DD or null if not a real date.
+ */
+export const normalizeDate = (value: string): string | null => {
+  const trimmed = value.trim();
+  let match = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  let [year, month, day] = match ? [match[1], match[2], match[3]] : [];
+  if (!match) {
+    match = trimmed.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+    if (!match) return null;
+    [day, month, year] = [match[1], match[2], match[3]];
+  }
+  const iso = `${year}-${month!.padStart(2, '0')}-${day!.padStart(2, '0')}`;
+  const parsed = new Date(`${iso}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(iso) ? iso : null;
+};
+
+/** Today's date on this device as YYYY-MM-DD. */
+export const localToday = (): string => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Error message for a surgery date that is not a real date, is in the future or is
+ * implausibly old.
+ */
+export const validateSurgeryDate = (value: string | undefined, today: string = localToday()): string | null => {
+  const date = normalizeDate(value ?? '');
+  if (!date) return 'Fecha no válida.';
+  if (date > today) return 'La fecha de la intervención no puede ser futura.';
+  if (date < EARLIEST_SURGERY_DATE) return `La fecha es anterior a ${EARLIEST_SURGERY_DATE.slice(0, 4)}.`;
+  return null;
+};
+
+/**
+ * Inline errors for the patient fields of a record. Empty fields are not checked.
+ */
+export const validatePatientFields = (record: Partial<PatientRecord>, rules: ValidationRules): FieldErrors => {
+  const errors: FieldErrors = {};
+  const hcError = validateHc(record.clinicalHistoryId, rules.hcPatterns);
+  if (hcError) errors.clinicalHistoryId = hcError;
+  const { invalid } = parsePhones(record.phoneNumber, rules.defaultCountryCode);
+  if (invalid.length > 0) {
+    errors.phoneNumber = `Teléfono no válido: ${invalid.map(p => `"${p}"`).join(', ')}.`;
+  }
+  const dateError = record.date ? validateSurgeryDate(record.date) : null;
+  if (dateError) errors.date = dateError;
+  return errors;
+};
+
+/**
+ * The record with its HC, phones and date in their stored form. Values that cannot be
+ * normalized are kept as written, so this never loses data.
+ */
+export const normalizePatientFields = <T extends Partial<PatientRecord>>(record: T, rules: ValidationRules): T => {
+  const { phones, invalid } = parsePhones(record.phoneNumber, rules.defaultCountryCode);
+  return {
+    ...record,
+    clinicalHistoryId: normalizeHc(record.clinicalHistoryId),
+    phoneNumber: formatPhones(phones, invalid),
+    phones,
+    ...(record.date !== undefined && { date: normalizeDate(record.date) ?? record.date }),
+  };
+};
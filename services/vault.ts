@@ -0,0 +1,222 @@
+import { PatientRecord } from "../types";
+import { EncryptedPayload, PBKDF2_ITERATIONS, decryptJson, deriveKey, encryptJson, randomBytes } from "./crypto";
+import { DICTATIONS_STORE, DRAFTS_STORE, META_STORE, PATIENTS_STORE, RECORDS_STORE, openDatabase, promisifyRequest, transactionDone } from "./database";
+import { SealedRecord, isSealedRecord, openRecord, sealRecord } from "./recordCipher";
+
+const VAULT_META_KEY = "vault";
+
+// Known plaintext encrypted with the vault key; decrypting it proves the passphrase is right
+const VERIFIER_TEXT = "surgilog-vault";
+
+interface VaultMeta {
+  salt: Uint8Array;
+  iterations: number;
+  verifier: EncryptedPayload;
+}
+
+// The derived key lives only in memory and is dropped on lock or page unload
+let sessionKey: CryptoKey | null = null;
+
+const readMeta = async (): Promise<VaultMeta | undefined> => {
+  const db = await openDatabase();
+  const store = db.transaction(META_STORE, "readonly").objectStore(META_STORE);
+  return promisifyRequest<VaultMeta | undefined>(store.get(VAULT_META_KEY));
+};
+
+const buildMeta = async (passphrase: string): Promise<{ key: CryptoKey; meta: VaultMeta }> => {
+  const salt = randomBytes(16);
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const verifier = await encryptJson(key, VERIFIER_TEXT);
+  return { key, meta: { salt, iterations: PBKDF2_ITERATIONS, verifier } };
+};
+
+/**
+ * Derives the key for `passphrase` and checks it against the stored verifier.
+ * Returns null when the passphrase is wrong.
+ */
+const verifyPassphrase = async (meta: VaultMeta, passphrase: string): Promise<CryptoKey | null> => {
+  const key = await deriveKey(passphrase, meta.salt, meta.iterations);
+  try {
+    await decryptJson(key, meta.verifier);
+    return key;
+  } catch {
+    return null;
+  }
+};
+
+type SealedEnvelope = EncryptedPayload & { id: string; createdAt: number };
+
+type StoredItem = SealedRecord | PatientRecord | SealedEnvelope;
+
+// Stores holding `{ id, createdAt }` envelopes around an encrypted JSON payload
+const ENVELOPE_STORES = [DRAFTS_STORE, DICTATIONS_STORE, PATIENTS_STORE];
+
+const REWRITE_STORES = [RECORDS_STORE, ...ENVELOPE_STORES];
+
+// Rewrites retried when other writes keep landing during the re-encryption
+const MAX_REWRITE_ATTEMPTS = 5;
+
+// Items decrypted and re-encrypted at a time, so a large dictation archive is never in memory in clear
+const REWRITE_BATCH_SIZE = 20;
+
+/**
+ * What a read saw of one item. Every write seals with a fresh IV, so the IV identifies the content;
+ * records also keep their trash date in clear. Plaintext records only exist before the vault does.
+ */
+const itemVersion = (item: StoredItem): string =>
+  "iv" in item
+    ? `${Array.from(item.iv).join(",")}|${(item as SealedRecord).deletedAt ?? ""}`
+    : `plain|${item.updatedAt ?? item.createdAt}|${item.deletedAt ?? ""}`;
+
+/**
+ * Walks a store with a cursor, so only one stored value is loaded at a time.
+ */
+const walkStore = (store: IDBObjectStore, visit: (cursor: IDBCursorWithValue) => void): Promise<void> =>
+  new Promise<void>((resolve, reject) => {
+    const request = store.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve();
+      visit(cursor);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Key and version of every item in the stores being rewritten.
+ */
+const readVersions = async (db: IDBDatabase): Promise<Map<string, Map<string, string>>> => {
+  const tx = db.transaction(REWRITE_STORES, "readonly");
+  const versions = new Map<string, Map<string, string>>();
+  await Promise.all(REWRITE_STORES.map(name => {
+    const store = new Map<string, string>();
+    versions.set(name, store);
+    return walkStore(tx.objectStore(name), cursor => store.set(cursor.primaryKey as string, itemVersion(cursor.value)));
+  }));
+  return versions;
+};
+
+const reseal = async (oldKey: CryptoKey | null, newKey: CryptoKey, storeName: string, item: StoredItem): Promise<StoredItem> => {
+  if (storeName === RECORDS_STORE) {
+    const record = isSealedRecord(item) ? await openRecord(oldKey!, item) : item as PatientRecord;
+    return sealRecord(newKey, record);
+  }
+  const { id, createdAt, iv, data } = item as SealedEnvelope;
+  return { id, createdAt, ...(await encryptJson(newKey, await decryptJson(oldKey!, { iv, data }))) };
+};
+
+/**
+ * Re-encrypts every stored record, and every draft, dictation and patient, with `newKey` and saves
+ * the new vault metadata in one transaction. Plaintext records left over from before the vault
+ * existed are sealed as well; the other stores only exist once the vault does, so they are always encrypted.
+ * WebCrypto is async, so items are read and re-encrypted in small batches before the write transaction,
+ * which walks the stores again and compares keys and IVs with what was re-encrypted. If anything was
+ * saved, changed or deleted in between, the write is abandoned and the next attempt re-encrypts just that.
+ */
+const rewriteRecords = async (oldKey: CryptoKey | null, newKey: CryptoKey, meta: VaultMeta): Promise<void> => {
+  const db = await openDatabase();
+  // Per store: key -> the re-encrypted item and the version of the stored item it was made from
+  const resealed = new Map<string, Map<string, { version: string; item: StoredItem }>>(
+    REWRITE_STORES.map(name => [name, new Map()])
+  );
+  for (let attempt = 1; ; attempt++) {
+    const versions = await readVersions(db);
+    for (const name of REWRITE_STORES) {
+      const done = resealed.get(name)!;
+      const current = versions.get(name)!;
+      for (const key of done.keys()) {
+        if (current.get(key) !== done.get(key)!.version) done.delete(key);
+      }
+      const pending = [...current.keys()].filter(key => !done.has(key));
+      for (let i = 0; i < pending.length; i += REWRITE_BATCH_SIZE) {
+        const store = db.transaction(name, "readonly").objectStore(name);
+        const items = await Promise.all(pending.slice(i, i + REWRITE_BATCH_SIZE).map(key =>
+          promisifyRequest<StoredItem | undefined>(store.get(key))
+        ));
+        for (const item of items) {
+          if (item) done.set(item.id, { version: itemVersion(item), item: await reseal(oldKey, newKey, name, item) });
+        }
+      }
+    }
+
+    const tx = db.transaction([...REWRITE_STORES, META_STORE], "readwrite");
+    let unchanged = true;
+    await Promise.all(REWRITE_STORES.map(async name => {
+      const done = resealed.get(name)!;
+      let seen = 0;
+      await walkStore(tx.objectStore(name), cursor => {
+        seen++;
+        if (done.get(cursor.primaryKey as string)?.version !== itemVersion(cursor.value)) unchanged = false;
+      });
+      if (seen !== done.size) unchanged = false;
+    }));
+    if (!unchanged) {
+      tx.abort();
+      await transactionDone(tx).catch(() => undefined);
+      if (attempt === MAX_REWRITE_ATTEMPTS) throw new Error("Los datos cambiaron mientras se cifraban. Inténtelo de nuevo.");
+      continue;
+    }
+    for (const name of REWRITE_STORES) {
+      const store = tx.objectStore(name);
+      for (const { item } of resealed.get(name)!.values()) {
+        store.put(item);
+      }
+    }
+    tx.objectStore(META_STORE).put(meta, VAULT_META_KEY);
+    await transactionDone(tx);
+    return;
+  }
+};
+
+export const isVaultInitialized = async (): Promise<boolean> => (await readMeta()) !== undefined;
+
+export const isVaultUnlocked = (): boolean => sessionKey !== null;
+
+/**
+ * Key for the current session. Throws if the vault is locked.
+ */
+export const getVaultKey = (): CryptoKey => {
+  if (!sessionKey) throw new Error("La base de datos está bloqueada.");
+  return sessionKey;
+};
+
+/**
+ * First-time setup: creates the vault and encrypts any records already on the device.
+ */
+export const createVault = async (passphrase: string): Promise<void> => {
+  if (await isVaultInitialized()) throw new Error("Vault already initialized.");
+  const { key, meta } = await buildMeta(passphrase);
+  await rewriteRecords(null, key, meta);
+  sessionKey = key;
+};
+
+/**
+ * Unlocks the vault for this session. Returns false if the passphrase is wrong.
+ */
+export const unlockVault = async (passphrase: string): Promise<boolean> => {
+  const meta = await readMeta();
+  if (!meta) throw new Error("Vault not initialized.");
+  const key = await verifyPassphrase(meta, passphrase);
+  if (!key) return false;
+  sessionKey = key;
+  return true;
+};
+
+export const lockVault = (): void => {
+  sessionKey = null;
+};
+
+/**
+ * Re-encrypts all data under a new passphrase. Returns false if `current` is wrong.
+ */
+export const changePassphrase = async (current: string, next: string): Promise<boolean> => {
+  const meta = await readMeta();
+  if (!meta) throw new Error("Vault not initialized.");
+  const oldKey = await verifyPassphrase(meta, current);
+  if (!oldKey) return false;
+  const { key, meta: nextMeta } = await buildMeta(next);
+  await rewriteRecords(oldKey, key, nextMeta);
+  sessionKey = key;
+  return true;
+};
@@ -1,3 +1,4 @@
+// Default region taxonomy. Users can rename, add or remove regions, so records store plain labels.
 export enum BodyRegion {
   SHOULDER = 'Hombro',
   KNEE = 'Rodilla',
@@ -8,24 +9,117 @@ export enum BodyRegion {
   OTHER = 'Otro'
 }
 
+export enum Laterality {
+  LEFT = 'Izquierda',
+  RIGHT = 'Derecha',
+  BILATERAL = 'Bilateral',
+  NOT_SPECIFIED = 'No especificada'
+}
+
+export enum PhoneType {
+  MOBILE = 'Móvil',
+  LANDLINE = 'Fijo',
+  OTHER = 'Otro'
+}
+
+export enum GraftType {
+  HAMSTRING = 'Isquiotibiales',
+  BTB = 'Hueso-tendón-hueso',
+  QUADRICEPS = 'Cuadricipital',
+  ALLOGRAFT = 'Aloinjerto',
+  OTHER = 'Otro'
+}
+
+export enum SurgeonRole {
+  PRIMARY = 'Cirujano principal',
+  FIRST_ASSISTANT = 'Primer ayudante',
+  SECOND_ASSISTANT = 'Segundo ayudante'
+}
+
+export interface Procedure {
+  description: string;
+  isPrimary: boolean;
+  icd10pcs: string; // ICD-10-PCS code, empty if unknown
+  cie9mc: string; // CIE-9-MC code, empty if unknown
+}
+
+export interface Implant {
+  name: string;
+  manufacturer: string;
+  reference: string; // Catalogue or lot number
+}
+
 export interface SurgicalIntervention {
   description: string;
-  region: BodyRegion;
+  region: string; // A label from the region taxonomy; BodyRegion holds the defaults
+  laterality: Laterality;
+  procedures: Procedure[];
   isArthroscopic: boolean;
   isLCA: boolean; // Anterior Cruciate Ligament
   isKneeRelated: boolean;
+  customFlags: Record<string, boolean>; // User-defined flags by id, see services/taxonomy.ts
+  graftType: GraftType | null; // Only for LCA reconstructions
+  implants: Implant[];
+  surgeonRole: SurgeonRole;
+}
+
+/** The original dictation behind a record's intervention, kept for traceability. */
+export interface DictationInfo {
+  audioId: string; // Key in the dictations store; the audio itself may have been purged by retention
+  mimeType: string;
+  transcript: string; // Verbatim model transcript, never edited; the description is the edited text
+  recordedAt: number;
+}
+
+/** A phone parsed from the free-text phone field, see services/validation.ts. */
+export interface PhoneNumber {
+  type: PhoneType;
+  number: string; // E.164, e.g. +34600111222
+}
+
+/** One person across all their interventions, identified by the clinical history number. */
+export interface Patient {
+  id: string; // UUID
+  clinicalHistoryId: string;
+  patientName: string;
+  phoneNumber: string;
+  phones?: PhoneNumber[];
+  createdAt: number;
+  updatedAt?: number;
 }
 
 export interface PatientRecord {
   id: string; // UUID
+  patientId?: string; // The Patient this case belongs to; unset while the HC is unknown ("S/N")
   patientName: string;
   clinicalHistoryId: string;
-  phoneNumber?: string;
+  phoneNumber?: string; // E.164 numbers separated by " / " once saved
+  phones?: PhoneNumber[]; // Parsed from phoneNumber on save; missing on records saved before validation
   date: string;
   intervention: SurgicalIntervention | null;
+  dictation?: DictationInfo; // Set when the intervention came from a dictation
   createdAt: number;
+  updatedAt?: number; // Set whenever a saved record is edited
+  deletedAt?: number; // Set when moved to the trash bin; purged after the retention period
+}
+
+export type PatientDataField = 'patientName' | 'clinicalHistoryId' | 'date' | 'phoneNumber';
+
+/** A captured photo, PDF or recording: base64 without the data URL prefix. */
+export interface MediaFile {
+  base64: string;
+  mimeType: string;
 }
 
+export interface ExtractedField {
+  value: string;
+  confidence: number; // 0..1, as reported by the model
+  source: string; // Verbatim text the value was read from
+  page: number; // 1-based position of the attached page or PDF it came from; 0 if unknown
+}
+
+export type PatientDataExtraction = Record<PatientDataField, ExtractedField>;
+
 export interface AnalysisState {
   isAnalyzing: boolean;
   error: string | null;
@@ -0,0 +1,13 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_KEY?: string;
+  /** Overrides the default Gemini model, e.g. "gemini-2.5-pro". */
+  readonly VITE_GEMINI_MODEL?: string;
+  /** Default AI provider ("gemini", "openai" or "mock") until one is chosen in the settings. */
+  readonly VITE_AI_PROVIDER?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
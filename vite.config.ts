@@ -1,7 +1,31 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { Plugin, defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Files copied from public/ that belong to the offline app shell
+const PUBLIC_SHELL_FILES = ['/manifest.webmanifest', '/icon-192.png', '/icon-512.png', '/icon-maskable-512.png'];
+
+/**
+ * Emits /sw.js from service-worker.js on build, with the bundle's files to precache.
+ * A new build id changes the worker, which is how deployed clients notice an update.
+ */
+const serviceWorkerPlugin = (): Plugin => ({
+  name: 'surgilog-service-worker',
+  apply: 'build',
+  generateBundle(_options, bundle) {
+    const bundled = Object.keys(bundle).filter(file => file !== 'index.html').map(file => `/${file}`);
+    const template = fs.readFileSync(path.resolve(__dirname, 'service-worker.js'), 'utf-8');
+    this.emitFile({
+      type: 'asset',
+      fileName: 'sw.js',
+      source: template
+        .replace('__BUILD_ID__', JSON.stringify(Date.now().toString(36)))
+        .replace('__PRECACHE_URLS__', JSON.stringify(['/', ...PUBLIC_SHELL_FILES, ...bundled])),
+    });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +33,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorkerPlugin()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)